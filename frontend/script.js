@@ -2,6 +2,11 @@
 const API_BASE_PATH = '/api';
 let currentLectureId = null;
 
+// Lecture file types the server can extract; PDFs and Office documents are uploaded as raw bytes
+// so the server keeps the original file
+const SUPPORTED_EXTENSIONS = ['pdf', 'txt', 'docx', 'pptx', 'md', 'markdown', 'html', 'htm', 'srt', 'vtt'];
+const BINARY_EXTENSIONS = ['pdf', 'docx', 'pptx'];
+
 let isLoginMode = true; // Track if user is in login mode or signup mode
 let authToken = null; // Store the authentication token
 
@@ -379,14 +384,14 @@ async function handleFileUpload(){
     // Get the file
     const file = lectureUploadInput.files[0];
 
-    // Validate file type (PDF or text)
+    // Validate file type (PDF, text, Office documents, notes or captions)
+    const fileExtension = file.name.split('.').pop().toLowerCase();
     const isValidType = file.type === 'application/pdf' || 
                         file.type === 'text/plain' || 
-                        file.name.endsWith('.txt') || 
-                        file.name.endsWith('.pdf');
+                        SUPPORTED_EXTENSIONS.includes(fileExtension);
     
     if (!isValidType){
-        displayMessage("Please upload a PDF or TXT file only", 'error');
+        displayMessage(`Please upload one of: ${SUPPORTED_EXTENSIONS.join(', ')}`, 'error');
         return;
     }
 
@@ -408,17 +413,10 @@ async function handleFileUpload(){
     try {
         let fileContent;
         
-        // Handle PDF files
-        if (file.type === 'application/pdf' || file.name.endsWith('.pdf')) {
-            updateLoadingMessage(uploadMessage, `Extracting text from PDF`);
-            fileContent = await extractTextFromPDF(file);
-            
-            if (!fileContent || fileContent.trim().length === 0) {
-                throw new Error('No text could be extracted from the PDF. The file may be empty, image-only, or corrupted.');
-            }
-            
-            console.log(`Extracted ${fileContent.length} characters from PDF`);
-        } 
+        // PDFs and Office documents are sent as-is and converted by the server
+        if (BINARY_EXTENSIONS.includes(fileExtension) || file.type === 'application/pdf') {
+            fileContent = file;
+        }
         // Handle text files
         else {
             updateLoadingMessage(uploadMessage, `Reading file content`);
@@ -426,11 +424,13 @@ async function handleFileUpload(){
         }
 
         // Log for verification
-        console.log(`Received file: ${file.name}. Content preview: ${fileContent.substring(0, 100)}...`);
+        if (typeof fileContent === 'string') {
+            console.log(`Received file: ${file.name}. Content preview: ${fileContent.substring(0, 100)}...`);
+        }
 
         // Upload the lecture to the API
         updateLoadingMessage(uploadMessage, `Uploading to server`);
-        await uploadLecture(file.name, String(fileContent));
+        await uploadLecture(file.name, fileContent);
         
         // Remove the upload progress message after successful upload
         uploadMessage.remove();
@@ -456,41 +456,6 @@ async function readTextFile(file) {
     });
 }
 
-// Helper function to extract text from PDF using PDF.js
-async function extractTextFromPDF(file) {
-    try {
-        // Set worker source for PDF.js
-        pdfjsLib.GlobalWorkerOptions.workerSrc = 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.worker.min.js';
-        
-        // Read file as ArrayBuffer
-        const arrayBuffer = await new Promise((resolve, reject) => {
-            const reader = new FileReader();
-            reader.onload = (event) => resolve(event.target.result);
-            reader.onerror = (error) => reject(error);
-            reader.readAsArrayBuffer(file);
-        });
-
-        // Load PDF document
-        const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
-        const numPages = pdf.numPages;
-        console.log(`PDF has ${numPages} pages`);
-
-        // Extract text from all pages
-        let fullText = '';
-        for (let pageNum = 1; pageNum <= numPages; pageNum++) {
-            const page = await pdf.getPage(pageNum);
-            const textContent = await page.getTextContent();
-            const pageText = textContent.items.map(item => item.str).join(' ');
-            fullText += pageText + '\n\n';
-        }
-
-        return fullText.trim();
-    } catch (error) {
-        console.error('PDF extraction error:', error);
-        throw new Error(`Failed to extract text from PDF: ${error.message}`);
-    }
-}
-
 // uploadLecture function to upload the lecture to the API
 async function uploadLecture(fileName, fileContent){
     // Construct the full URL
@@ -499,7 +464,9 @@ async function uploadLecture(fileName, fileContent){
     // Create a new FormData object
     const formData = new FormData();
     // Append the file name and content to the form data
-    formData.append('lectureFile', new Blob([fileContent], {type: 'text/plain'}), fileName);
+    // Files are sent with their own type; extracted text is sent as plain text
+    const fileBlob = fileContent instanceof Blob ? fileContent : new Blob([fileContent], {type: 'text/plain'});
+    formData.append('lectureFile', fileBlob, fileName);
 
     try {
         const response = await fetch(uploadUrl, {
@@ -792,39 +759,13 @@ async function callSummerizeAPI(){
     const loadingMessage = displayLoadingMessage("Generating summary", 'default');
 
     try {
-        // 1. Retrieve the raw lecture text from DO
-        updateLoadingMessage(loadingMessage, "Fetching lecture content");
-        const rawTextUrl = `${API_BASE_PATH}/chat/${currentLectureId}/raw-lecture-text`;
-        const rawTextResponse = await fetch(rawTextUrl, {
-            headers: {'Authorization': `Bearer ${authToken}`},
-        });
-
-        // Check for 401 Unauthorized (expired session)
-        if (rawTextResponse.status === 401){
-            handleUnauthorized();
-            loadingMessage.remove();
-            return;
-        }
-
-        if (!rawTextResponse.ok){
-            const errorMessage = await parseErrorResponse(rawTextResponse);
-            throw new Error(`Failed to retrieve raw lecture text (${rawTextResponse.status}): ${errorMessage}`);
-        }
-
-        const rawTextData = await rawTextResponse.json();
-        const lectureContent = rawTextData.rawText;
-
-        if (!lectureContent){
-            throw new Error('Raw lecture content not found in Durable Object.');
-        }
-
-        // 2. Send the raw lecture content to the summarize endpoint
+        // Ask the summarize endpoint to summarize the lecture's stored text
         updateLoadingMessage(loadingMessage, "AI is generating summary");
         const summarizeUrl = `${API_BASE_PATH}/summarize`;
         const summarizeResponse = await fetch(summarizeUrl, {
             method: 'POST',
             headers: {'Content-Type': 'application/json', 'Authorization': `Bearer ${authToken}`},
-            body: JSON.stringify({text: lectureContent, lectureId: currentLectureId})
+            body: JSON.stringify({lectureId: currentLectureId})
         });
 
         // Check for 401 Unauthorized (expired session)
@@ -1142,7 +1083,9 @@ async function deleteLecture(lectureId, lectureName) {
 
         // Re-render the list
         renderLectureList();
-        displayMessage(`"${lectureName}" has been deleted.`, 'system');
+        const result = await response.json();
+        const purgeDate = new Date(result.purgeAt).toLocaleDateString();
+        displayMessage(`"${lectureName}" has been moved to the trash. It can be restored until ${purgeDate}.`, 'system');
 
     } catch (error) {
         console.error('Error deleting lecture:', error);
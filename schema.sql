@@ -16,9 +16,149 @@ CREATE TABLE user_lectures (
     lecture_id TEXT,
     lecture_name TEXT,
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    course_id TEXT,
+    term TEXT,
+    description TEXT,
+    updated_at TIMESTAMP,
+    deleted_at TIMESTAMP,
     PRIMARY KEY (user_id, lecture_id)
 );
 
+DROP TABLE IF EXISTS courses;
+CREATE TABLE courses (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    name TEXT NOT NULL,
+    position INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP
+);
+CREATE UNIQUE INDEX idx_courses_user_name ON courses (user_id, name COLLATE NOCASE);
+
+DROP TABLE IF EXISTS lecture_tags;
+CREATE TABLE lecture_tags (
+    user_id TEXT,
+    lecture_id TEXT,
+    tag TEXT,
+    PRIMARY KEY (user_id, lecture_id, tag)
+);
+CREATE INDEX idx_lecture_tags_tag ON lecture_tags (user_id, tag COLLATE NOCASE);
+
+DROP TABLE IF EXISTS flashcards;
+CREATE TABLE flashcards (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    lecture_id TEXT NOT NULL,
+    question TEXT NOT NULL,
+    answer TEXT NOT NULL,
+    ease_factor REAL NOT NULL DEFAULT 2.5,
+    interval_days INTEGER NOT NULL DEFAULT 0,
+    repetitions INTEGER NOT NULL DEFAULT 0,
+    due_at TEXT NOT NULL,
+    last_reviewed_at TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT
+);
+CREATE INDEX idx_flashcards_lecture ON flashcards (user_id, lecture_id);
+CREATE INDEX idx_flashcards_due ON flashcards (user_id, due_at);
+
+DROP TABLE IF EXISTS quizzes;
+CREATE TABLE quizzes (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    lecture_id TEXT NOT NULL,
+    difficulty TEXT NOT NULL,
+    questions TEXT NOT NULL,
+    created_at TEXT NOT NULL
+);
+CREATE INDEX idx_quizzes_lecture ON quizzes (user_id, lecture_id);
+
+DROP TABLE IF EXISTS quiz_attempts;
+CREATE TABLE quiz_attempts (
+    id TEXT PRIMARY KEY,
+    quiz_id TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+    answers TEXT NOT NULL,
+    results TEXT NOT NULL,
+    score REAL NOT NULL,
+    max_score INTEGER NOT NULL,
+    created_at TEXT NOT NULL
+);
+CREATE INDEX idx_quiz_attempts_quiz ON quiz_attempts (quiz_id, created_at);
+
+DROP TABLE IF EXISTS lecture_permissions;
+CREATE TABLE lecture_permissions (
+    lecture_id TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+    role TEXT NOT NULL CHECK (role IN ('owner', 'collaborator', 'viewer')),
+    granted_by TEXT,
+    share_token TEXT,
+    created_at TEXT NOT NULL,
+    PRIMARY KEY (lecture_id, user_id)
+);
+CREATE INDEX idx_lecture_permissions_user ON lecture_permissions (user_id, role);
+
+DROP TABLE IF EXISTS lecture_share_links;
+CREATE TABLE lecture_share_links (
+    token TEXT PRIMARY KEY,
+    lecture_id TEXT NOT NULL,
+    created_by TEXT NOT NULL,
+    role TEXT NOT NULL CHECK (role IN ('collaborator', 'viewer')),
+    expires_at TEXT NOT NULL,
+    revoked_at TEXT,
+    created_at TEXT NOT NULL
+);
+CREATE INDEX idx_lecture_share_links_lecture ON lecture_share_links (lecture_id, created_by);
+
+DROP TABLE IF EXISTS study_groups;
+CREATE TABLE study_groups (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    created_by TEXT NOT NULL,
+    pooled_quotas INTEGER NOT NULL DEFAULT 0,
+    created_at TEXT NOT NULL
+);
+
+DROP TABLE IF EXISTS group_members;
+CREATE TABLE group_members (
+    group_id TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+    role TEXT NOT NULL CHECK (role IN ('instructor', 'student')),
+    joined_at TEXT NOT NULL,
+    PRIMARY KEY (group_id, user_id)
+);
+CREATE INDEX idx_group_members_user ON group_members (user_id);
+
+DROP TABLE IF EXISTS group_invitations;
+CREATE TABLE group_invitations (
+    id TEXT PRIMARY KEY,
+    group_id TEXT NOT NULL,
+    email TEXT NOT NULL,
+    role TEXT NOT NULL CHECK (role IN ('instructor', 'student')),
+    invited_by TEXT NOT NULL,
+    expires_at TEXT NOT NULL,
+    created_at TEXT NOT NULL
+);
+CREATE INDEX idx_group_invitations_email ON group_invitations (email);
+
+DROP TABLE IF EXISTS group_lectures;
+CREATE TABLE group_lectures (
+    group_id TEXT NOT NULL,
+    lecture_id TEXT NOT NULL,
+    added_by TEXT NOT NULL,
+    added_at TEXT NOT NULL,
+    PRIMARY KEY (group_id, lecture_id)
+);
+CREATE INDEX idx_group_lectures_lecture ON group_lectures (lecture_id);
+
+DROP TABLE IF EXISTS lecture_search;
+CREATE VIRTUAL TABLE lecture_search USING fts5(
+    content,
+    lecture_id UNINDEXED,
+    start_offset UNINDEXED,
+    tokenize = 'unicode61 remove_diacritics 2'
+);
+
 CREATE TABLE sessions (
     token TEXT PRIMARY KEY,
     user_id TEXT,
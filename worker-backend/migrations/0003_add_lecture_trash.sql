@@ -0,0 +1,4 @@
+-- Migration: Add soft delete support to user_lectures table
+-- Deleted lectures keep their row with deleted_at set until the trash is purged
+
+ALTER TABLE user_lectures ADD COLUMN deleted_at TIMESTAMP;
@@ -0,0 +1,16 @@
+-- Migration: Add editable lecture details to user_lectures and a lecture_tags table
+-- lecture_name now holds the display name (initially the uploaded file name)
+
+ALTER TABLE user_lectures ADD COLUMN course TEXT;
+ALTER TABLE user_lectures ADD COLUMN term TEXT;
+ALTER TABLE user_lectures ADD COLUMN description TEXT;
+ALTER TABLE user_lectures ADD COLUMN updated_at TIMESTAMP;
+
+CREATE TABLE IF NOT EXISTS lecture_tags (
+    user_id TEXT,
+    lecture_id TEXT,
+    tag TEXT,
+    PRIMARY KEY (user_id, lecture_id, tag)
+);
+
+CREATE INDEX IF NOT EXISTS idx_lecture_tags_tag ON lecture_tags (user_id, tag COLLATE NOCASE);
@@ -0,0 +1,26 @@
+-- Migration: Add courses to organize lectures
+-- Replaces the free-text user_lectures.course with course_id, a reference to courses.
+-- Existing course names become courses (one per distinct name per user, ignoring case).
+
+CREATE TABLE IF NOT EXISTS courses (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    name TEXT NOT NULL,
+    position INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_courses_user_name ON courses (user_id, name COLLATE NOCASE);
+
+ALTER TABLE user_lectures ADD COLUMN course_id TEXT;
+
+INSERT INTO courses (id, user_id, name, position)
+SELECT lower(hex(randomblob(16))), user_id, course, ROW_NUMBER() OVER (PARTITION BY user_id ORDER BY course COLLATE NOCASE) - 1
+FROM (SELECT user_id, MIN(course) AS course FROM user_lectures WHERE course IS NOT NULL GROUP BY user_id, course COLLATE NOCASE);
+
+UPDATE user_lectures SET course_id = (
+    SELECT id FROM courses WHERE courses.user_id = user_lectures.user_id AND courses.name = user_lectures.course COLLATE NOCASE
+) WHERE course IS NOT NULL;
+
+ALTER TABLE user_lectures DROP COLUMN course;
@@ -0,0 +1,11 @@
+-- Migration: Add full-text search over lecture text
+-- Lecture text is indexed in passages at upload (and re-extraction); start_offset is the
+-- passage's character offset in the lecture text. Rows are removed when a lecture is purged.
+-- Lectures uploaded before this migration are indexed when they are re-extracted.
+
+CREATE VIRTUAL TABLE IF NOT EXISTS lecture_search USING fts5(
+    content,
+    lecture_id UNINDEXED,
+    start_offset UNINDEXED,
+    tokenize = 'unicode61 remove_diacritics 2'
+);
@@ -0,0 +1,21 @@
+-- Migration: Add flashcards with spaced-repetition review scheduling
+-- Cards belong to a user and one of their lectures. ease_factor, interval_days and repetitions
+-- hold the SM-2 state; due_at (ISO 8601) is when the card should next be reviewed.
+
+CREATE TABLE IF NOT EXISTS flashcards (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    lecture_id TEXT NOT NULL,
+    question TEXT NOT NULL,
+    answer TEXT NOT NULL,
+    ease_factor REAL NOT NULL DEFAULT 2.5,
+    interval_days INTEGER NOT NULL DEFAULT 0,
+    repetitions INTEGER NOT NULL DEFAULT 0,
+    due_at TEXT NOT NULL,
+    last_reviewed_at TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_flashcards_lecture ON flashcards (user_id, lecture_id);
+CREATE INDEX IF NOT EXISTS idx_flashcards_due ON flashcards (user_id, due_at);
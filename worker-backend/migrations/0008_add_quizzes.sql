@@ -0,0 +1,27 @@
+-- Migration: Add quizzes and quiz attempts
+-- questions holds the generated questions as JSON, including the answer key, which is only
+-- returned once an attempt is graded. Attempts keep the submitted answers and graded results.
+
+CREATE TABLE IF NOT EXISTS quizzes (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    lecture_id TEXT NOT NULL,
+    difficulty TEXT NOT NULL,
+    questions TEXT NOT NULL,
+    created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_quizzes_lecture ON quizzes (user_id, lecture_id);
+
+CREATE TABLE IF NOT EXISTS quiz_attempts (
+    id TEXT PRIMARY KEY,
+    quiz_id TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+    answers TEXT NOT NULL,
+    results TEXT NOT NULL,
+    score REAL NOT NULL,
+    max_score INTEGER NOT NULL,
+    created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_quiz_attempts_quiz ON quiz_attempts (quiz_id, created_at);
@@ -0,0 +1,32 @@
+-- Migration: Add lecture permissions and share links
+-- Every user's role on a lecture ('owner', 'collaborator' or 'viewer') is a row in
+-- lecture_permissions; existing lectures are backfilled with their uploader as owner.
+-- granted_by is the owner who shared the lecture (NULL for the owner's own row) and
+-- share_token the link it was joined through, if any.
+
+CREATE TABLE IF NOT EXISTS lecture_permissions (
+    lecture_id TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+    role TEXT NOT NULL CHECK (role IN ('owner', 'collaborator', 'viewer')),
+    granted_by TEXT,
+    share_token TEXT,
+    created_at TEXT NOT NULL,
+    PRIMARY KEY (lecture_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_lecture_permissions_user ON lecture_permissions (user_id, role);
+
+INSERT OR IGNORE INTO lecture_permissions (lecture_id, user_id, role, granted_by, share_token, created_at)
+    SELECT lecture_id, user_id, 'owner', NULL, NULL, COALESCE(created_at, CURRENT_TIMESTAMP) FROM user_lectures;
+
+CREATE TABLE IF NOT EXISTS lecture_share_links (
+    token TEXT PRIMARY KEY,
+    lecture_id TEXT NOT NULL,
+    created_by TEXT NOT NULL,
+    role TEXT NOT NULL CHECK (role IN ('collaborator', 'viewer')),
+    expires_at TEXT NOT NULL,
+    revoked_at TEXT,
+    created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_lecture_share_links_lecture ON lecture_share_links (lecture_id, created_by);
@@ -0,0 +1,44 @@
+-- Migration: Add study groups
+-- A group has members (its creator is an instructor), pending invitations by email and a
+-- library of lectures that every member can access. pooled_quotas = 1 makes requests on the
+-- group's lectures draw on a shared rate-limit quota sized by the member count.
+
+CREATE TABLE IF NOT EXISTS study_groups (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    created_by TEXT NOT NULL,
+    pooled_quotas INTEGER NOT NULL DEFAULT 0,
+    created_at TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS group_members (
+    group_id TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+    role TEXT NOT NULL CHECK (role IN ('instructor', 'student')),
+    joined_at TEXT NOT NULL,
+    PRIMARY KEY (group_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_group_members_user ON group_members (user_id);
+
+CREATE TABLE IF NOT EXISTS group_invitations (
+    id TEXT PRIMARY KEY,
+    group_id TEXT NOT NULL,
+    email TEXT NOT NULL,
+    role TEXT NOT NULL CHECK (role IN ('instructor', 'student')),
+    invited_by TEXT NOT NULL,
+    expires_at TEXT NOT NULL,
+    created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_group_invitations_email ON group_invitations (email);
+
+CREATE TABLE IF NOT EXISTS group_lectures (
+    group_id TEXT NOT NULL,
+    lecture_id TEXT NOT NULL,
+    added_by TEXT NOT NULL,
+    added_at TEXT NOT NULL,
+    PRIMARY KEY (group_id, lecture_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_group_lectures_lecture ON group_lectures (lecture_id);
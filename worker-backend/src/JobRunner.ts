@@ -0,0 +1,293 @@
+import { StudyTask, SummaryOptions, buildChunkPrompt, buildCombinePrompt, buildSinglePrompt, runStudyPrompt, splitStudyText, withGuidance } from './prompts';
+import { ArtifactKind, putLectureArtifact } from './artifacts';
+import { createAiProvider } from './ai';
+
+// TypeScript interfaces for background jobs
+type JobStatus = 'running' | 'completed' | 'failed';
+
+interface JobState {
+  id: string;
+  type: StudyTask;
+  lectureId: string;
+  userId: string;
+  model: string;
+  promptVersion: number;
+  options?: SummaryOptions; // Summarize jobs: the requested style, length, language and focus
+  guidance?: string; // Instructor guidance from the lecture's tutor settings
+  cacheKey: string; // Artifact cache key the result is stored under when the job completes
+  status: JobStatus;
+  totalChunks: number;
+  completedChunks: number;
+  attempts: number; // Failed attempts on the current step
+  result?: string;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface StartJobRequest {
+  id: string;
+  type: StudyTask;
+  lectureId: string;
+  userId: string;
+  model: string;
+  promptVersion: number;
+  options?: SummaryOptions;
+  guidance?: string;
+  cacheKey: string;
+  text: string;
+}
+
+// Retry a failed step with exponential backoff before marking the job failed
+const MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 5000;
+
+const ARTIFACT_KINDS: Record<StudyTask, ArtifactKind> = {
+  summarize: 'summary',
+  extract: 'concepts',
+};
+
+/**
+ * Durable Object that runs one summarize/extract job chunk by chunk.
+ * Each alarm processes a single step and persists its result, so a failed step
+ * can be retried or resumed without redoing completed chunks.
+ */
+export class JobRunner {
+  state: DurableObjectState;
+  env: any;
+
+  private readonly JOB_KEY = 'job';
+  private readonly CHUNK_PREFIX = 'chunk:';
+  private readonly PARTIAL_PREFIX = 'partial:';
+
+  constructor(state: DurableObjectState, env: any) {
+    this.state = state;
+    this.env = env;
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const path = url.pathname;
+
+    try {
+      if (path === '/start' && request.method === 'POST') {
+        return await this.handleStart(request);
+      } else if (path === '/status' && request.method === 'GET') {
+        return await this.handleStatus();
+      } else if (path === '/resume' && request.method === 'POST') {
+        return await this.handleResume();
+      } else if (path === '/destroy' && request.method === 'POST') {
+        // The job's lecture was purged: drop its text, partial results and any pending step
+        await this.state.storage.deleteAlarm();
+        await this.state.storage.deleteAll();
+        return this.jsonResponse({ response: 'Job storage deleted' });
+      } else {
+        return new Response('Invalid endpoint or missing parameters', { status: 400 });
+      }
+    } catch (error) {
+      console.error('JobRunner error:', error);
+      return new Response(
+        JSON.stringify({
+          error: 'Job runner error',
+          details: error instanceof Error ? error.message : String(error),
+        }),
+        {
+          status: 500,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+  }
+
+  /**
+   * Split the lecture into chunks, persist them and schedule the first step
+   */
+  private async handleStart(request: Request): Promise<Response> {
+    const existing = await this.state.storage.get<JobState>(this.JOB_KEY);
+    if (existing) {
+      return this.jsonResponse({ error: 'Job already exists' }, 409);
+    }
+
+    const { text, ...job } = (await request.json()) as StartJobRequest;
+    const chunks = splitStudyText(text || '');
+    if (chunks.length === 0) {
+      return this.jsonResponse({ error: 'No text to process' }, 400);
+    }
+    const now = new Date().toISOString();
+
+    const state: JobState = {
+      ...job,
+      status: 'running',
+      totalChunks: chunks.length,
+      completedChunks: 0,
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    // Storage accepts at most 128 key-value pairs per put
+    for (let i = 0; i < chunks.length; i += 128) {
+      const entries: Record<string, string> = {};
+      chunks.slice(i, i + 128).forEach((chunk, offset) => {
+        entries[this.chunkKey(i + offset)] = chunk;
+      });
+      await this.state.storage.put(entries);
+    }
+    await this.state.storage.put(this.JOB_KEY, state);
+    await this.state.storage.setAlarm(Date.now());
+
+    return this.jsonResponse(await this.describe(state), 202);
+  }
+
+  /**
+   * Report status, progress and the partial results produced so far
+   */
+  private async handleStatus(): Promise<Response> {
+    const state = await this.state.storage.get<JobState>(this.JOB_KEY);
+    if (!state) {
+      return this.jsonResponse({ error: 'Job not found' }, 404);
+    }
+    return this.jsonResponse(await this.describe(state));
+  }
+
+  /**
+   * Restart a failed job from the step that failed
+   */
+  private async handleResume(): Promise<Response> {
+    const state = await this.state.storage.get<JobState>(this.JOB_KEY);
+    if (!state) {
+      return this.jsonResponse({ error: 'Job not found' }, 404);
+    }
+    if (state.status !== 'failed') {
+      return this.jsonResponse({ error: `Only failed jobs can be resumed (status: ${state.status})` }, 409);
+    }
+
+    state.status = 'running';
+    state.attempts = 0;
+    state.error = undefined;
+    state.updatedAt = new Date().toISOString();
+    await this.state.storage.put(this.JOB_KEY, state);
+    await this.state.storage.setAlarm(Date.now());
+
+    return this.jsonResponse(await this.describe(state), 202);
+  }
+
+  /**
+   * Process the next step: one chunk, or the final combine once all chunks are done
+   */
+  async alarm(): Promise<void> {
+    const state = await this.state.storage.get<JobState>(this.JOB_KEY);
+    if (!state || state.status !== 'running') {
+      return;
+    }
+
+    try {
+      if (state.completedChunks < state.totalChunks) {
+        const index = state.completedChunks;
+        const chunk = (await this.state.storage.get<string>(this.chunkKey(index))) || '';
+        const prompt =
+          state.totalChunks === 1 ? buildSinglePrompt(state.type, chunk, state.options) : buildChunkPrompt(state.type, chunk, index, state.totalChunks, state.options);
+        const output = await runStudyPrompt(createAiProvider(this.env), state.model, withGuidance(prompt, state.guidance || ''));
+
+        await this.state.storage.put(this.partialKey(index), output);
+        state.completedChunks++;
+
+        // A single-chunk document needs no combine step
+        if (state.totalChunks === 1) {
+          state.result = output;
+        }
+      } else {
+        const partials = await this.loadPartials(state.totalChunks);
+        state.result = await runStudyPrompt(createAiProvider(this.env), state.model, withGuidance(buildCombinePrompt(state.type, partials, state.options), state.guidance || ''));
+      }
+
+      state.attempts = 0;
+      state.error = undefined;
+      if (state.result !== undefined) {
+        state.status = 'completed';
+        await this.cacheResult(state);
+      }
+    } catch (error) {
+      console.error(`Job ${state.id} step failed:`, error);
+      state.attempts++;
+      state.error = error instanceof Error ? error.message : String(error);
+      if (state.attempts >= MAX_ATTEMPTS) {
+        state.status = 'failed';
+      }
+    }
+
+    state.updatedAt = new Date().toISOString();
+    await this.state.storage.put(this.JOB_KEY, state);
+
+    if (state.status === 'running') {
+      const delay = state.attempts > 0 ? RETRY_BASE_DELAY_MS * 2 ** (state.attempts - 1) : 0;
+      await this.state.storage.setAlarm(Date.now() + delay);
+    }
+  }
+
+  /**
+   * Store the finished result in the lecture's artifact cache so the regular
+   * GET /api/summarize and /api/extract-concepts routes can serve it
+   */
+  private async cacheResult(state: JobState): Promise<void> {
+    try {
+      const stub = this.env.LECTURE_MEMORY.get(this.env.LECTURE_MEMORY.idFromName(state.lectureId));
+      await putLectureArtifact(stub, {
+        kind: ARTIFACT_KINDS[state.type],
+        cacheKey: state.cacheKey,
+        content: state.result!,
+        model: state.model,
+        promptVersion: state.promptVersion,
+        options: state.options,
+        createdAt: new Date().toISOString(),
+      });
+    } catch (error) {
+      console.error(`Failed to cache result of job ${state.id}:`, error);
+    }
+  }
+
+  private async describe(state: JobState) {
+    // One step per chunk, plus the combine step for multi-chunk documents
+    const totalSteps = state.totalChunks + (state.totalChunks > 1 ? 1 : 0);
+    const completedSteps = state.completedChunks + (state.status === 'completed' && state.totalChunks > 1 ? 1 : 0);
+
+    return {
+      jobId: state.id,
+      type: state.type,
+      lectureId: state.lectureId,
+      userId: state.userId,
+      status: state.status,
+      progress: totalSteps > 0 ? Math.round((completedSteps / totalSteps) * 100) : 100,
+      completedChunks: state.completedChunks,
+      totalChunks: state.totalChunks,
+      partialResults: await this.loadPartials(state.completedChunks),
+      result: state.result ?? null,
+      error: state.error ?? null,
+      createdAt: state.createdAt,
+      updatedAt: state.updatedAt,
+    };
+  }
+
+  private async loadPartials(count: number): Promise<string[]> {
+    if (count === 0) {
+      return [];
+    }
+    const stored = await this.state.storage.list<string>({ prefix: this.PARTIAL_PREFIX });
+    return [...stored.values()].slice(0, count);
+  }
+
+  private chunkKey(index: number): string {
+    return this.CHUNK_PREFIX + String(index).padStart(6, '0');
+  }
+
+  private partialKey(index: number): string {
+    return this.PARTIAL_PREFIX + String(index).padStart(6, '0');
+  }
+
+  private jsonResponse(body: unknown, status = 200): Response {
+    return new Response(JSON.stringify(body), {
+      status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
@@ -1,135 +1,764 @@
+import { Citation, IndexedChunk, RETRIEVAL_TOP_K, RetrievedPassage, buildCitations, embedTexts, indexLecture, rankChunks } from './retrieval';
+import { formatSseEvent, readAiStream } from './sse';
+import { ConversationSummary, buildConversationContext, contextBudgetFromEnv } from './conversation';
+import { LectureArtifact } from './artifacts';
+import { SHARED_THREAD_ID } from './permissions';
+import { LectureSection, sectionsForRange } from './extractors';
+import { DEFAULT_LECTURE_SETTINGS, LectureSettings, parseLectureSettings, tutorGuidance } from './tutor';
+import { AiProvider, CHAT_AI_BUDGET_MS, createAiProvider, parseModelSelection } from './ai';
+
 interface ChatRequest {
   message: string;
+  model?: string; // One of the allowed chat models (see ai.ts); defaults to DEFAULT_AI_MODEL
 }
 
 interface ChatMessage {
+  id: string;
   role: 'user' | 'assistant';
   content: string;
   timestamp: number;
+  citations?: Citation[];
 }
 
 interface ChatHistory {
   messages: ChatMessage[];
 }
 
+interface ChatThread {
+  id: string;
+  title: string;
+  instructions?: string; // Extra guidance appended to the system prompt for this thread
+  memberId?: string; // Set on a group member's private threads
+  createdAt: number;
+  updatedAt: number;
+}
+
+interface ThreadRequest {
+  title?: string;
+  instructions?: string;
+}
+
+interface RetrieveRequest {
+  query: string;
+  topK?: number;
+  queryEmbedding?: number[]; // Precomputed by callers querying several lectures with one question
+  link?: LinkedObject; // The cross-lecture conversation asking, recorded so it is dropped on purge
+  budgetMs?: number; // Time left of the caller's AI budget, bounding the question's embedding
+}
+
+// A Durable Object holding data derived from this lecture: a job's JobRunner (named by the job
+// ID) or a cross-lecture conversation's MultiLectureChat (named by user and scope)
+export interface LinkedObject {
+  type: 'job' | 'chat';
+  name: string;
+  userId: string;
+}
+
 interface LectureContentRequest{
   lectureText: string;
+  sections?: LectureSection[]; // Structure of the original file (pages, slides, headings, captions)
 }
 
+const LECTURE_KEY = "raw_lecture_text";
+const LECTURE_SECTIONS_KEY = "lecture_sections";
+const THREADS_KEY = "chat_threads";
+const LINKS_KEY = "linked_objects";
+const SETTINGS_KEY = "lecture_settings";
+const DEFAULT_THREAD_ID = "default";
+const CHUNK_KEY_PREFIX = "lecture_chunk:";
+
+// Set by the Worker (never the client) on requests from members of a group the lecture belongs
+// to: their chat, history and threads are kept apart from the owner's and each other's
+export const MEMBER_HEADER = "X-LectureLens-Member";
+
+function memberKeyPrefix(memberId?: string): string {
+  return memberId ? `member:${memberId}:` : "";
+}
+
+function threadsKey(memberId?: string): string {
+  return memberKeyPrefix(memberId) + THREADS_KEY;
+}
+
+// The default thread keeps the original storage keys so histories saved before threads existed still load
+function historyKey(thread: ChatThread): string {
+  return memberKeyPrefix(thread.memberId) + (thread.id === DEFAULT_THREAD_ID ? "chat_history" : `thread_history:${thread.id}`);
+}
+
+function summaryKey(thread: ChatThread): string {
+  return memberKeyPrefix(thread.memberId) + (thread.id === DEFAULT_THREAD_ID ? "chat_summary" : `thread_summary:${thread.id}`);
+}
+
+// Cached artifacts are stored per kind and input hash; older versions are pruned
+const ARTIFACT_KEY_PREFIX = "artifact:";
+const LATEST_ARTIFACT_KEY_PREFIX = "artifact_latest:";
+const ARTIFACT_KINDS = ['summary', 'concepts', 'concepts_json'];
+const MAX_ARTIFACT_VERSIONS = 5;
+
+// History page sizes for GET /history
+const DEFAULT_HISTORY_PAGE_SIZE = 50;
+const MAX_HISTORY_PAGE_SIZE = 200;
+
 export class LectureMemory {
   state: DurableObjectState;
   env: any;
 
+  // In-memory copy of the indexed chunks, loaded lazily from storage
+  private chunkCache: IndexedChunk[] | null = null;
+
   constructor(state: DurableObjectState, env: any) {
     this.state = state;
     this.env = env;
   }
 
-  async fetch(request: Request): Promise<Response> {
-    const url = new URL(request.url);
-    const path = url.pathname;
+  /**
+   * The instructor's tutor settings for this lecture, or the defaults if none were saved
+   */
+  private async loadSettings(): Promise<LectureSettings> {
+    // Parsed again so settings stored before the Durable Object validated them cannot break the prompts
+    const stored = await this.state.storage.get(SETTINGS_KEY);
+    return (stored !== undefined && parseLectureSettings(stored).settings) || DEFAULT_LECTURE_SETTINGS;
+  }
 
-    // Chat endpoint
-    if (path === '/chat' && request.method === 'POST') {
-      try {
-        const { message } = (await request.json()) as ChatRequest;
+  private async loadLinks(): Promise<LinkedObject[]> {
+    return (await this.state.storage.get<LinkedObject[]>(LINKS_KEY)) || [];
+  }
+
+  private async addLink(link: LinkedObject): Promise<void> {
+    const links = await this.loadLinks();
+    if (!links.some((existing) => existing.type === link.type && existing.name === link.name)) {
+      links.push({type: link.type, name: link.name, userId: link.userId});
+      await this.state.storage.put(LINKS_KEY, links);
+    }
+  }
+
+  /**
+   * Destroy the job and cross-lecture chat objects derived from this lecture (only the given
+   * user's, if any), so purging the lecture leaves no copy of its text or answers about it
+   */
+  private async destroyLinks(userId?: string): Promise<void> {
+    const links = await this.loadLinks();
+    const remaining: LinkedObject[] = [];
+    for (const link of links) {
+      if (userId && link.userId !== userId) {
+        remaining.push(link);
+        continue;
+      }
+      const namespace = link.type === 'job' ? this.env.JOB_RUNNER : this.env.MULTI_LECTURE_CHAT;
+      const response = await namespace.get(namespace.idFromName(link.name)).fetch('https://do-placeholder/destroy', { method: 'POST' });
+      if (!response.ok) {
+        throw new Error(`Failed to destroy ${link.type} ${link.name}: ${await response.text()}`);
+      }
+    }
+    await this.state.storage.put(LINKS_KEY, remaining);
+  }
 
-        // 1. Define the storage key for the chat history
-        const HISTORY_KEY = "chat_history";
+  /**
+   * Load the thread list (of a group member, if given). The default thread always exists and
+   * holds the original single history.
+   */
+  private async loadThreads(memberId?: string): Promise<ChatThread[]> {
+    const threads = (await this.state.storage.get<ChatThread[]>(threadsKey(memberId))) || [];
+    if (!threads.some(thread => thread.id === DEFAULT_THREAD_ID)) {
+      threads.unshift({ id: DEFAULT_THREAD_ID, title: 'General', memberId, createdAt: 0, updatedAt: 0 });
+    }
+    return threads;
+  }
 
-        // 2. Retrieve the existing history (or initialize if there is not)
-        let history = (await this.state.storage.get<ChatHistory>(HISTORY_KEY)) || {messages: []};
+  private async findThread(threadId: string, memberId?: string): Promise<ChatThread | undefined> {
+    const threads = await this.loadThreads(memberId);
+    const thread = threads.find(thread => thread.id === threadId);
+    // The thread for members of a shared lecture exists once it is first used
+    if (!thread && !memberId && threadId === SHARED_THREAD_ID) {
+      return { id: SHARED_THREAD_ID, title: 'Shared', createdAt: 0, updatedAt: 0 };
+    }
+    return thread;
+  }
 
-        // 3. Append the new user message
-        const userMessage: ChatMessage = {
-          role: 'user',
-          content: message,
-          timestamp: Date.now()
-        };
+  private async saveThread(updated: ChatThread): Promise<void> {
+    const threads = await this.loadThreads(updated.memberId);
+    const index = threads.findIndex(thread => thread.id === updated.id);
+    if (index === -1) {
+      threads.push(updated);
+    } else {
+      threads[index] = updated;
+    }
+    await this.state.storage.put(threadsKey(updated.memberId), threads);
+  }
 
-        // 4. Add the user message to the history
-        history.messages.push(userMessage);
+  // Record activity so thread lists can be sorted by most recent use
+  private async touchThread(thread: ChatThread): Promise<void> {
+    await this.saveThread({ ...thread, updatedAt: Date.now() });
+  }
 
-        // 5. Save the updated history back to storage
-        await this.state.storage.put(HISTORY_KEY, history);
+  /**
+   * Load a thread's chat history, assigning IDs to messages stored before messages had them
+   */
+  private async loadHistory(thread: ChatThread): Promise<ChatHistory> {
+    const history = (await this.state.storage.get<ChatHistory>(historyKey(thread))) || {messages: []};
 
-        // 6. Retrieve the lecture content from storage
-        const LECTURE_KEY = "raw_lecture_text";
-        const lectureContent = await this.state.storage.get<string>(LECTURE_KEY);
+    let backfilled = false;
+    for (const message of history.messages) {
+      if (!message.id) {
+        message.id = crypto.randomUUID();
+        backfilled = true;
+      }
+    }
+    if (backfilled) {
+      await this.state.storage.put(historyKey(thread), history);
+    }
 
-        // 7. Construct the AI prompt that includes the lecture context
-        let systemPrompt = "You are LectureLens, an AI-powered study assistant. Your goal is to answer questions based on the provided lecture content to answer the user's question. If the user's question is not related to the lecture content, you should say that you don't know.";
-        
-        // If lecture content exists, add it to the system prompt
-        if (lectureContent) {
-          systemPrompt += `\n\nHere is the lecture content:\n\n${lectureContent}`;
-        }
+    return history;
+  }
 
-        // 8. Map the history to the format required by the AI model
-        const aiMessage = history.messages.map(msg => ({
-          role: msg.role,
-          content: msg.content
-        }));
+  /**
+   * Chunk and index the lecture text, replacing any previously stored chunks
+   */
+  private async storeLectureIndex(lectureText: string): Promise<IndexedChunk[]> {
+    const chunks = await indexLecture(lectureText, createAiProvider(this.env));
+
+    // Remove chunks from a previous version of the lecture
+    const existing = await this.state.storage.list({ prefix: CHUNK_KEY_PREFIX });
+    const staleKeys = [...existing.keys()];
+    for (let i = 0; i < staleKeys.length; i += 128) {
+      await this.state.storage.delete(staleKeys.slice(i, i + 128));
+    }
+
+    // Storage accepts at most 128 key-value pairs per put
+    for (let i = 0; i < chunks.length; i += 128) {
+      const entries: Record<string, IndexedChunk> = {};
+      for (const chunk of chunks.slice(i, i + 128)) {
+        entries[CHUNK_KEY_PREFIX + String(chunk.index).padStart(6, '0')] = chunk;
+      }
+      await this.state.storage.put(entries);
+    }
+
+    this.chunkCache = chunks;
+    return chunks;
+  }
+
+  /**
+   * Load the indexed chunks, building the index for lectures stored before retrieval existed
+   */
+  private async loadLectureChunks(): Promise<IndexedChunk[]> {
+    if (this.chunkCache) {
+      return this.chunkCache;
+    }
+
+    const stored = await this.state.storage.list<IndexedChunk>({ prefix: CHUNK_KEY_PREFIX });
+    if (stored.size > 0) {
+      this.chunkCache = [...stored.values()];
+      return this.chunkCache;
+    }
+
+    const lectureText = await this.state.storage.get<string>(LECTURE_KEY);
+    return lectureText ? this.storeLectureIndex(lectureText) : [];
+  }
+
+  /**
+   * Retrieve the passages of the lecture most relevant to a question
+   */
+  private async retrievePassages(question: string, topK = RETRIEVAL_TOP_K, queryEmbedding?: number[], ai: AiProvider = createAiProvider(this.env)): Promise<RetrievedPassage[]> {
+    const chunks = await this.loadLectureChunks();
+    if (chunks.length === 0) {
+      return [];
+    }
+
+    if (!queryEmbedding && chunks[0].embedding) {
+      try {
+        [queryEmbedding] = await embedTexts(ai, [question]);
+      } catch (error) {
+        console.warn('Embedding the question failed, using lexical retrieval only:', error);
+      }
+    }
 
-        // 9. Prepend the system prompt
-        const messages = [
-          {role: 'system', content: systemPrompt},
-          ...aiMessage
-        ]
+    return rankChunks(chunks, question, topK, queryEmbedding);
+  }
 
-        // 10. Call the Workers AI binding
-        const model = '@cf/meta/llama-3.3-70b-instruct-fp8-fast';
-        const aiResponse = await this.env.AI.run(model, {messages, max_tokens: 4096});
+  /**
+   * Relay the AI answer token by token as Server-Sent Events. The assembled answer is
+   * saved to the history once the model finishes, then a final `done` event carries
+   * the citations and message metadata.
+   */
+  private streamChatResponse(ai: AiProvider, model: string, messages: { role: string; content: string }[], thread: ChatThread, history: ChatHistory, userMessage: ChatMessage, passages: RetrievedPassage[]): Response {
+    const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+    const writer = writable.getWriter();
 
-        const assistantResponse = aiResponse.response;
+    const relay = async () => {
+      let assistantResponse = '';
+      try {
+        const aiStream = await ai.run(model, { messages, max_tokens: 4096, stream: true });
+
+        for await (const token of readAiStream(aiStream)) {
+          assistantResponse += token;
+          await writer.write(formatSseEvent('token', { token }));
+        }
 
-        // 11. Append the AI's response to the history and save it
+        const citations = buildCitations(passages, assistantResponse);
         const assistantMessage: ChatMessage = {
+          id: crypto.randomUUID(),
           role: 'assistant',
           content: assistantResponse,
-          timestamp: Date.now()
+          timestamp: Date.now(),
+          citations
         };
-
         history.messages.push(assistantMessage);
-        await this.state.storage.put(HISTORY_KEY, history);
+        await this.state.storage.put(historyKey(thread), history);
+        await this.touchThread(thread);
 
-        // 12. Return the AI's response to the user
-        return new Response(JSON.stringify({
-          response: assistantResponse,
+        await writer.write(formatSseEvent('done', {
+          threadId: thread.id,
+          messageId: assistantMessage.id,
+          userMessageId: userMessage.id,
+          citations,
+          timestamp: assistantMessage.timestamp,
+          responseLength: assistantResponse.length,
           doId: this.state.id.toString()
-        }), {
-          headers: {'Content-Type': 'application/json'}
-        })
+        }));
       } catch (error) {
-        console.error('Error processing chat request:', error);
+        console.error('Error streaming chat response:', error);
         const errorMessage = error instanceof Error ? error.message : String(error);
-        return new Response(JSON.stringify({
+        // The client may already have disconnected, so the error event is best-effort
+        await writer.write(formatSseEvent('error', {
           error: 'Failed to process chat request',
           details: errorMessage
-        }), {
-          status: 500,
-          headers: { 'Content-Type': 'application/json' }
+        })).catch(() => {});
+      } finally {
+        await writer.close().catch(() => {});
+      }
+    };
+
+    relay();
+
+    return new Response(readable, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache'
+      }
+    });
+  }
+
+  /**
+   * Answer a message in a thread, grounded in the lecture passages relevant to it
+   */
+  private async handleChat(request: Request, url: URL, thread: ChatThread): Promise<Response> {
+    try {
+      const { message, model: requestedModel } = (await request.json()) as ChatRequest;
+      const { model, error: modelError } = parseModelSelection(requestedModel, this.env);
+      if (!model) {
+        return new Response(JSON.stringify({error: modelError}), {
+          status: 400,
+          headers: {'Content-Type': 'application/json'}
         });
       }
+      // Every AI call of this answer has to finish (or, when streamed, start) before the Worker gives up
+      const ai = createAiProvider(this.env, Date.now() + CHAT_AI_BUDGET_MS);
+
+      // 1. Check whether the client asked for a streamed (SSE) answer
+      const wantsStream = url.searchParams.get('stream') === '1' || (request.headers.get('Accept') || '').includes('text/event-stream');
+
+      // 2. Retrieve the existing history (or initialize if there is not)
+      let history = await this.loadHistory(thread);
+
+      // 3. Append the new user message
+      const userMessage: ChatMessage = {
+        id: crypto.randomUUID(),
+        role: 'user',
+        content: message,
+        timestamp: Date.now()
+      };
+
+      // 4. Add the user message to the history
+      history.messages.push(userMessage);
+
+      // 5. Save the updated history back to storage
+      await this.state.storage.put(historyKey(thread), history);
+
+      // 6. Retrieve only the passages of the lecture relevant to the question
+      const passages = await this.retrievePassages(message, RETRIEVAL_TOP_K, undefined, ai);
+
+      // 7. Construct the AI prompt that includes the lecture context
+      let systemPrompt = "You are LectureLens, an AI-powered study assistant. Your goal is to answer questions based on the provided lecture content to answer the user's question. If the user's question is not related to the lecture content, you should say that you don't know.";
+      
+      // If relevant passages exist, add them to the system prompt
+      if (passages.length > 0) {
+        const excerpts = passages.map((passage, i) => `[Passage ${i + 1}]\n${passage.text}`).join('\n\n');
+        systemPrompt += `\n\nHere are the most relevant excerpts from the lecture content. When you use an excerpt, cite it inline as [Passage n].\n\n${excerpts}`;
+      }
+
+      // Add the thread's custom instructions, if any
+      if (thread.instructions) {
+        systemPrompt += `\n\nAdditional instructions from the student for this conversation:\n${thread.instructions}`;
+      }
+
+      // Add the instructor's tutor settings last so they override the student's instructions
+      const guidance = tutorGuidance(await this.loadSettings(), 'chat');
+      if (guidance) {
+        systemPrompt += `\n\n${guidance}`;
+      }
+
+      // 8. Keep the history within the token budget: recent turns verbatim, older ones summarized
+      const storedSummary = (await this.state.storage.get<ConversationSummary>(summaryKey(thread))) || null;
+      const context = await buildConversationContext(ai, model, history.messages, storedSummary, contextBudgetFromEnv(this.env));
+      if (context.summaryUpdated && context.summary) {
+        await this.state.storage.put(summaryKey(thread), context.summary);
+      }
+      if (context.summary) {
+        systemPrompt += `\n\nSummary of the earlier conversation with this student:\n${context.summary.content}`;
+      }
+
+      // Map the recent history to the format required by the AI model
+      const aiMessage = context.recentMessages.map(msg => ({
+        role: msg.role,
+        content: msg.content
+      }));
+
+      // 9. Prepend the system prompt
+      const messages = [
+        {role: 'system', content: systemPrompt},
+        ...aiMessage
+      ]
+
+      // 10. Call the selected model, relaying tokens as they arrive in streaming mode
+      if (wantsStream) {
+        return this.streamChatResponse(ai, model, messages, thread, history, userMessage, passages);
+      }
+
+      const aiResponse = await ai.run(model, {messages, max_tokens: 4096});
+
+      const assistantResponse = aiResponse.response;
+      const citations = buildCitations(passages, assistantResponse);
+
+      // 11. Append the AI's response to the history and save it
+      const assistantMessage: ChatMessage = {
+        id: crypto.randomUUID(),
+        role: 'assistant',
+        content: assistantResponse,
+        timestamp: Date.now(),
+        citations
+      };
+
+      history.messages.push(assistantMessage);
+      await this.state.storage.put(historyKey(thread), history);
+      await this.touchThread(thread);
+
+      // 12. Return the AI's response to the user
+      return new Response(JSON.stringify({
+        response: assistantResponse,
+        threadId: thread.id,
+        messageId: assistantMessage.id,
+        userMessageId: userMessage.id,
+        citations,
+        doId: this.state.id.toString()
+      }), {
+        headers: {'Content-Type': 'application/json'}
+      })
+    } catch (error) {
+      console.error('Error processing chat request:', error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return new Response(JSON.stringify({
+        error: 'Failed to process chat request',
+        details: errorMessage
+      }), {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+  }
+
+  /**
+   * Create a thread, or update the title and instructions of an existing one
+   */
+  private async handleSaveThread(request: Request, existing?: ChatThread, memberId?: string): Promise<Response> {
+    const { title, instructions } = (await request.json()) as ThreadRequest;
+
+    if (title !== undefined && (typeof title !== 'string' || !title.trim() || title.length > 100)) {
+      return new Response(JSON.stringify({error: 'Thread title must be 1-100 characters'}), {
+        status: 400,
+        headers: {'Content-Type': 'application/json'}
+      });
+    }
+    if (instructions !== undefined && (typeof instructions !== 'string' || instructions.length > 2000)) {
+      return new Response(JSON.stringify({error: 'Thread instructions must be at most 2000 characters'}), {
+        status: 400,
+        headers: {'Content-Type': 'application/json'}
+      });
+    }
+
+    const now = Date.now();
+    const thread: ChatThread = existing
+      ? { ...existing, updatedAt: now }
+      : { id: crypto.randomUUID(), title: 'New conversation', memberId, createdAt: now, updatedAt: now };
+    if (title !== undefined) {
+      thread.title = title.trim();
+    }
+    if (instructions !== undefined) {
+      thread.instructions = instructions.trim() || undefined;
+    }
+
+    await this.saveThread(thread);
+    return new Response(JSON.stringify({thread}), {
+      status: existing ? 200 : 201,
+      headers: {'Content-Type': 'application/json'}
+    });
+  }
+
+  /**
+   * Delete a thread with its history. The default and shared threads can only be cleared.
+   */
+  private async handleDeleteThread(thread: ChatThread): Promise<Response> {
+    if (thread.id === DEFAULT_THREAD_ID || thread.id === SHARED_THREAD_ID) {
+      return new Response(JSON.stringify({error: `The ${thread.id} thread cannot be deleted; clear its history instead`}), {
+        status: 400,
+        headers: {'Content-Type': 'application/json'}
+      });
+    }
+
+    const threads = await this.loadThreads(thread.memberId);
+    await this.state.storage.put(threadsKey(thread.memberId), threads.filter(t => t.id !== thread.id));
+    await this.state.storage.delete([historyKey(thread), summaryKey(thread)]);
+
+    return new Response(JSON.stringify({response: 'Thread deleted', threadId: thread.id}), {
+      headers: {'Content-Type': 'application/json'}
+    });
+  }
+
+  private async loadArtifact(kind: string, cacheKey?: string | null): Promise<LectureArtifact | undefined> {
+    const key = cacheKey || await this.state.storage.get<string>(LATEST_ARTIFACT_KEY_PREFIX + kind);
+    return key ? this.state.storage.get<LectureArtifact>(`${ARTIFACT_KEY_PREFIX}${kind}:${key}`) : undefined;
+  }
+
+  /**
+   * Return a cached artifact by input hash (`?key=`), or the latest one of its kind
+   */
+  private async handleGetArtifact(url: URL, kind: string): Promise<Response> {
+    const artifact = await this.loadArtifact(kind, url.searchParams.get('key'));
+
+    if (!artifact) {
+      return new Response(JSON.stringify({error: `No cached ${kind} found`}), {
+        status: 404,
+        headers: {'Content-Type': 'application/json'}
+      });
+    }
+    return new Response(JSON.stringify({artifact}), {
+      headers: {'Content-Type': 'application/json'}
+    });
+  }
+
+  /**
+   * Store an artifact, mark it as the latest of its kind and prune old versions
+   */
+  private async handlePutArtifact(request: Request, kind: string): Promise<Response> {
+    const artifact = (await request.json()) as LectureArtifact;
+    if (!artifact?.cacheKey || artifact.kind !== kind || artifact.content === undefined) {
+      return new Response(JSON.stringify({error: 'Invalid artifact'}), {
+        status: 400,
+        headers: {'Content-Type': 'application/json'}
+      });
+    }
+
+    const prefix = `${ARTIFACT_KEY_PREFIX}${kind}:`;
+    await this.state.storage.put({
+      [prefix + artifact.cacheKey]: artifact,
+      [LATEST_ARTIFACT_KEY_PREFIX + kind]: artifact.cacheKey
+    });
+
+    const versions = await this.state.storage.list<LectureArtifact>({ prefix });
+    if (versions.size > MAX_ARTIFACT_VERSIONS) {
+      const oldest = [...versions.entries()]
+        .sort(([, a], [, b]) => a.createdAt.localeCompare(b.createdAt))
+        .slice(0, versions.size - MAX_ARTIFACT_VERSIONS)
+        .map(([key]) => key);
+      await this.state.storage.delete(oldest);
+    }
+
+    return new Response(JSON.stringify({response: `Cached ${kind}`}), {
+      headers: {'Content-Type': 'application/json'}
+    });
+  }
+
+  /**
+   * Page backwards through a thread's history, from the newest message or the `before` message ID
+   */
+  private async handleGetHistory(url: URL, thread: ChatThread): Promise<Response> {
+    const history = await this.loadHistory(thread);
+
+    const limitParam = Number(url.searchParams.get('limit') || DEFAULT_HISTORY_PAGE_SIZE);
+    const limit = Number.isInteger(limitParam) && limitParam > 0 ? Math.min(limitParam, MAX_HISTORY_PAGE_SIZE) : DEFAULT_HISTORY_PAGE_SIZE;
+
+    let end = history.messages.length;
+    const before = url.searchParams.get('before');
+    if (before){
+      end = history.messages.findIndex(msg => msg.id === before);
+      if (end === -1){
+        return new Response(JSON.stringify({error: 'Message not found', messageId: before}), {
+          status: 404,
+          headers: {'Content-Type': 'application/json'}
+        });
+      }
+    }
+
+    const start = Math.max(0, end - limit);
+    const messages = history.messages.slice(start, end);
+
+    return new Response(JSON.stringify({
+      threadId: thread.id,
+      messages,
+      hasMore: start > 0,
+      nextBefore: start > 0 ? messages[0].id : null,
+      total: history.messages.length
+    }), {
+      headers: {'Content-Type': 'application/json'}
+    });
+  }
+
+  /**
+   * Clear a thread's history and running summary
+   */
+  private async handleClearHistory(thread: ChatThread): Promise<Response> {
+    await this.state.storage.delete([historyKey(thread), summaryKey(thread)]);
+    return new Response(JSON.stringify({response: 'Chat history cleared'}), {
+      headers: {'Content-Type': 'application/json'}
+    });
+  }
+
+  /**
+   * Delete a message; deleting a question also removes the answer that followed it
+   */
+  private async handleDeleteMessage(thread: ChatThread, messageId: string): Promise<Response> {
+    const history = await this.loadHistory(thread);
+
+    const index = history.messages.findIndex(msg => msg.id === messageId);
+    if (index === -1){
+      return new Response(JSON.stringify({error: 'Message not found', messageId}), {
+        status: 404,
+        headers: {'Content-Type': 'application/json'}
+      });
+    }
+
+    const next = history.messages[index + 1];
+    const deleteCount = history.messages[index].role === 'user' && next?.role === 'assistant' ? 2 : 1;
+
+    // The running summary is stale if it covers a deleted message; it is rebuilt on the next turn
+    const summary = await this.state.storage.get<ConversationSummary>(summaryKey(thread));
+    if (summary && history.messages.findIndex(msg => msg.id === summary.lastMessageId) < index + deleteCount) {
+      await this.state.storage.delete(summaryKey(thread));
+    }
+
+    const deleted = history.messages.splice(index, deleteCount);
+    await this.state.storage.put(historyKey(thread), history);
+
+    return new Response(JSON.stringify({
+      response: 'Message deleted',
+      deletedIds: deleted.map(msg => msg.id)
+    }), {
+      headers: {'Content-Type': 'application/json'}
+    });
+  }
+
+  private async routeThreadRequest(request: Request, url: URL, memberId?: string): Promise<Response> {
+    const [, , rawThreadId, ...rest] = url.pathname.split('/');
+    const threadId = rawThreadId ? decodeURIComponent(rawThreadId) : '';
+
+    if (!threadId) {
+      if (request.method === 'GET') {
+        const threads = await this.loadThreads(memberId);
+        threads.sort((a, b) => b.updatedAt - a.updatedAt);
+        return new Response(JSON.stringify({threads}), {
+          headers: {'Content-Type': 'application/json'}
+        });
+      }
+      if (request.method === 'POST') {
+        return this.handleSaveThread(request, undefined, memberId);
+      }
+    } else {
+      const thread = await this.findThread(threadId, memberId);
+      if (!thread) {
+        return new Response(JSON.stringify({error: 'Thread not found', threadId}), {
+          status: 404,
+          headers: {'Content-Type': 'application/json'}
+        });
+      }
+
+      const subPath = rest.length > 0 ? `/${rest.join('/')}` : '';
+      const response = await this.routeThreadAction(request, url, thread, subPath);
+      if (response) {
+        return response;
+      }
+    }
+
+    return new Response(JSON.stringify({error: 'Unsupported thread operation'}), {
+      status: 405,
+      headers: {'Content-Type': 'application/json'}
+    });
+  }
+
+  /**
+   * Dispatch an operation on a resolved thread. `subPath` is '' for the thread itself,
+   * '/history' or '/history/:messageId'. Returns null when nothing matches.
+   */
+  private async routeThreadAction(request: Request, url: URL, thread: ChatThread, subPath: string): Promise<Response | null> {
+    if (subPath === '') {
+      if (request.method === 'POST') return this.handleChat(request, url, thread);
+      if (request.method === 'GET') return new Response(JSON.stringify({thread}), { headers: {'Content-Type': 'application/json'} });
+      if (request.method === 'PATCH') return this.handleSaveThread(request, thread);
+      if (request.method === 'DELETE') return this.handleDeleteThread(thread);
+    }
+    if (subPath === '/history') {
+      if (request.method === 'GET') return this.handleGetHistory(url, thread);
+      if (request.method === 'DELETE') return this.handleClearHistory(thread);
+    }
+    if (subPath.startsWith('/history/') && request.method === 'DELETE') {
+      return this.handleDeleteMessage(thread, decodeURIComponent(subPath.substring('/history/'.length)));
+    }
+    return null;
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const path = url.pathname;
+    const memberId = request.headers.get(MEMBER_HEADER) || undefined;
+
+    // Thread endpoints: /threads, /threads/:threadId, /threads/:threadId/history[/:messageId]
+    if (path === '/threads' || path.startsWith('/threads/')) {
+      return this.routeThreadRequest(request, url, memberId);
+    }
+
+    // Chat and history endpoints without a thread use the default thread
+    if (path === '/chat' && request.method === 'POST') {
+      const thread = (await this.findThread(DEFAULT_THREAD_ID, memberId))!;
+      return this.handleChat(request, url, thread);
+    }
+    if (path === '/history' || path.startsWith('/history/')) {
+      const thread = (await this.findThread(DEFAULT_THREAD_ID, memberId))!;
+      const response = await this.routeThreadAction(request, url, thread, path);
+      if (response) {
+        return response;
+      }
     }
 
     // Lecture endpoint
     if (path === '/lecture' && request.method === 'POST'){
       try {
       // Define the json lecture text body
-      const {lectureText} = (await request.json()) as LectureContentRequest;
+      const {lectureText, sections} = (await request.json()) as LectureContentRequest;
 
       if (!lectureText){
         return new Response('Missing lectureText property in the body', {status: 400});
       }
-      // Define the key for lecture text
-      const LECTURE_KEY = "raw_lecture_text";
-
       // Save the lecture text to the storage
       await this.state.storage.put(LECTURE_KEY, lectureText);
+      if (sections && sections.length > 0){
+        await this.state.storage.put(LECTURE_SECTIONS_KEY, sections);
+      } else {
+        await this.state.storage.delete(LECTURE_SECTIONS_KEY);
+      }
+
+      // Chunk and index the lecture for retrieval at chat time
+      const chunks = await this.storeLectureIndex(lectureText);
 
       return new Response(JSON.stringify({
-        response: 'Received and stored the lecture content successfully'
+        response: 'Received and stored the lecture content successfully',
+        chunkCount: chunks.length
       }), {
         headers: {'Content-Type': 'application/json'}
       });
@@ -148,10 +777,11 @@ export class LectureMemory {
 
     // Get the raw lecture text endpoint
     if (path === '/raw-lecture-text' && request.method === 'GET'){
-      const rawLectureText = await this.state.storage.get("raw_lecture_text");
+      const rawLectureText = await this.state.storage.get(LECTURE_KEY);
 
       if (rawLectureText){
-        return new Response(JSON.stringify({rawText: rawLectureText}), {
+        const sections = await this.state.storage.get<LectureSection[]>(LECTURE_SECTIONS_KEY);
+        return new Response(JSON.stringify({rawText: rawLectureText, sections: sections || []}), {
           headers: {'Content-Type': 'application/json'}
         });
       }
@@ -161,6 +791,149 @@ export class LectureMemory {
       });
     }
 
+    // Artifact cache endpoints: /artifacts/summary, /artifacts/concepts, /artifacts/concepts_json
+    if (path.startsWith('/artifacts/')){
+      const kind = path.substring('/artifacts/'.length);
+      if (!ARTIFACT_KINDS.includes(kind)){
+        return new Response(JSON.stringify({error: `Unknown artifact kind: ${kind}`}), {
+          status: 400,
+          headers: {'Content-Type': 'application/json'}
+        });
+      }
+      if (request.method === 'GET'){
+        return this.handleGetArtifact(url, kind);
+      }
+      if (request.method === 'PUT'){
+        return this.handlePutArtifact(request, kind);
+      }
+    }
+
+    // Tutor settings endpoints: PUT validates the body with the Worker's parser and replaces the settings
+    if (path === '/settings'){
+      if (request.method === 'GET'){
+        return new Response(JSON.stringify(await this.loadSettings()), {
+          headers: {'Content-Type': 'application/json'}
+        });
+      }
+      if (request.method === 'PUT'){
+        const { settings, error } = parseLectureSettings(await request.json().catch(() => null));
+        if (!settings){
+          return new Response(JSON.stringify({error}), {
+            status: 400,
+            headers: {'Content-Type': 'application/json'}
+          });
+        }
+        await this.state.storage.put(SETTINGS_KEY, settings);
+        return new Response(JSON.stringify(settings), {
+          headers: {'Content-Type': 'application/json'}
+        });
+      }
+    }
+
+    // Export endpoint: the latest artifact of each kind and every thread with messages (of the
+    // group member, if given), in one call
+    if (path === '/export' && request.method === 'GET'){
+      const artifacts: Record<string, LectureArtifact | null> = {};
+      for (const kind of ARTIFACT_KINDS){
+        artifacts[kind] = (await this.loadArtifact(kind)) ?? null;
+      }
+
+      const threads = [];
+      for (const thread of await this.loadThreads(memberId)){
+        const {messages} = await this.loadHistory(thread);
+        if (messages.length > 0){
+          threads.push({id: thread.id, title: thread.title, messages});
+        }
+      }
+
+      return new Response(JSON.stringify({artifacts, threads}), {
+        headers: {'Content-Type': 'application/json'}
+      });
+    }
+
+    // Passage endpoint: returns a slice of the lecture text so the UI can highlight a citation
+    if (path === '/passage' && request.method === 'GET'){
+      const lectureText = await this.state.storage.get<string>(LECTURE_KEY);
+      if (!lectureText){
+        return new Response(JSON.stringify({error: 'No lecture text found'}), {
+          status: 404,
+          headers: {'Content-Type': 'application/json'}
+        });
+      }
+
+      const start = Number(url.searchParams.get('start'));
+      const end = Number(url.searchParams.get('end'));
+      if (!url.searchParams.has('start') || !url.searchParams.has('end') || !Number.isInteger(start) || !Number.isInteger(end) || start < 0 || end <= start || end > lectureText.length){
+        return new Response(JSON.stringify({
+          error: 'Invalid passage range',
+          details: `start and end must be integers with 0 <= start < end <= ${lectureText.length}`
+        }), {
+          status: 400,
+          headers: {'Content-Type': 'application/json'}
+        });
+      }
+
+      const sections = (await this.state.storage.get<LectureSection[]>(LECTURE_SECTIONS_KEY)) || [];
+      return new Response(JSON.stringify({
+        start,
+        end,
+        text: lectureText.slice(start, end),
+        lectureLength: lectureText.length,
+        sections: sectionsForRange(sections, start, end)
+      }), {
+        headers: {'Content-Type': 'application/json'}
+      });
+    }
+
+    // Retrieve endpoint: ranks the lecture's passages for a query (used by cross-lecture chat)
+    if (path === '/retrieve' && request.method === 'POST'){
+      const { query, topK, queryEmbedding, link, budgetMs } = (await request.json()) as RetrieveRequest;
+      if (typeof query !== 'string' || !query.trim()){
+        return new Response(JSON.stringify({error: 'query is required'}), {
+          status: 400,
+          headers: {'Content-Type': 'application/json'}
+        });
+      }
+      if (link){
+        await this.addLink(link);
+      }
+
+      const ai = createAiProvider(this.env, typeof budgetMs === 'number' ? Date.now() + budgetMs : undefined);
+      const passages = await this.retrievePassages(query, Number.isInteger(topK) && topK! > 0 ? topK : RETRIEVAL_TOP_K, queryEmbedding, ai);
+      return new Response(JSON.stringify({passages}), {
+        headers: {'Content-Type': 'application/json'}
+      });
+    }
+
+    // Links endpoints: the Worker records the jobs started on the lecture, and destroys a user's
+    // jobs and cross-lecture chats when the lecture leaves their library
+    if (path === '/links' && request.method === 'POST'){
+      await this.addLink((await request.json()) as LinkedObject);
+      return new Response(JSON.stringify({response: 'Link recorded'}), {
+        headers: {'Content-Type': 'application/json'}
+      });
+    }
+    if (path === '/links/destroy' && request.method === 'POST'){
+      const { userId } = (await request.json()) as { userId: string };
+      await this.destroyLinks(userId);
+      return new Response(JSON.stringify({response: 'Linked storage deleted'}), {
+        headers: {'Content-Type': 'application/json'}
+      });
+    }
+
+    // Destroy endpoint: wipes everything stored for the lecture once it is purged, together with
+    // the jobs and cross-lecture chats derived from it
+    if (path === '/destroy' && request.method === 'POST'){
+      await this.destroyLinks();
+      await this.state.storage.deleteAlarm();
+      await this.state.storage.deleteAll();
+      this.chunkCache = null;
+
+      return new Response(JSON.stringify({response: 'Lecture storage deleted'}), {
+        headers: {'Content-Type': 'application/json'}
+      });
+    }
+
     // Fallback
     return new Response("LectureMemory DO is active, but no action matched.", { status: 200 });
   }
@@ -0,0 +1,267 @@
+import { AiProvider, CHAT_AI_BUDGET_MS, createAiProvider, parseModelSelection } from './ai';
+import { Citation, RetrievedPassage, citedPassages, embedTexts, toCitation } from './retrieval';
+import { ConversationSummary, buildConversationContext, contextBudgetFromEnv } from './conversation';
+import { LinkedObject } from './LectureMemory';
+import { LectureSettings, loadLectureSettings, strictestLectureSettings, tutorGuidance } from './tutor';
+
+// TypeScript interfaces for cross-lecture chat
+interface ChatLecture {
+  lectureId: string;
+  lectureName: string;
+}
+
+interface MultiChatRequest {
+  message: string;
+  model?: string; // One of the allowed chat models (see ai.ts); defaults to DEFAULT_AI_MODEL
+  lectures: ChatLecture[]; // Lectures in scope, already checked for ownership by the Worker
+  link?: LinkedObject; // This conversation, recorded by each lecture so purging one drops it
+}
+
+interface LecturePassage extends RetrievedPassage, ChatLecture {}
+
+interface LectureCitation extends Citation, ChatLecture {}
+
+interface ChatMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: number;
+  citations?: LectureCitation[];
+}
+
+interface ChatHistory {
+  messages: ChatMessage[];
+}
+
+const HISTORY_KEY = "chat_history";
+const SUMMARY_KEY = "chat_summary";
+
+// Passages fetched from each lecture, and kept overall after merging by score
+const PASSAGES_PER_LECTURE = 3;
+const MAX_PASSAGES = 8;
+
+const DEFAULT_HISTORY_PAGE_SIZE = 50;
+const MAX_HISTORY_PAGE_SIZE = 200;
+
+/**
+ * Durable Object holding one student's conversation over a set of lectures (a course or
+ * an explicit selection). Passages are retrieved from each lecture's LectureMemory, so
+ * the lecture content itself is never copied here.
+ */
+export class MultiLectureChat {
+  state: DurableObjectState;
+  env: any;
+
+  constructor(state: DurableObjectState, env: any) {
+    this.state = state;
+    this.env = env;
+  }
+
+  /**
+   * Retrieve the best passages for a question from every lecture and merge them by score.
+   * Lectures that fail to answer are skipped rather than failing the whole question.
+   */
+  private async retrievePassages(ai: AiProvider, deadline: number, question: string, lectures: ChatLecture[], link?: LinkedObject): Promise<LecturePassage[]> {
+    // Embed the question once instead of once per lecture
+    let queryEmbedding: number[] | undefined;
+    try {
+      [queryEmbedding] = await embedTexts(ai, [question]);
+    } catch (error) {
+      console.warn('Embedding the question failed, using lexical retrieval only:', error);
+    }
+
+    const perLecture = await Promise.all(lectures.map(async (lecture) => {
+      try {
+        const stub = this.env.LECTURE_MEMORY.get(this.env.LECTURE_MEMORY.idFromName(lecture.lectureId));
+        const response = await stub.fetch('https://do-placeholder/retrieve', {
+          method: 'POST',
+          headers: {'Content-Type': 'application/json'},
+          body: JSON.stringify({query: question, topK: PASSAGES_PER_LECTURE, queryEmbedding, link, budgetMs: deadline - Date.now()})
+        });
+        if (!response.ok) {
+          throw new Error(await response.text());
+        }
+        const { passages } = (await response.json()) as { passages: RetrievedPassage[] };
+        return passages.map((passage): LecturePassage => ({ ...passage, ...lecture }));
+      } catch (error) {
+        console.warn(`Retrieving passages from lecture ${lecture.lectureId} failed:`, error);
+        return [];
+      }
+    }));
+
+    // Passages that match nothing are only used when no lecture matched at all
+    const passages = perLecture.flat();
+    const matches = passages.filter(passage => passage.score > 0);
+    return (matches.length > 0 ? matches : passages)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_PASSAGES);
+  }
+
+  /**
+   * The combined tutor settings of the lectures in scope. Unlike retrieval, a lecture whose
+   * settings cannot be loaded fails the message, so its rules are never silently dropped.
+   */
+  private async loadSettings(lectures: ChatLecture[]): Promise<LectureSettings> {
+    return strictestLectureSettings(await Promise.all(lectures.map(async (lecture) => ({
+      lectureName: lecture.lectureName,
+      settings: await loadLectureSettings(this.env.LECTURE_MEMORY.get(this.env.LECTURE_MEMORY.idFromName(lecture.lectureId))),
+    }))));
+  }
+
+  private async loadHistory(): Promise<ChatHistory> {
+    return (await this.state.storage.get<ChatHistory>(HISTORY_KEY)) || {messages: []};
+  }
+
+  /**
+   * Answer a message grounded in passages from the lectures in scope
+   */
+  private async handleChat(request: Request): Promise<Response> {
+    try {
+      const { message, model: requestedModel, lectures, link } = (await request.json()) as MultiChatRequest;
+      const { model, error: modelError } = parseModelSelection(requestedModel, this.env);
+      if (!model) {
+        return new Response(JSON.stringify({error: modelError}), {
+          status: 400,
+          headers: {'Content-Type': 'application/json'}
+        });
+      }
+      // Every AI call of this answer, in the lectures' retrieval too, has to finish before the Worker gives up
+      const deadline = Date.now() + CHAT_AI_BUDGET_MS;
+      const ai = createAiProvider(this.env, deadline);
+      const settings = await this.loadSettings(lectures);
+
+      // 1. Append the user message to the history
+      const history = await this.loadHistory();
+      const userMessage: ChatMessage = {
+        id: crypto.randomUUID(),
+        role: 'user',
+        content: message,
+        timestamp: Date.now()
+      };
+      history.messages.push(userMessage);
+      await this.state.storage.put(HISTORY_KEY, history);
+
+      // 2. Retrieve the relevant passages across all lectures
+      const passages = await this.retrievePassages(ai, deadline, message, lectures, link);
+
+      // 3. Build the system prompt, labelling every passage with its lecture
+      const lectureList = lectures.map(lecture => `- ${lecture.lectureName}`).join('\n');
+      let systemPrompt = `You are LectureLens, an AI-powered study assistant. Answer the student's question using the content of these lectures:\n${lectureList}\n\nWhen the question relates ideas from different lectures, say which lecture each idea comes from. If the question is not related to the lecture content, say that you don't know.`;
+
+      if (passages.length > 0) {
+        const excerpts = passages.map((passage, i) => `[Passage ${i + 1}] (from "${passage.lectureName}")\n${passage.text}`).join('\n\n');
+        systemPrompt += `\n\nHere are the most relevant excerpts from the lectures. When you use an excerpt, cite it inline as [Passage n].\n\n${excerpts}`;
+      }
+
+      // The instructors' tutor settings apply to the whole conversation, the strictest of them winning
+      const guidance = tutorGuidance(settings, 'chat', 'these lectures');
+      if (guidance) {
+        systemPrompt += `\n\n${guidance}`;
+      }
+
+      // 4. Keep the history within the token budget: recent turns verbatim, older ones summarized
+      const storedSummary = (await this.state.storage.get<ConversationSummary>(SUMMARY_KEY)) || null;
+      const context = await buildConversationContext(ai, model, history.messages, storedSummary, contextBudgetFromEnv(this.env));
+      if (context.summaryUpdated && context.summary) {
+        await this.state.storage.put(SUMMARY_KEY, context.summary);
+      }
+      if (context.summary) {
+        systemPrompt += `\n\nSummary of the earlier conversation with this student:\n${context.summary.content}`;
+      }
+
+      const messages = [
+        {role: 'system', content: systemPrompt},
+        ...context.recentMessages.map(msg => ({role: msg.role, content: msg.content}))
+      ];
+
+      // 5. Call the AI provider and cite the passages the answer used
+      const aiResponse = await ai.run(model, {messages, max_tokens: 4096});
+      const assistantResponse: string = aiResponse.response;
+      const citations = citedPassages(passages, assistantResponse).map((passage): LectureCitation => ({
+        lectureId: passage.lectureId,
+        lectureName: passage.lectureName,
+        ...toCitation(passage)
+      }));
+
+      // 6. Append the answer to the history and save it
+      const assistantMessage: ChatMessage = {
+        id: crypto.randomUUID(),
+        role: 'assistant',
+        content: assistantResponse,
+        timestamp: Date.now(),
+        citations
+      };
+      history.messages.push(assistantMessage);
+      await this.state.storage.put(HISTORY_KEY, history);
+
+      return new Response(JSON.stringify({
+        response: assistantResponse,
+        messageId: assistantMessage.id,
+        userMessageId: userMessage.id,
+        citations,
+        lectureCount: lectures.length
+      }), {
+        headers: {'Content-Type': 'application/json'}
+      });
+    } catch (error) {
+      console.error('Error processing cross-lecture chat request:', error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return new Response(JSON.stringify({
+        error: 'Failed to process chat request',
+        details: errorMessage
+      }), {
+        status: 500,
+        headers: {'Content-Type': 'application/json'}
+      });
+    }
+  }
+
+  /**
+   * Return the newest messages of the conversation (`?limit=`)
+   */
+  private async handleGetHistory(url: URL): Promise<Response> {
+    const history = await this.loadHistory();
+
+    const limitParam = Number(url.searchParams.get('limit') || DEFAULT_HISTORY_PAGE_SIZE);
+    const limit = Number.isInteger(limitParam) && limitParam > 0 ? Math.min(limitParam, MAX_HISTORY_PAGE_SIZE) : DEFAULT_HISTORY_PAGE_SIZE;
+    const start = Math.max(0, history.messages.length - limit);
+
+    return new Response(JSON.stringify({
+      messages: history.messages.slice(start),
+      hasMore: start > 0,
+      total: history.messages.length
+    }), {
+      headers: {'Content-Type': 'application/json'}
+    });
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const path = url.pathname;
+
+    if (path === '/chat' && request.method === 'POST') {
+      return this.handleChat(request);
+    }
+
+    if (path === '/history' && request.method === 'GET') {
+      return this.handleGetHistory(url);
+    }
+
+    if (path === '/history' && request.method === 'DELETE') {
+      await this.state.storage.delete([HISTORY_KEY, SUMMARY_KEY]);
+      return new Response(JSON.stringify({response: 'Chat history cleared'}), {
+        headers: {'Content-Type': 'application/json'}
+      });
+    }
+
+    // A lecture in scope was purged, so the conversation quoting it goes too
+    if (path === '/destroy' && request.method === 'POST') {
+      await this.state.storage.deleteAll();
+      return new Response(JSON.stringify({response: 'Chat storage deleted'}), {
+        headers: {'Content-Type': 'application/json'}
+      });
+    }
+
+    return new Response('Not Found.', { status: 404 });
+  }
+}
@@ -36,6 +36,22 @@ const RATE_LIMIT_CONFIG: { [key: string]: RateLimitConfig } = {
     maxRequests: 5,
     windowSeconds: 3600, // 5 per hour
   },
+  flashcards: {
+    maxRequests: 5,
+    windowSeconds: 3600, // 5 per hour
+  },
+  quiz: {
+    maxRequests: 5,
+    windowSeconds: 3600, // 5 quizzes generated per hour
+  },
+  grade: {
+    maxRequests: 30,
+    windowSeconds: 3600, // 30 quiz submissions with short answers per hour
+  },
+  export: {
+    maxRequests: 5,
+    windowSeconds: 3600, // 5 whole-account exports per hour
+  },
   upload: {
     maxRequests: 10,
     windowSeconds: 3600, // 10 per hour
@@ -50,6 +66,9 @@ const RATE_LIMIT_CONFIG: { [key: string]: RateLimitConfig } = {
   },
 };
 
+// Largest number of users that can share one pooled quota (a study group's members)
+const MAX_POOL_SIZE = 500;
+
 export class RateLimiter {
   state: DurableObjectState;
   env: any;
@@ -65,13 +84,15 @@ export class RateLimiter {
     const url = new URL(request.url);
     const path = url.pathname;
     const endpoint = url.searchParams.get('endpoint');
+    // A pooled quota (identifier group:<id>) allows each endpoint's limit once per member
+    const poolSize = Math.min(Math.max(Math.floor(Number(url.searchParams.get('poolSize'))) || 1, 1), MAX_POOL_SIZE);
 
     try {
       // Route to appropriate handler
       if (path === '/check' && endpoint) {
-        return await this.handleCheck(endpoint);
+        return await this.handleCheck(endpoint, poolSize);
       } else if (path === '/check-and-increment' && endpoint) {
-        return await this.handleCheckAndIncrement(endpoint);
+        return await this.handleCheckAndIncrement(endpoint, poolSize);
       } else if (path === '/reset' && endpoint) {
         return await this.handleReset(endpoint);
       } else if (path === '/reset-all') {
@@ -97,8 +118,8 @@ export class RateLimiter {
   /**
    * Check if a request is allowed without incrementing the counter
    */
-  private async handleCheck(endpoint: string): Promise<Response> {
-    const status = await this.checkLimit(endpoint);
+  private async handleCheck(endpoint: string, poolSize: number): Promise<Response> {
+    const status = await this.checkLimit(endpoint, poolSize);
     return new Response(JSON.stringify(status), {
       status: 200,
       headers: { 'Content-Type': 'application/json' },
@@ -108,14 +129,14 @@ export class RateLimiter {
   /**
    * Check limit and increment counter in one operation (more efficient)
    */
-  private async handleCheckAndIncrement(endpoint: string): Promise<Response> {
-    const status = await this.checkLimit(endpoint);
+  private async handleCheckAndIncrement(endpoint: string, poolSize: number): Promise<Response> {
+    const status = await this.checkLimit(endpoint, poolSize);
 
     if (status.allowed) {
       // Increment the counter
       await this.incrementCounter(endpoint);
       // Get updated status
-      const updatedStatus = await this.checkLimit(endpoint);
+      const updatedStatus = await this.checkLimit(endpoint, poolSize);
       return new Response(JSON.stringify(updatedStatus), {
         status: 200,
         headers: { 'Content-Type': 'application/json' },
@@ -157,7 +178,7 @@ export class RateLimiter {
   /**
    * Core rate limiting logic - checks if request is allowed
    */
-  private async checkLimit(endpoint: string): Promise<RateLimitStatus> {
+  private async checkLimit(endpoint: string, poolSize = 1): Promise<RateLimitStatus> {
     // Get configuration for this endpoint
     const config = RATE_LIMIT_CONFIG[endpoint];
     if (!config) {
@@ -172,7 +193,8 @@ export class RateLimiter {
       };
     }
 
-    const { maxRequests, windowSeconds } = config;
+    const maxRequests = config.maxRequests * poolSize;
+    const { windowSeconds } = config;
     const windowDuration = windowSeconds * 1000; // Convert to milliseconds
     const now = Date.now();
 
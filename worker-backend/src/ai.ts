@@ -0,0 +1,304 @@
+// AI providers behind one interface shaped like the Workers AI binding (`run(model, inputs)`), so
+// the prompt helpers work with any of them: Workers AI or an OpenAI-compatible HTTP API (tests
+// use the deterministic fake in test/fake-ai.ts). createAiProvider routes each model to its
+// provider, with a timeout, a retry and a fallback to a smaller model when the requested one fails.
+
+export interface AiMessage {
+  role: string;
+  content: string;
+}
+
+export interface TextGenerationInputs {
+  messages: AiMessage[];
+  max_tokens?: number;
+  stream?: boolean;
+}
+
+export interface EmbeddingInputs {
+  text: string[];
+}
+
+export type AiInputs = TextGenerationInputs | EmbeddingInputs;
+
+export interface TextGenerationOutput {
+  response: string;
+}
+
+export interface EmbeddingOutput {
+  data: number[][];
+}
+
+// As with the Workers AI binding, streamed text is an SSE stream of `data: {"response": token}` events
+export type AiOutput = TextGenerationOutput | EmbeddingOutput | ReadableStream<Uint8Array>;
+
+/**
+ * One backend that runs models (the Workers AI binding, an OpenAI-compatible API)
+ */
+export interface AiBackend {
+  run(model: string, inputs: AiInputs): Promise<AiOutput>;
+}
+
+/**
+ * Runs a model, typed by what is asked for: text comes back as `{ response }`, embeddings as
+ * `{ data }` and text requested with `stream: true` as a stream of events
+ */
+export interface AiProvider {
+  run(model: string, inputs: EmbeddingInputs): Promise<EmbeddingOutput>;
+  run(model: string, inputs: TextGenerationInputs & { stream: true }): Promise<ReadableStream<Uint8Array>>;
+  run(model: string, inputs: TextGenerationInputs): Promise<TextGenerationOutput>;
+}
+
+/**
+ * The AI binding and the optional vars and secrets that configure the providers
+ */
+export interface AiEnv {
+  AI: Ai;
+  OPENAI_API_KEY?: string; // Enables the OpenAI-compatible models
+  OPENAI_BASE_URL?: string;
+  AI_TIMEOUT_MS?: string;
+}
+
+export type AiProviderName = 'workers-ai' | 'openai';
+
+export interface AiModel {
+  provider: AiProviderName;
+  label: string;
+  fallback?: string; // Smaller model that answers when this one errors or times out
+}
+
+export const DEFAULT_AI_MODEL = '@cf/meta/llama-3.3-70b-instruct-fp8-fast';
+const SMALL_AI_MODEL = '@cf/meta/llama-3.1-8b-instruct-fast';
+
+// The chat models requests may select with a "model" field
+export const AI_MODELS: Record<string, AiModel> = {
+  [DEFAULT_AI_MODEL]: { provider: 'workers-ai', label: 'Llama 3.3 70B', fallback: SMALL_AI_MODEL },
+  [SMALL_AI_MODEL]: { provider: 'workers-ai', label: 'Llama 3.1 8B' },
+  '@cf/mistralai/mistral-small-3.1-24b-instruct': { provider: 'workers-ai', label: 'Mistral Small 3.1 24B', fallback: SMALL_AI_MODEL },
+  'gpt-4o-mini': { provider: 'openai', label: 'GPT-4o mini', fallback: SMALL_AI_MODEL },
+};
+
+export const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1';
+export const DEFAULT_AI_TIMEOUT_MS = 60000;
+
+// Longest the Worker waits for a chat answer (for streamed answers, for the stream to start).
+// Chat requests give all their AI calls, retries and fallbacks included, a deadline this much
+// earlier, so a slow model fails inside the Durable Object instead of outliving the request.
+export const CHAT_TIMEOUT_MS = 30000;
+export const CHAT_AI_BUDGET_MS = CHAT_TIMEOUT_MS - 2000;
+
+// A failed call is retried once (after a short pause) before the fallback model is tried
+const MAX_AI_ATTEMPTS = 2;
+const AI_RETRY_DELAY_MS = 250;
+
+/**
+ * Thrown when a model does not answer within the timeout
+ */
+export class AiTimeoutError extends Error {
+  constructor(model: string, timeoutMs: number) {
+    super(`AI model ${model} did not respond within ${timeoutMs} ms`);
+    this.name = 'AiTimeoutError';
+  }
+}
+
+/**
+ * The selectable models whose provider is configured (OpenAI-compatible models need OPENAI_API_KEY)
+ */
+export function availableModels(env: Pick<AiEnv, 'OPENAI_API_KEY'>): string[] {
+  return Object.keys(AI_MODELS).filter((model) => AI_MODELS[model].provider !== 'openai' || !!env.OPENAI_API_KEY);
+}
+
+/**
+ * Validate a request's "model" field; omitted means the default model
+ */
+export function parseModelSelection(value: unknown, env: Pick<AiEnv, 'OPENAI_API_KEY'>): { model: string; error?: undefined } | { model?: undefined; error: string } {
+  if (value === undefined || value === null) {
+    return { model: DEFAULT_AI_MODEL };
+  }
+  const models = availableModels(env);
+  if (typeof value !== 'string' || !models.includes(value)) {
+    return { error: `model must be one of: ${models.join(', ')}` };
+  }
+  return { model: value };
+}
+
+/**
+ * Per-call timeout from the optional AI_TIMEOUT_MS var
+ */
+export function aiTimeoutFromEnv(env: Pick<AiEnv, 'AI_TIMEOUT_MS'>): number {
+  const parsed = Number(env.AI_TIMEOUT_MS);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : DEFAULT_AI_TIMEOUT_MS;
+}
+
+/**
+ * The Workers AI binding itself
+ */
+export class WorkersAiProvider implements AiBackend {
+  binding: Ai;
+
+  constructor(binding: Ai) {
+    this.binding = binding;
+  }
+
+  run(model: string, inputs: AiInputs): Promise<AiOutput> {
+    // The binding is typed per model name, but models are chosen at runtime from AI_MODELS
+    return this.binding.run(model as keyof AiModels, inputs as never) as Promise<AiOutput>;
+  }
+}
+
+/**
+ * Any API compatible with OpenAI's chat completions (OpenAI, Azure, vLLM, Ollama, ...). Text
+ * generation only; streams are re-encoded as Workers AI events so the chat relay can read them.
+ */
+export class OpenAiCompatibleProvider implements AiBackend {
+  baseUrl: string;
+  apiKey: string;
+
+  constructor(baseUrl: string, apiKey: string) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.apiKey = apiKey;
+  }
+
+  async run(model: string, inputs: AiInputs): Promise<AiOutput> {
+    if (!('messages' in inputs)) {
+      throw new Error('The OpenAI-compatible provider only supports text generation');
+    }
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${this.apiKey}` },
+      body: JSON.stringify({ model, messages: inputs.messages, max_tokens: inputs.max_tokens, stream: !!inputs.stream }),
+    });
+    if (!response.ok || !response.body) {
+      throw new Error(`AI provider returned ${response.status}: ${(await response.text()).slice(0, 200)}`);
+    }
+
+    if (inputs.stream) {
+      return response.body.pipeThrough(toWorkersAiStream());
+    }
+    const completion = (await response.json()) as { choices?: { message?: { content?: string } }[] };
+    return { response: completion.choices?.[0]?.message?.content ?? '' };
+  }
+}
+
+// Re-encode OpenAI `choices[0].delta.content` stream events as Workers AI `response` events
+function toWorkersAiStream(): TransformStream<Uint8Array, Uint8Array> {
+  const decoder = new TextDecoder();
+  const encoder = new TextEncoder();
+  let buffer = '';
+
+  const convert = (line: string, controller: TransformStreamDefaultController<Uint8Array>) => {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith('data:')) {
+      return;
+    }
+    const payload = trimmed.slice('data:'.length).trim();
+    if (payload === '[DONE]') {
+      controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+      return;
+    }
+    try {
+      const event = JSON.parse(payload) as { choices?: { delta?: { content?: string } }[] };
+      const token = event.choices?.[0]?.delta?.content;
+      if (token) {
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify({ response: token })}\n\n`));
+      }
+    } catch {
+      console.warn('Skipping malformed AI stream event:', payload);
+    }
+  };
+
+  return new TransformStream({
+    transform(chunk, controller) {
+      buffer += decoder.decode(chunk, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      lines.forEach((line) => convert(line, controller));
+    },
+    flush(controller) {
+      convert(buffer, controller);
+    },
+  });
+}
+
+/**
+ * Routes each model to its provider, retrying a failed call once and then falling back to the
+ * model's smaller fallback. Timeouts are not retried: they go straight to the fallback. With a
+ * deadline, every attempt is cut short by it and none is started after it.
+ */
+export class ResilientAiProvider implements AiProvider {
+  providers: Partial<Record<AiProviderName, AiBackend>>;
+  timeoutMs: number;
+  deadline: number; // Epoch ms after which no call is started or awaited any longer
+
+  constructor(providers: Partial<Record<AiProviderName, AiBackend>>, timeoutMs = DEFAULT_AI_TIMEOUT_MS, deadline = Infinity) {
+    this.providers = providers;
+    this.timeoutMs = timeoutMs;
+    this.deadline = deadline;
+  }
+
+  run(model: string, inputs: EmbeddingInputs): Promise<EmbeddingOutput>;
+  run(model: string, inputs: TextGenerationInputs & { stream: true }): Promise<ReadableStream<Uint8Array>>;
+  run(model: string, inputs: TextGenerationInputs): Promise<TextGenerationOutput>;
+  async run(model: string, inputs: AiInputs): Promise<AiOutput> {
+    try {
+      return await this.runWithRetry(model, inputs);
+    } catch (error) {
+      const fallback = AI_MODELS[model]?.fallback;
+      if (!fallback) {
+        throw error;
+      }
+      console.warn(`AI model ${model} failed, falling back to ${fallback}:`, error instanceof Error ? error.message : error);
+      return this.runWithRetry(fallback, inputs);
+    }
+  }
+
+  private async runWithRetry(model: string, inputs: AiInputs): Promise<AiOutput> {
+    const providerName = AI_MODELS[model]?.provider ?? 'workers-ai';
+    const provider = this.providers[providerName];
+    if (!provider) {
+      throw new Error(`AI model ${model} is not available: the ${providerName} provider is not configured`);
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      const timeoutMs = Math.min(this.timeoutMs, this.deadline - Date.now());
+      if (timeoutMs <= 0) {
+        throw new AiTimeoutError(model, 0);
+      }
+      try {
+        return await this.withTimeout(model, provider.run(model, inputs), timeoutMs);
+      } catch (error) {
+        if (attempt >= MAX_AI_ATTEMPTS || error instanceof AiTimeoutError) {
+          throw error;
+        }
+        console.warn(`AI model ${model} failed (attempt ${attempt} of ${MAX_AI_ATTEMPTS}):`, error instanceof Error ? error.message : error);
+        await new Promise((resolve) => setTimeout(resolve, AI_RETRY_DELAY_MS * attempt));
+      }
+    }
+  }
+
+  private async withTimeout<T>(model: string, call: Promise<T>, timeoutMs: number): Promise<T> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new AiTimeoutError(model, timeoutMs)), timeoutMs);
+    });
+    try {
+      return await Promise.race([call, timeout]);
+    } finally {
+      if (timer !== undefined) {
+        clearTimeout(timer);
+      }
+    }
+  }
+}
+
+/**
+ * The provider for a Worker or Durable Object env: Workers AI through the AI binding, plus an
+ * OpenAI-compatible API when OPENAI_API_KEY (and optionally OPENAI_BASE_URL) is set. Calls
+ * made for a request with a time limit stop at its `deadline` (epoch ms).
+ */
+export function createAiProvider(env: AiEnv, deadline?: number): AiProvider {
+  return new ResilientAiProvider({
+    'workers-ai': new WorkersAiProvider(env.AI),
+    ...(env.OPENAI_API_KEY ? { openai: new OpenAiCompatibleProvider(env.OPENAI_BASE_URL || DEFAULT_OPENAI_BASE_URL, env.OPENAI_API_KEY) } : {}),
+  }, aiTimeoutFromEnv(env), deadline);
+}
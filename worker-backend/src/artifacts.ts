@@ -0,0 +1,63 @@
+// Cached study artifacts (summaries, concept extractions) stored in a lecture's LectureMemory.
+// Each artifact is keyed by a hash of its inputs so a changed lecture, prompt or model
+// never serves a stale result.
+import { SummaryOptions } from './prompts';
+
+// `concepts_json` holds the structured concepts (StructuredConcepts) serialized as JSON
+export type ArtifactKind = 'summary' | 'concepts' | 'concepts_json';
+
+export interface LectureArtifact {
+  kind: ArtifactKind;
+  cacheKey: string;
+  content: string;
+  model: string;
+  promptVersion: number;
+  options?: SummaryOptions; // Summaries: the style, length, language and focus requested
+  createdAt: string;
+}
+
+/**
+ * Hash the inputs that determine an artifact's content. `variant` distinguishes outputs
+ * requested with different options from the same text (e.g. summary styles).
+ */
+export async function computeArtifactKey(text: string, promptVersion: number, model: string, variant = ''): Promise<string> {
+  const data = new TextEncoder().encode(variant ? `${promptVersion}\n${model}\n${variant}\n${text}` : `${promptVersion}\n${model}\n${text}`);
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Fetch a cached artifact from the lecture's Durable Object: the one matching `cacheKey`,
+ * or the most recently generated one when no key is given
+ */
+export async function getLectureArtifact(stub: DurableObjectStub, kind: ArtifactKind, cacheKey?: string): Promise<LectureArtifact | null> {
+  const query = cacheKey ? `?key=${encodeURIComponent(cacheKey)}` : '';
+  const response = await stub.fetch(`https://do-placeholder/artifacts/${kind}${query}`);
+
+  if (response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(`Failed to read cached ${kind}: ${await response.text()}`);
+  }
+
+  const { artifact } = (await response.json()) as { artifact: LectureArtifact };
+  return artifact;
+}
+
+/**
+ * Store a generated artifact in the lecture's Durable Object
+ */
+export async function putLectureArtifact(stub: DurableObjectStub, artifact: LectureArtifact): Promise<void> {
+  const response = await stub.fetch(`https://do-placeholder/artifacts/${artifact.kind}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(artifact),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to cache ${artifact.kind}: ${await response.text()}`);
+  }
+}
@@ -0,0 +1,150 @@
+// Structured (JSON) concept extraction: the model's output is validated and repaired into a
+// typed schema, and results from the sections of long lectures are merged without duplicates.
+import { MAX_CHARS_PER_CHUNK, PromptFormatError, StudyPrompt, parseJsonObject, runStructuredPrompt, withGuidance } from './prompts';
+import { chunkText } from './retrieval';
+import { AiProvider } from './ai';
+
+export interface ConceptDefinition {
+  term: string;
+  definition: string;
+  sourceOffset: number | null; // Character offset of the term in the lecture text, if found
+}
+
+export interface ConceptFormula {
+  latex: string;
+  description: string;
+}
+
+export interface CoreConcept {
+  name: string;
+  description: string;
+}
+
+export interface StructuredConcepts {
+  definitions: ConceptDefinition[];
+  formulas: ConceptFormula[];
+  concepts: CoreConcept[];
+}
+
+// Bump when the prompt or schema changes so cached results are regenerated
+export const CONCEPTS_JSON_PROMPT_VERSION = 1;
+
+const SCHEMA_EXAMPLE = '{"definitions": [{"term": "...", "definition": "..."}], "formulas": [{"latex": "...", "description": "..."}], "concepts": [{"name": "...", "description": "..."}]}';
+
+/**
+ * Prompt for the lecture (or one section, part `index + 1` of `total`) as a JSON object
+ */
+export function buildConceptsJsonPrompt(text: string, index = 0, total = 1): StudyPrompt {
+  const scope = total > 1 ? `the following section (part ${index + 1} of ${total}) of a lecture` : 'the following lecture text';
+  return {
+    system: `You are a specialized academic assistant. Analyze ${scope} and extract all key definitions, mathematical formulas (written in LaTeX, without surrounding $ signs) and core theoretical concepts. Use terms exactly as they appear in the text. Reply with ONLY a JSON object, no other text, in this form: ${SCHEMA_EXAMPLE}`,
+    user: `Lecture Text:\n\n${text}`,
+    maxTokens: 4096,
+  };
+}
+
+function text(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+// Read a list the model may have named differently or returned as a single object
+function list(input: Record<string, unknown>, ...keys: string[]): Record<string, unknown>[] {
+  for (const key of keys) {
+    const value = input[key];
+    if (Array.isArray(value)) {
+      return value.filter((item): item is Record<string, unknown> => !!item && typeof item === 'object');
+    }
+    if (value && typeof value === 'object') {
+      return [value as Record<string, unknown>];
+    }
+  }
+  return [];
+}
+
+/**
+ * Coerce a parsed reply into the schema: missing lists become empty, common alternative
+ * field names are accepted and incomplete items are dropped. A reply with nothing usable
+ * is a format error so the prompt is retried. Source offsets are filled in by the caller.
+ */
+export function repairStructuredConcepts(input: Record<string, unknown>): StructuredConcepts {
+  const definitions = list(input, 'definitions', 'glossary', 'terms')
+    .map((item): ConceptDefinition => ({ term: text(item.term ?? item.name), definition: text(item.definition ?? item.description ?? item.meaning), sourceOffset: null }))
+    .filter((item) => item.term && item.definition);
+  const formulas = list(input, 'formulas', 'equations')
+    .map((item) => ({ latex: text(item.latex ?? item.formula ?? item.equation).replace(/^\$+|\$+$/g, '').trim(), description: text(item.description ?? item.meaning) }))
+    .filter((item) => item.latex);
+  const concepts = list(input, 'concepts', 'core_concepts', 'coreConcepts')
+    .map((item) => ({ name: text(item.name ?? item.concept ?? item.term), description: text(item.description ?? item.explanation) }))
+    .filter((item) => item.name);
+
+  if (definitions.length + formulas.length + concepts.length === 0) {
+    throw new PromptFormatError('Response contains no definitions, formulas or concepts');
+  }
+  return { definitions, formulas, concepts };
+}
+
+/**
+ * Offset of the first whole-word, case-insensitive occurrence of a term, or -1
+ */
+function findTerm(haystack: string, term: string): number {
+  const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+');
+  return haystack.search(new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, 'iu'));
+}
+
+function normalizeKey(value: string): string {
+  return value.toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Merge the results of each section, deduplicating terms, formulas and concepts
+ * (ignoring case and spacing). The longest definition or description of a duplicate wins;
+ * a definition keeps the offset of its earliest occurrence.
+ */
+export function mergeStructuredConcepts(parts: StructuredConcepts[]): StructuredConcepts {
+  const merge = <T>(items: T[], key: (item: T) => string, better: (a: T, b: T) => T): T[] => {
+    const merged = new Map<string, T>();
+    for (const item of items) {
+      const k = normalizeKey(key(item));
+      const existing = merged.get(k);
+      merged.set(k, existing ? better(existing, item) : item);
+    }
+    return [...merged.values()];
+  };
+
+  return {
+    definitions: merge(parts.flatMap((part) => part.definitions), (d) => d.term, (a, b) => ({
+      ...(b.definition.length > a.definition.length ? b : a),
+      sourceOffset: a.sourceOffset === null ? b.sourceOffset : b.sourceOffset === null ? a.sourceOffset : Math.min(a.sourceOffset, b.sourceOffset),
+    })),
+    formulas: merge(parts.flatMap((part) => part.formulas), (f) => f.latex.replace(/\s+/g, ''), (a, b) => (b.description.length > a.description.length ? b : a)),
+    concepts: merge(parts.flatMap((part) => part.concepts), (c) => c.name, (a, b) => (b.description.length > a.description.length ? b : a)),
+  };
+}
+
+/**
+ * Extract structured concepts: one prompt for short lectures, otherwise one per section
+ * followed by a deterministic merge. Each definition is linked back to where its term
+ * appears in the section it came from (or anywhere in the lecture).
+ */
+export async function extractStructuredConcepts(ai: AiProvider, model: string, lectureText: string, guidance = ''): Promise<StructuredConcepts> {
+  const sections = lectureText.length <= MAX_CHARS_PER_CHUNK
+    ? [{ start: 0, text: lectureText }]
+    : chunkText(lectureText, MAX_CHARS_PER_CHUNK);
+
+  const parts: StructuredConcepts[] = [];
+  for (let i = 0; i < sections.length; i++) {
+    const section = sections[i];
+    const extracted = await runStructuredPrompt(ai, model, withGuidance(buildConceptsJsonPrompt(section.text, i, sections.length), guidance), (output) => repairStructuredConcepts(parseJsonObject(output)));
+
+    parts.push({
+      ...extracted,
+      definitions: extracted.definitions.map((definition) => {
+        const inSection = findTerm(section.text, definition.term);
+        const anywhere = inSection === -1 ? findTerm(lectureText, definition.term) : -1;
+        return { ...definition, sourceOffset: inSection !== -1 ? section.start + inSection : anywhere !== -1 ? anywhere : null };
+      }),
+    });
+  }
+
+  return parts.length > 1 ? mergeStructuredConcepts(parts) : parts[0];
+}
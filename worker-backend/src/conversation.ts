@@ -0,0 +1,144 @@
+// Keeps the chat prompt within a token budget: recent turns are sent verbatim and
+// older turns are folded into a running summary that is regenerated when needed.
+import { AiProvider } from './ai';
+
+export interface ConversationMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface ConversationSummary {
+  content: string;
+  lastMessageId: string; // Newest message folded into the summary
+  updatedAt: number;
+}
+
+export interface ContextBudgetConfig {
+  maxHistoryTokens: number; // Budget for the summary plus verbatim turns (excludes the system prompt)
+  minRecentMessages: number; // Always kept verbatim, even if they exceed the budget
+  summaryMaxTokens: number; // Length limit for a regenerated summary
+}
+
+export interface ConversationContext {
+  summary: ConversationSummary | null;
+  recentMessages: ConversationMessage[];
+  summaryUpdated: boolean;
+}
+
+export const DEFAULT_CONTEXT_BUDGET: ContextBudgetConfig = {
+  maxHistoryTokens: 6000,
+  minRecentMessages: 4,
+  summaryMaxTokens: 512,
+};
+
+/**
+ * Read budget overrides from optional Worker vars, falling back to the defaults
+ */
+export function contextBudgetFromEnv(env: any): ContextBudgetConfig {
+  const read = (value: unknown, fallback: number) => {
+    const parsed = Number(value);
+    return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+  };
+
+  return {
+    maxHistoryTokens: read(env?.CHAT_HISTORY_TOKEN_BUDGET, DEFAULT_CONTEXT_BUDGET.maxHistoryTokens),
+    minRecentMessages: read(env?.CHAT_MIN_RECENT_MESSAGES, DEFAULT_CONTEXT_BUDGET.minRecentMessages),
+    summaryMaxTokens: read(env?.CHAT_SUMMARY_MAX_TOKENS, DEFAULT_CONTEXT_BUDGET.summaryMaxTokens),
+  };
+}
+
+/**
+ * Rough token estimate (~4 characters per token for English text)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Select the messages to send verbatim and, when the budget is exceeded, fold the
+ * older ones into the running summary using the AI binding.
+ */
+export async function buildConversationContext(
+  ai: AiProvider,
+  model: string,
+  messages: ConversationMessage[],
+  summary: ConversationSummary | null,
+  config: ContextBudgetConfig = DEFAULT_CONTEXT_BUDGET
+): Promise<ConversationContext> {
+  // Messages newer than the summary; a summary whose anchor was deleted is discarded
+  let pending = messages;
+  if (summary) {
+    const anchorId = summary.lastMessageId;
+    const anchor = messages.findIndex((msg) => msg.id === anchorId);
+    if (anchor === -1) {
+      summary = null;
+    } else {
+      pending = messages.slice(anchor + 1);
+    }
+  }
+
+  const summaryTokens = summary ? estimateTokens(summary.content) : 0;
+  const pendingTokens = pending.reduce((sum, msg) => sum + estimateTokens(msg.content), 0);
+  if (summaryTokens + pendingTokens <= config.maxHistoryTokens) {
+    return { summary, recentMessages: pending, summaryUpdated: false };
+  }
+
+  // Keep the newest turns within half the budget so the summary is not regenerated every turn
+  let keepFrom = pending.length;
+  let keptTokens = 0;
+  while (keepFrom > 0) {
+    const tokens = estimateTokens(pending[keepFrom - 1].content);
+    const keptCount = pending.length - keepFrom;
+    if (keptCount >= config.minRecentMessages && keptTokens + tokens > config.maxHistoryTokens / 2) {
+      break;
+    }
+    keptTokens += tokens;
+    keepFrom--;
+  }
+
+  const toFold = pending.slice(0, keepFrom);
+  const recentMessages = pending.slice(keepFrom);
+  if (toFold.length === 0) {
+    return { summary, recentMessages, summaryUpdated: false };
+  }
+
+  try {
+    const content = await summarizeTurns(ai, model, summary?.content, toFold, config.summaryMaxTokens);
+    return {
+      summary: { content, lastMessageId: toFold[toFold.length - 1].id, updatedAt: Date.now() },
+      recentMessages,
+      summaryUpdated: true,
+    };
+  } catch (error) {
+    // Dropping the oldest turns is better than failing the chat request
+    console.error('Failed to summarize older conversation turns:', error);
+    return { summary, recentMessages, summaryUpdated: false };
+  }
+}
+
+async function summarizeTurns(
+  ai: AiProvider,
+  model: string,
+  previousSummary: string | undefined,
+  turns: ConversationMessage[],
+  maxTokens: number
+): Promise<string> {
+  const systemPrompt =
+    'You maintain a running summary of a tutoring conversation about a lecture. Merge the previous summary and the new turns into one concise summary. Keep the questions the student asked, the key facts explained, and any open points. Do not add new information.';
+  const transcript = turns.map((msg) => `${msg.role === 'user' ? 'Student' : 'Tutor'}: ${msg.content}`).join('\n\n');
+  const userPrompt = `Previous summary:\n${previousSummary || '(none)'}\n\nNew turns:\n\n${transcript}`;
+
+  const response = await ai.run(model, {
+    messages: [
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: userPrompt },
+    ],
+    max_tokens: maxTokens,
+  });
+
+  if (!response?.response) {
+    throw new Error('Summarization returned an empty response');
+  }
+  return response.response;
+}
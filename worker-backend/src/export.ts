@@ -0,0 +1,384 @@
+// Exports of a lecture's study materials (cached summary and concepts, flashcards, chat
+// threads) as Markdown for note apps such as Obsidian, Anki imports or print-ready HTML,
+// and the whole-account export as a ZIP archive with one file per lecture.
+import { LectureArtifact } from './artifacts';
+import { MEMBER_HEADER } from './LectureMemory';
+import { StructuredConcepts } from './concepts';
+import { createZip } from './zip';
+
+export type ExportFormat = 'md' | 'anki-csv' | 'apkg-json' | 'html';
+
+export interface ExportFlashcard {
+  id: string;
+  question: string;
+  answer: string;
+}
+
+export interface ExportThread {
+  id: string;
+  title: string;
+  messages: { role: 'user' | 'assistant'; content: string; timestamp: number }[];
+}
+
+export interface LectureExport {
+  lectureId: string;
+  lectureName: string;
+  course: string | null;
+  tags: string[];
+  summary: LectureArtifact | null;
+  concepts: LectureArtifact | null; // Markdown extraction
+  structuredConcepts: StructuredConcepts | null; // Used when there is no Markdown extraction
+  flashcards: ExportFlashcard[];
+  threads: ExportThread[];
+}
+
+interface ExportRenderer {
+  extension: string;
+  contentType: string;
+  flashcardsOnly: boolean; // Nothing to export for a lecture without flashcards
+  render: (lecture: LectureExport, exportedAt: Date) => string;
+}
+
+const MAX_FILE_NAME_LENGTH = 100;
+const DECK_ROOT = 'LectureLens';
+
+/**
+ * Load the cached artifacts and chat threads of a lecture from its Durable Object
+ */
+export async function loadLectureMaterials(stub: DurableObjectStub, memberId?: string): Promise<Pick<LectureExport, 'summary' | 'concepts' | 'structuredConcepts' | 'threads'>> {
+  const response = await stub.fetch('https://do-placeholder/export', { headers: memberId ? { [MEMBER_HEADER]: memberId } : {} });
+  if (!response.ok) {
+    throw new Error(`Failed to load lecture materials: ${await response.text()}`);
+  }
+
+  const { artifacts, threads } = (await response.json()) as { artifacts: Record<string, LectureArtifact | null>; threads: ExportThread[] };
+  return {
+    summary: artifacts.summary ?? null,
+    concepts: artifacts.concepts ?? null,
+    structuredConcepts: artifacts.concepts_json ? JSON.parse(artifacts.concepts_json.content) : null,
+    threads,
+  };
+}
+
+/**
+ * A name safe to use as a file or folder name on any OS
+ */
+export function safeFileName(name: string): string {
+  const safe = name.replace(/[\u0000-\u001f\u007f/\\:*?"<>|]+/g, '-').replace(/\s+/g, ' ').trim().replace(/^\.+/, '');
+  return safe.slice(0, MAX_FILE_NAME_LENGTH).trim() || 'lecture';
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function formatTimestamp(timestamp: number): string {
+  return `${new Date(timestamp).toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+}
+
+/**
+ * Push the headings of generated Markdown down `levels` levels so they nest under the
+ * export's own section headings (at most level 6; code blocks are left alone)
+ */
+export function demoteHeadings(markdown: string, levels: number): string {
+  let inCode = false;
+  return markdown.split('\n').map((line) => {
+    if (/^\s*```/.test(line)) {
+      inCode = !inCode;
+    }
+    const heading = inCode ? null : /^(#{1,6})(\s.*)$/.exec(line);
+    return heading ? `${'#'.repeat(Math.min(heading[1].length + levels, 6))}${heading[2]}` : line;
+  }).join('\n');
+}
+
+function renderInline(text: string): string {
+  return text.split(/(`[^`]+`)/).map((part) => (part.length > 1 && part.startsWith('`') && part.endsWith('`')
+    ? `<code>${escapeHtml(part.slice(1, -1))}</code>`
+    : escapeHtml(part).replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>').replace(/\*([^*\s](?:[^*]*[^*\s])?)\*/g, '<em>$1</em>'))).join('');
+}
+
+/**
+ * Render the Markdown the study prompts produce (headings, lists, code blocks, bold and
+ * italic text, rules and paragraphs) as HTML; anything else is kept as escaped text
+ */
+export function markdownToHtml(markdown: string): string {
+  const html: string[] = [];
+  let paragraph: string[] = [];
+  let list: { tag: 'ul' | 'ol'; items: string[] } | null = null;
+  let code: string[] | null = null;
+
+  const flush = () => {
+    if (paragraph.length > 0) {
+      html.push(`<p>${paragraph.map(renderInline).join('<br>\n')}</p>`);
+      paragraph = [];
+    }
+    if (list) {
+      html.push(`<${list.tag}>\n${list.items.map((item) => `<li>${renderInline(item)}</li>`).join('\n')}\n</${list.tag}>`);
+      list = null;
+    }
+  };
+
+  for (const line of markdown.split(/\r?\n/)) {
+    if (code) {
+      if (/^\s*```/.test(line)) {
+        html.push(`<pre><code>${escapeHtml(code.join('\n'))}</code></pre>`);
+        code = null;
+      } else {
+        code.push(line);
+      }
+      continue;
+    }
+    if (/^\s*```/.test(line)) {
+      flush();
+      code = [];
+      continue;
+    }
+
+    const heading = /^(#{1,6})\s+(.*)$/.exec(line);
+    if (heading) {
+      flush();
+      html.push(`<h${heading[1].length}>${renderInline(heading[2])}</h${heading[1].length}>`);
+      continue;
+    }
+    if (/^\s*([-*_])\s*\1\s*\1[\s\-*_]*$/.test(line)) {
+      flush();
+      html.push('<hr>');
+      continue;
+    }
+
+    const item = /^\s*(?:([-*+])|\d+[.)])\s+(.*)$/.exec(line);
+    if (item) {
+      const tag = item[1] ? 'ul' : 'ol';
+      if (paragraph.length > 0 || (list && list.tag !== tag)) {
+        flush();
+      }
+      list ??= { tag, items: [] };
+      list.items.push(item[2]);
+    } else if (!line.trim()) {
+      flush();
+    } else if (list && /^\s/.test(line)) {
+      // Indented continuation of the previous list item
+      list.items[list.items.length - 1] += ` ${line.trim()}`;
+    } else {
+      if (list) {
+        flush();
+      }
+      paragraph.push(line.trim());
+    }
+  }
+
+  if (code) {
+    html.push(`<pre><code>${escapeHtml(code.join('\n'))}</code></pre>`);
+  }
+  flush();
+  return html.join('\n');
+}
+
+/**
+ * Markdown for structured concepts (used when only the JSON extraction is cached)
+ */
+function structuredConceptsToMarkdown(concepts: StructuredConcepts): string {
+  const sections: string[] = [];
+  if (concepts.definitions.length > 0) {
+    sections.push(`### Definitions\n\n${concepts.definitions.map((d) => `- **${d.term}**: ${d.definition}`).join('\n')}`);
+  }
+  if (concepts.formulas.length > 0) {
+    sections.push(`### Formulas\n\n${concepts.formulas.map((f) => `- $${f.latex}$${f.description ? ` — ${f.description}` : ''}`).join('\n')}`);
+  }
+  if (concepts.concepts.length > 0) {
+    sections.push(`### Core Concepts\n\n${concepts.concepts.map((c) => `- **${c.name}**${c.description ? `: ${c.description}` : ''}`).join('\n')}`);
+  }
+  return sections.join('\n\n');
+}
+
+// The concepts as Markdown with headings below level 2, or null when none are cached
+function conceptsMarkdown(lecture: LectureExport): string | null {
+  if (lecture.concepts) {
+    return demoteHeadings(lecture.concepts.content, 2);
+  }
+  return lecture.structuredConcepts ? structuredConceptsToMarkdown(lecture.structuredConcepts) : null;
+}
+
+function roleLabel(role: 'user' | 'assistant'): string {
+  return role === 'user' ? 'You' : 'Tutor';
+}
+
+/**
+ * Markdown document with YAML front matter (title, course, tags) for Obsidian and similar apps
+ */
+export function renderMarkdown(lecture: LectureExport, exportedAt: Date): string {
+  const frontMatter = [
+    '---',
+    `title: ${JSON.stringify(lecture.lectureName)}`,
+    ...(lecture.course ? [`course: ${JSON.stringify(lecture.course)}`] : []),
+    `tags: [${['lecturelens', ...lecture.tags.map((tag) => tag.replace(/\s+/g, '-'))].map((tag) => JSON.stringify(tag)).join(', ')}]`,
+    `exported: ${exportedAt.toISOString()}`,
+    '---',
+  ];
+
+  const sections: string[] = [`# ${lecture.lectureName}`];
+  if (lecture.summary) {
+    sections.push(`## Summary\n\n${demoteHeadings(lecture.summary.content, 2)}`);
+  }
+  const concepts = conceptsMarkdown(lecture);
+  if (concepts) {
+    sections.push(`## Key Concepts\n\n${concepts}`);
+  }
+  if (lecture.flashcards.length > 0) {
+    const cards = lecture.flashcards.map((card, i) => `${i + 1}. **${card.question.replace(/\s*\n\s*/g, ' ')}**\n   ${card.answer.replace(/\n/g, '\n   ')}`);
+    sections.push(`## Flashcards\n\n${cards.join('\n')}`);
+  }
+  for (const thread of lecture.threads) {
+    const messages = thread.messages.map((message) => `**${roleLabel(message.role)}** (${formatTimestamp(message.timestamp)}):\n\n${demoteHeadings(message.content, 3)}`);
+    sections.push(`## Chat: ${thread.title}\n\n${messages.join('\n\n')}`);
+  }
+  if (sections.length === 1) {
+    sections.push('_No study materials have been generated for this lecture yet._');
+  }
+
+  return `${frontMatter.join('\n')}\n\n${sections.join('\n\n')}\n`;
+}
+
+function deckName(lecture: LectureExport): string {
+  return [DECK_ROOT, lecture.course, lecture.lectureName]
+    .filter((part): part is string => !!part)
+    .map((part) => part.replace(/::/g, ':').replace(/\s+/g, ' ').trim())
+    .join('::');
+}
+
+function ankiTags(lecture: LectureExport): string[] {
+  return ['lecturelens', ...lecture.tags.map((tag) => tag.replace(/\s+/g, '_'))];
+}
+
+function csvField(value: string): string {
+  return `"${value.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Flashcards as CSV with the file headers Anki (2.1.55+) reads to pick the deck, note
+ * type and columns, so the file imports without further setup
+ */
+export function renderAnkiCsv(lecture: LectureExport): string {
+  const header = [
+    '#separator:Comma',
+    '#html:false',
+    `#deck:${deckName(lecture)}`,
+    '#notetype:Basic',
+    '#columns:Front,Back,Tags',
+    '#tags column:3',
+  ];
+  const tags = ankiTags(lecture).join(' ');
+  const rows = lecture.flashcards.map((card) => [card.question, card.answer, tags].map(csvField).join(','));
+  return `${[...header, ...rows].join('\n')}\n`;
+}
+
+/**
+ * Flashcards as a JSON deck description (deck, note type, notes with stable GUIDs) for
+ * tools such as genanki that build .apkg packages; re-importing updates existing notes
+ */
+export function renderApkgJson(lecture: LectureExport, exportedAt: Date): string {
+  return JSON.stringify({
+    format: 'lecturelens-anki-deck',
+    version: 1,
+    deck: {
+      name: deckName(lecture),
+      description: `Flashcards for "${lecture.lectureName}", exported from LectureLens on ${exportedAt.toISOString().slice(0, 10)}`,
+    },
+    noteType: { name: 'Basic', fields: ['Front', 'Back'] },
+    notes: lecture.flashcards.map((card) => ({ guid: card.id, fields: [card.question, card.answer], tags: ankiTags(lecture) })),
+  }, null, 2);
+}
+
+const PRINT_STYLES = `
+  body { font-family: Georgia, 'Times New Roman', serif; line-height: 1.5; color: #111; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; }
+  h1, h2, h3, h4, h5, h6 { font-family: Helvetica, Arial, sans-serif; line-height: 1.2; page-break-after: avoid; }
+  h2 { border-bottom: 1px solid #ccc; padding-bottom: 0.2rem; margin-top: 2rem; }
+  .meta { color: #555; font-size: 0.9rem; }
+  pre { background: #f5f5f5; padding: 0.75rem; overflow-x: auto; white-space: pre-wrap; }
+  code { font-family: Menlo, Consolas, monospace; font-size: 0.9em; }
+  .card, .message { border: 1px solid #ddd; border-radius: 4px; padding: 0.5rem 0.75rem; margin: 0.5rem 0; page-break-inside: avoid; }
+  .card dt { font-weight: bold; }
+  .card dd { margin: 0.25rem 0 0; }
+  .message.user { background: #f3f6fb; }
+  .role { font-family: Helvetica, Arial, sans-serif; font-size: 0.85rem; color: #555; }
+  section { page-break-before: auto; }
+  @media print { body { margin: 0; max-width: none; } a { color: inherit; } }
+`;
+
+/**
+ * Standalone HTML document with print styles, ready for the browser's "Save as PDF"
+ */
+export function renderHtml(lecture: LectureExport, exportedAt: Date): string {
+  const meta = [lecture.course, `Exported ${exportedAt.toISOString().slice(0, 10)}`].filter(Boolean).map((part) => escapeHtml(part!)).join(' · ');
+  const sections: string[] = [];
+
+  if (lecture.summary) {
+    sections.push(`<section>\n<h2>Summary</h2>\n${markdownToHtml(demoteHeadings(lecture.summary.content, 2))}\n</section>`);
+  }
+  const concepts = conceptsMarkdown(lecture);
+  if (concepts) {
+    sections.push(`<section>\n<h2>Key Concepts</h2>\n${markdownToHtml(concepts)}\n</section>`);
+  }
+  if (lecture.flashcards.length > 0) {
+    const cards = lecture.flashcards.map((card) => `<dl class="card"><dt>${escapeHtml(card.question)}</dt><dd>${escapeHtml(card.answer).replace(/\n/g, '<br>')}</dd></dl>`);
+    sections.push(`<section>\n<h2>Flashcards</h2>\n${cards.join('\n')}\n</section>`);
+  }
+  for (const thread of lecture.threads) {
+    const messages = thread.messages.map((message) =>
+      `<div class="message ${message.role}">\n<div class="role">${roleLabel(message.role)} · ${formatTimestamp(message.timestamp)}</div>\n${markdownToHtml(demoteHeadings(message.content, 3))}\n</div>`
+    );
+    sections.push(`<section>\n<h2>Chat: ${escapeHtml(thread.title)}</h2>\n${messages.join('\n')}\n</section>`);
+  }
+  if (sections.length === 0) {
+    sections.push('<p><em>No study materials have been generated for this lecture yet.</em></p>');
+  }
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(lecture.lectureName)}</title>
+<style>${PRINT_STYLES}</style>
+</head>
+<body>
+<h1>${escapeHtml(lecture.lectureName)}</h1>
+<p class="meta">${meta}</p>
+${sections.join('\n')}
+</body>
+</html>
+`;
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, ExportRenderer> = {
+  md: { extension: 'md', contentType: 'text/markdown; charset=utf-8', flashcardsOnly: false, render: renderMarkdown },
+  'anki-csv': { extension: 'csv', contentType: 'text/csv; charset=utf-8', flashcardsOnly: true, render: renderAnkiCsv },
+  'apkg-json': { extension: 'json', contentType: 'application/json; charset=utf-8', flashcardsOnly: true, render: renderApkgJson },
+  html: { extension: 'html', contentType: 'text/html; charset=utf-8', flashcardsOnly: false, render: renderHtml },
+};
+
+/**
+ * ZIP archive of every lecture in one format, in a folder per course ("Unsorted" for
+ * lectures without one). Flashcard formats skip lectures without flashcards.
+ */
+export async function buildAccountExport(lectures: LectureExport[], format: ExportFormat, exportedAt: Date): Promise<Uint8Array> {
+  const renderer = EXPORT_FORMATS[format];
+  const encoder = new TextEncoder();
+  const usedNames = new Set<string>();
+  const files = [];
+
+  for (const lecture of lectures) {
+    if (renderer.flashcardsOnly && lecture.flashcards.length === 0) {
+      continue;
+    }
+    const folder = safeFileName(lecture.course || 'Unsorted');
+    const base = `${folder}/${safeFileName(lecture.lectureName)}`;
+    let name = `${base}.${renderer.extension}`;
+    for (let n = 2; usedNames.has(name.toLowerCase()); n++) {
+      name = `${base} (${n}).${renderer.extension}`;
+    }
+    usedNames.add(name.toLowerCase());
+    files.push({ name, data: encoder.encode(renderer.render(lecture, exportedAt)) });
+  }
+
+  return createZip(files, exportedAt);
+}
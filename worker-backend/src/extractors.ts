@@ -0,0 +1,495 @@
+// Lecture file extractors, looked up by file content, extension or MIME type. Each one turns
+// an uploaded file into normalized plain text plus the structure of the original document
+// (pages, slides, headings, caption timestamps) as character ranges into that text.
+import { PdfErrorCode, PdfExtractionError, extractPdfText, isPdf } from './pdf';
+import { isZip, readZipEntries } from './zip';
+
+export type SectionKind = 'page' | 'slide' | 'heading' | 'caption';
+
+export interface LectureSection {
+  kind: SectionKind;
+  label: string; // "Page 3", "Slide 2", the heading text or the caption's time range
+  start: number; // Offset of the section's first character in the extracted text
+  end: number; // Offset just past the section's last character
+  number?: number; // Page or slide number
+  level?: number; // Heading level (1-6)
+}
+
+export interface ExtractedLecture {
+  text: string;
+  sections: LectureSection[];
+}
+
+export interface LectureExtractor {
+  format: string;
+  extensions: string[];
+  mimeTypes: string[];
+  sniff?: (bytes: Uint8Array) => boolean; // Recognizes the format from its content, whatever the file is called
+  extract(bytes: Uint8Array): Promise<ExtractedLecture>;
+}
+
+/**
+ * A file that matched an extractor but cannot be converted to text
+ */
+export class ExtractionError extends Error {
+  title: string; // Short error name returned to the client, e.g. "Encrypted PDF"
+
+  constructor(title: string, message: string) {
+    super(message);
+    this.name = 'ExtractionError';
+    this.title = title;
+  }
+}
+
+const extractors: LectureExtractor[] = [];
+
+/**
+ * Add an extractor to the registry; extractors registered earlier win ties
+ */
+export function registerExtractor(extractor: LectureExtractor): void {
+  extractors.push(extractor);
+}
+
+/**
+ * Pick the extractor for an upload: content sniffing first, then the file extension, then the MIME type
+ */
+export function findExtractor(fileName: string, mimeType: string, bytes: Uint8Array): LectureExtractor | null {
+  const sniffed = extractors.find((extractor) => extractor.sniff?.(bytes));
+  if (sniffed) {
+    return sniffed;
+  }
+
+  const extension = getFileExtension(fileName);
+  const byExtension = extractors.find((extractor) => extractor.extensions.includes(extension));
+  if (byExtension) {
+    return byExtension;
+  }
+
+  const type = mimeType.split(';')[0].trim().toLowerCase();
+  return extractors.find((extractor) => extractor.mimeTypes.includes(type)) || null;
+}
+
+export function supportedExtensions(): string[] {
+  return extractors.flatMap((extractor) => extractor.extensions);
+}
+
+export function getFileExtension(fileName: string): string {
+  const dot = fileName.lastIndexOf('.');
+  return dot === -1 ? '' : fileName.substring(dot + 1).toLowerCase();
+}
+
+/**
+ * Sections overlapping the character range [start, end)
+ */
+export function sectionsForRange(sections: LectureSection[], start: number, end: number): LectureSection[] {
+  return sections.filter((section) => section.start < end && section.end > start);
+}
+
+// --- Text assembly helpers ---
+
+interface TextBlock {
+  text: string;
+  heading?: number; // Heading level when the block is a heading
+}
+
+/**
+ * Join blocks into one text. A heading's section runs until the next heading of the same or higher rank.
+ */
+function assembleBlocks(blocks: TextBlock[]): ExtractedLecture {
+  let text = '';
+  const headings: { section: LectureSection; level: number }[] = [];
+
+  for (const block of blocks) {
+    const content = block.text.trim();
+    if (!content) {
+      continue;
+    }
+    if (text) {
+      text += '\n\n';
+    }
+    if (block.heading) {
+      // Close open headings of the same or lower rank
+      for (const open of headings) {
+        if (open.section.end === -1 && open.level >= block.heading) {
+          open.section.end = text.length - 2;
+        }
+      }
+      headings.push({ section: { kind: 'heading', label: content, start: text.length, end: -1, level: block.heading }, level: block.heading });
+    }
+    text += content;
+  }
+
+  const sections = headings.map(({ section }) => (section.end === -1 ? { ...section, end: text.length } : section));
+  return { text, sections };
+}
+
+/**
+ * Join per-page (or per-slide, per-caption) texts, recording each one as a section
+ */
+function assembleParts(parts: Omit<LectureSection, 'start' | 'end'>[], texts: string[], separator: string): ExtractedLecture {
+  let text = '';
+  const sections: LectureSection[] = [];
+  texts.forEach((partText, i) => {
+    const content = partText.trim();
+    if (!content) {
+      return;
+    }
+    if (text) {
+      text += separator;
+    }
+    const start = text.length;
+    text += content;
+    sections.push({ ...parts[i], start, end: text.length });
+  });
+  return { text, sections };
+}
+
+function decodeText(bytes: Uint8Array): string {
+  // Strip a UTF-8 byte order mark and normalize line endings
+  return new TextDecoder().decode(bytes).replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+  ndash: '–', mdash: '—', hellip: '…', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', copy: '©', deg: '°',
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.substring(2), 16) : parseInt(entity.substring(1), 10);
+      return Number.isFinite(code) && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+// --- Plain text ---
+
+const textExtractor: LectureExtractor = {
+  format: 'text',
+  extensions: ['txt'],
+  mimeTypes: ['text/plain'],
+  async extract(bytes) {
+    return { text: decodeText(bytes), sections: [] };
+  },
+};
+
+// --- PDF ---
+
+const PDF_ERROR_TITLES: Record<PdfErrorCode, string> = {
+  encrypted: 'Encrypted PDF',
+  no_text: 'No text in PDF',
+  invalid: 'Invalid PDF',
+};
+
+const pdfExtractor: LectureExtractor = {
+  format: 'pdf',
+  extensions: ['pdf'],
+  mimeTypes: ['application/pdf'],
+  sniff: isPdf,
+  async extract(bytes) {
+    // The frontend extracts PDFs with PDF.js and uploads the text under the original .pdf name
+    if (!isPdf(bytes)) {
+      return textExtractor.extract(bytes);
+    }
+
+    try {
+      const pdf = await extractPdfText(bytes);
+      return {
+        text: pdf.text,
+        sections: pdf.pages.map((page) => ({ kind: 'page' as const, label: `Page ${page.page}`, number: page.page, start: page.start, end: page.end })),
+      };
+    } catch (error) {
+      if (error instanceof PdfExtractionError) {
+        throw new ExtractionError(PDF_ERROR_TITLES[error.code], error.message);
+      }
+      throw error;
+    }
+  },
+};
+
+// --- Office Open XML (DOCX, PPTX) ---
+
+async function readOfficeEntries(bytes: Uint8Array, format: string, filter: (name: string) => boolean): Promise<Map<string, string>> {
+  const invalid = new ExtractionError(`Invalid ${format}`, `The file is not a valid ${format} document.`);
+  if (!isZip(bytes)) {
+    throw invalid;
+  }
+
+  let entries: Map<string, Uint8Array>;
+  try {
+    entries = await readZipEntries(bytes, filter);
+  } catch (error) {
+    console.error(`Failed to read ${format} archive:`, error);
+    throw invalid;
+  }
+
+  const decoder = new TextDecoder();
+  return new Map([...entries].map(([name, data]) => [name, decoder.decode(data)]));
+}
+
+/**
+ * Text of a DrawingML or WordprocessingML paragraph: text runs, tabs and line breaks
+ */
+function xmlParagraphText(xml: string, prefix: 'w' | 'a'): string {
+  const tokens = new RegExp(`<${prefix}:t(?:\\s[^>]*)?>([^<]*)</${prefix}:t>|<${prefix}:tab/>|<${prefix}:(?:br|cr)\\b[^>]*/>`, 'g');
+  let text = '';
+  for (const match of xml.matchAll(tokens)) {
+    if (match[1] !== undefined) {
+      text += decodeEntities(match[1]);
+    } else {
+      text += match[0].includes(':tab') ? '\t' : '\n';
+    }
+  }
+  return text;
+}
+
+const docxExtractor: LectureExtractor = {
+  format: 'docx',
+  extensions: ['docx'],
+  mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+  async extract(bytes) {
+    const entries = await readOfficeEntries(bytes, 'DOCX', (name) => name === 'word/document.xml');
+    const documentXml = entries.get('word/document.xml');
+    if (!documentXml) {
+      throw new ExtractionError('Invalid DOCX', 'The file is not a valid DOCX document.');
+    }
+
+    const blocks: TextBlock[] = [];
+    for (const [, paragraph] of documentXml.matchAll(/<w:p(?:\s[^>]*)?>([\s\S]*?)<\/w:p>/g)) {
+      const text = xmlParagraphText(paragraph, 'w');
+      // Built-in heading styles ("Heading1", "Title") or an explicit outline level
+      const style = paragraph.match(/<w:pStyle w:val="([^"]*)"/)?.[1] || '';
+      const outline = paragraph.match(/<w:outlineLvl w:val="(\d)"/)?.[1];
+      let heading: number | undefined;
+      if (/^title$/i.test(style)) {
+        heading = 1;
+      } else if (/^heading(\d)$/i.test(style)) {
+        heading = Math.min(6, Number(style.replace(/\D/g, '')));
+      } else if (outline !== undefined && Number(outline) < 6) {
+        heading = Number(outline) + 1;
+      }
+      const isListItem = paragraph.includes('<w:numPr>');
+      blocks.push({ text: isListItem && text.trim() ? `- ${text}` : text, heading });
+    }
+
+    return assembleBlocks(blocks);
+  },
+};
+
+const pptxExtractor: LectureExtractor = {
+  format: 'pptx',
+  extensions: ['pptx'],
+  mimeTypes: ['application/vnd.openxmlformats-officedocument.presentationml.presentation'],
+  async extract(bytes) {
+    const entries = await readOfficeEntries(
+      bytes,
+      'PPTX',
+      (name) => /^ppt\/slides\/slide\d+\.xml$/.test(name) || name === 'ppt/presentation.xml' || name === 'ppt/_rels/presentation.xml.rels'
+    );
+
+    const slideNames = slideOrder(entries);
+    if (slideNames.length === 0) {
+      throw new ExtractionError('Invalid PPTX', 'The file is not a valid PPTX presentation.');
+    }
+
+    const texts = slideNames.map((name) => {
+      const xml = entries.get(name)!;
+      return [...xml.matchAll(/<a:p(?:\s[^>]*)?>([\s\S]*?)<\/a:p>/g)]
+        .map(([, paragraph]) => xmlParagraphText(paragraph, 'a').trim())
+        .filter((line) => line.length > 0)
+        .join('\n');
+    });
+    const parts = slideNames.map((_, i) => ({ kind: 'slide' as const, label: `Slide ${i + 1}`, number: i + 1 }));
+
+    return assembleParts(parts, texts, '\n\n');
+  },
+};
+
+/**
+ * Slide entry names in presentation order (from presentation.xml), falling back to file name order
+ */
+function slideOrder(entries: Map<string, string>): string[] {
+  const presentation = entries.get('ppt/presentation.xml');
+  const rels = entries.get('ppt/_rels/presentation.xml.rels');
+  if (presentation && rels) {
+    const targets = new Map<string, string>();
+    for (const [relationship] of rels.matchAll(/<Relationship\b[^>]*>/g)) {
+      const id = relationship.match(/\bId="([^"]*)"/)?.[1];
+      const target = relationship.match(/\bTarget="([^"]*)"/)?.[1];
+      if (id && target) {
+        targets.set(id, target.startsWith('/') ? target.substring(1) : `ppt/${target}`);
+      }
+    }
+    const ordered = [...presentation.matchAll(/<p:sldId\b[^>]*\br:id="([^"]*)"/g)]
+      .map(([, id]) => targets.get(id))
+      .filter((name): name is string => name !== undefined && entries.has(name));
+    if (ordered.length > 0) {
+      return ordered;
+    }
+  }
+
+  const slideNumber = (name: string) => Number(name.match(/slide(\d+)\.xml$/)?.[1] || 0);
+  return [...entries.keys()].filter((name) => name.startsWith('ppt/slides/')).sort((a, b) => slideNumber(a) - slideNumber(b));
+}
+
+// --- Markdown ---
+
+const markdownExtractor: LectureExtractor = {
+  format: 'markdown',
+  extensions: ['md', 'markdown'],
+  mimeTypes: ['text/markdown', 'text/x-markdown'],
+  async extract(bytes) {
+    const blocks: TextBlock[] = [];
+    let paragraph: string[] = [];
+    let inFence = false;
+    const flush = () => {
+      blocks.push({ text: paragraph.join('\n') });
+      paragraph = [];
+    };
+
+    for (const line of decodeText(bytes).split('\n')) {
+      if (/^\s*(```|~~~)/.test(line)) {
+        inFence = !inFence;
+      }
+      const heading = inFence ? null : line.match(/^(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/);
+      if (heading) {
+        flush();
+        blocks.push({ text: heading[2], heading: heading[1].length });
+      } else if (!inFence && line.trim() === '') {
+        flush();
+      } else {
+        paragraph.push(line.trimEnd());
+      }
+    }
+    flush();
+
+    return assembleBlocks(blocks);
+  },
+};
+
+// --- HTML ---
+
+const HTML_BLOCK_TAGS = new Set([
+  'p', 'div', 'section', 'article', 'header', 'footer', 'main', 'aside', 'nav', 'blockquote', 'pre',
+  'ul', 'ol', 'li', 'table', 'tr', 'dl', 'dt', 'dd', 'figure', 'figcaption', 'hr',
+]);
+
+const htmlExtractor: LectureExtractor = {
+  format: 'html',
+  extensions: ['html', 'htm'],
+  mimeTypes: ['text/html', 'application/xhtml+xml'],
+  async extract(bytes) {
+    const html = decodeText(bytes)
+      .replace(/<!--[\s\S]*?-->/g, '')
+      .replace(/<(script|style|head|template|noscript)\b[\s\S]*?<\/\1\s*>/gi, '');
+
+    const blocks: TextBlock[] = [];
+    let current = '';
+    let heading: number | undefined;
+    const flush = () => {
+      const text = current.split('\n').map((line) => line.replace(/\s+/g, ' ').trim()).filter(Boolean).join('\n');
+      blocks.push({ text, heading });
+      current = '';
+      heading = undefined;
+    };
+
+    for (const [token, closing, tagName, text] of html.matchAll(/<(\/?)([a-zA-Z][a-zA-Z0-9]*)\b[^>]*>|([^<]+)/g)) {
+      if (text !== undefined) {
+        current += decodeEntities(text.replace(/\s+/g, ' '));
+        continue;
+      }
+      const tag = tagName.toLowerCase();
+      const headingMatch = tag.match(/^h([1-6])$/);
+      if (headingMatch) {
+        flush();
+        if (!closing) {
+          heading = Number(headingMatch[1]);
+        }
+      } else if (tag === 'br') {
+        current += '\n';
+      } else if (HTML_BLOCK_TAGS.has(tag)) {
+        flush();
+        if (tag === 'li' && !closing) {
+          current = '- ';
+        }
+      } else if ((tag === 'td' || tag === 'th') && closing) {
+        current += ' ';
+      }
+    }
+    flush();
+
+    // A list item bullet with nothing after it is not content
+    return assembleBlocks(blocks.filter((block) => block.text !== '-'));
+  },
+};
+
+// --- Captions (SRT, WebVTT) ---
+
+function normalizeTimestamp(timestamp: string): string {
+  const [clock, millis = '000'] = timestamp.trim().replace(',', '.').split('.');
+  const parts = clock.split(':').map((part) => part.padStart(2, '0'));
+  while (parts.length < 3) {
+    parts.unshift('00');
+  }
+  return `${parts.join(':')}.${millis.padEnd(3, '0')}`;
+}
+
+function extractCaptions(bytes: Uint8Array): ExtractedLecture {
+  const parts: Omit<LectureSection, 'start' | 'end'>[] = [];
+  const texts: string[] = [];
+
+  for (const block of decodeText(bytes).split(/\n{2,}/)) {
+    const lines = block.split('\n');
+    const timing = lines.findIndex((line) => line.includes('-->'));
+    // Headers, NOTE/STYLE/REGION blocks and numbering-only blocks have no timing line
+    if (timing === -1) {
+      continue;
+    }
+
+    const [from, rest] = lines[timing].split('-->');
+    const to = rest.trim().split(/\s+/)[0]; // WebVTT cue settings follow the end time
+    const text = lines
+      .slice(timing + 1)
+      .map((line) => decodeEntities(line.replace(/<[^>]+>/g, '')).trim())
+      .filter(Boolean)
+      .join(' ');
+
+    // Auto-generated captions often repeat the previous cue while it scrolls
+    if (!text || text === texts[texts.length - 1]) {
+      continue;
+    }
+    parts.push({ kind: 'caption', label: `${normalizeTimestamp(from)} --> ${normalizeTimestamp(to)}` });
+    texts.push(text);
+  }
+
+  return assembleParts(parts, texts, '\n');
+}
+
+const srtExtractor: LectureExtractor = {
+  format: 'srt',
+  extensions: ['srt'],
+  mimeTypes: ['application/x-subrip', 'text/srt'],
+  async extract(bytes) {
+    return extractCaptions(bytes);
+  },
+};
+
+const vttExtractor: LectureExtractor = {
+  format: 'vtt',
+  extensions: ['vtt'],
+  mimeTypes: ['text/vtt'],
+  async extract(bytes) {
+    return extractCaptions(bytes);
+  },
+};
+
+registerExtractor(pdfExtractor);
+registerExtractor(docxExtractor);
+registerExtractor(pptxExtractor);
+registerExtractor(markdownExtractor);
+registerExtractor(htmlExtractor);
+registerExtractor(srtExtractor);
+registerExtractor(vttExtractor);
+registerExtractor(textExtractor);
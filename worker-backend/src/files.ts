@@ -0,0 +1,48 @@
+// Original lecture uploads, kept in R2 so students can download them again and
+// improved extractors can be re-run on them later.
+
+export interface LectureFileMetadata {
+  fileName: string;
+  contentType: string;
+}
+
+export interface StoredLectureFile extends LectureFileMetadata {
+  size: number;
+  uploadedAt: string;
+  body: ReadableStream;
+}
+
+function lectureFileKey(lectureId: string): string {
+  return `lectures/${lectureId}/original`;
+}
+
+/**
+ * Store the uploaded file, replacing any previous original for the lecture
+ */
+export async function putLectureFile(bucket: R2Bucket, lectureId: string, bytes: Uint8Array, metadata: LectureFileMetadata): Promise<void> {
+  await bucket.put(lectureFileKey(lectureId), bytes, {
+    httpMetadata: { contentType: metadata.contentType },
+    customMetadata: { fileName: metadata.fileName },
+  });
+}
+
+/**
+ * Fetch the original file, or null for lectures uploaded before originals were kept
+ */
+export async function getLectureFile(bucket: R2Bucket, lectureId: string): Promise<StoredLectureFile | null> {
+  const object = await bucket.get(lectureFileKey(lectureId));
+  if (!object) {
+    return null;
+  }
+  return {
+    fileName: object.customMetadata?.fileName || 'lecture',
+    contentType: object.httpMetadata?.contentType || 'application/octet-stream',
+    size: object.size,
+    uploadedAt: object.uploaded.toISOString(),
+    body: object.body,
+  };
+}
+
+export async function deleteLectureFile(bucket: R2Bucket, lectureId: string): Promise<void> {
+  await bucket.delete(lectureFileKey(lectureId));
+}
@@ -0,0 +1,118 @@
+// Flashcards generated from a lecture and their spaced-repetition review schedule (SM-2).
+import { PromptFormatError, StudyPrompt, parseJsonArray, planStudySections, runStructuredPrompt } from './prompts';
+import { AiProvider } from './ai';
+
+export interface FlashcardContent {
+  question: string;
+  answer: string;
+}
+
+export interface ReviewSchedule {
+  easeFactor: number;
+  intervalDays: number;
+  repetitions: number; // Successful reviews in a row
+  dueAt: string;
+}
+
+export const DEFAULT_FLASHCARD_COUNT = 10;
+export const MAX_FLASHCARD_COUNT = 30;
+export const MAX_QUESTION_LENGTH = 500;
+export const MAX_ANSWER_LENGTH = 2000;
+
+// Long lectures are sampled at evenly spaced sections to bound the number of AI calls
+const MAX_GENERATION_SECTIONS = 6;
+
+// SM-2 parameters
+export const INITIAL_EASE_FACTOR = 2.5;
+const MIN_EASE_FACTOR = 1.3;
+const PASSING_GRADE = 3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Prompt asking for `count` cards from a lecture (or one section of it) as a JSON array
+ */
+export function buildFlashcardPrompt(text: string, count: number): StudyPrompt {
+  return {
+    system: `You are a study assistant that writes flashcards. Write exactly ${count} flashcards covering the most important definitions, facts, formulas and ideas in the lecture text. Each question must be answerable from the text alone; keep answers short. Reply with ONLY a JSON array, no other text, in this form: [{"question": "...", "answer": "..."}]`,
+    user: `Lecture Text:\n\n${text}`,
+    maxTokens: 4096,
+  };
+}
+
+/**
+ * Validate and trim one card; returns null when a field is missing or too long
+ */
+export function validateFlashcard(value: unknown): FlashcardContent | null {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+  const { question, answer } = value as Record<string, unknown>;
+  if (typeof question !== 'string' || typeof answer !== 'string') {
+    return null;
+  }
+  const card = { question: question.trim(), answer: answer.trim() };
+  if (!card.question || !card.answer || card.question.length > MAX_QUESTION_LENGTH || card.answer.length > MAX_ANSWER_LENGTH) {
+    return null;
+  }
+  return card;
+}
+
+/**
+ * Parse the model's reply into cards. Invalid cards are dropped; a reply without any
+ * valid card is an error.
+ */
+export function parseFlashcards(output: string): FlashcardContent[] {
+  const cards = parseJsonArray(output).map(validateFlashcard).filter((card): card is FlashcardContent => card !== null);
+  if (cards.length === 0) {
+    throw new PromptFormatError('Response contains no valid flashcards');
+  }
+  return cards;
+}
+
+/**
+ * Generate up to `count` cards for a lecture, spread across sections of long lectures
+ */
+export async function generateFlashcards(ai: AiProvider, model: string, text: string, count: number): Promise<FlashcardContent[]> {
+  const cards: FlashcardContent[] = [];
+  for (const section of planStudySections(text, count, MAX_GENERATION_SECTIONS)) {
+    const prompt = buildFlashcardPrompt(section.text, section.count);
+    cards.push(...await runStructuredPrompt(ai, model, prompt, (output) => parseFlashcards(output).slice(0, section.count)));
+  }
+  return cards;
+}
+
+/**
+ * Schedule for a new card: due immediately
+ */
+export function initialSchedule(now: Date): ReviewSchedule {
+  return { easeFactor: INITIAL_EASE_FACTOR, intervalDays: 0, repetitions: 0, dueAt: now.toISOString() };
+}
+
+/**
+ * Apply an SM-2 review. `grade` is 0-5: below 3 the card is relearned from a one-day
+ * interval, otherwise the interval grows 1 → 6 → previous × ease factor. The ease
+ * factor moves with every grade and never drops below 1.3.
+ */
+export function scheduleReview(schedule: ReviewSchedule, grade: number, now: Date): ReviewSchedule {
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    schedule.easeFactor + (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02))
+  );
+
+  let repetitions: number;
+  let intervalDays: number;
+  if (grade < PASSING_GRADE) {
+    repetitions = 0;
+    intervalDays = 1;
+  } else {
+    repetitions = schedule.repetitions + 1;
+    intervalDays = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(schedule.intervalDays * schedule.easeFactor);
+  }
+
+  return {
+    easeFactor: Math.round(easeFactor * 100) / 100,
+    intervalDays,
+    repetitions,
+    dueAt: new Date(now.getTime() + intervalDays * DAY_MS).toISOString(),
+  };
+}
@@ -0,0 +1,89 @@
+// Study groups: an instructor's shared lecture library. Members are invited by email, and every
+// member can read, study and chat with the group's lectures (each in their own private threads).
+// A group can pool its members' rate-limit quotas so busy students can draw on the whole group's.
+
+export type GroupRole = 'instructor' | 'student';
+
+export const GROUP_ROLES: GroupRole[] = ['instructor', 'student'];
+
+export const MAX_GROUP_NAME_LENGTH = 100;
+export const MAX_GROUP_MEMBERS = 500;
+export const GROUP_INVITATION_DAYS = 14;
+
+export interface GroupSettings {
+  name: string;
+  pooledQuotas: boolean;
+}
+
+export interface RateLimitPool {
+  groupId: string;
+  memberCount: number;
+}
+
+/**
+ * Validate a group create (all fields required except pooledQuotas) or update (any subset) body
+ */
+export function parseGroupSettings(body: unknown, partial: boolean): { settings: Partial<GroupSettings>; error?: undefined } | { settings?: undefined; error: string } {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { error: 'Request body must be a JSON object' };
+  }
+  const { name, pooledQuotas } = body as { name?: unknown; pooledQuotas?: unknown };
+  const settings: Partial<GroupSettings> = {};
+
+  if (name !== undefined || !partial) {
+    if (typeof name !== 'string' || !name.trim()) {
+      return { error: 'name must be a non-empty string' };
+    }
+    if (name.trim().length > MAX_GROUP_NAME_LENGTH) {
+      return { error: `name must be at most ${MAX_GROUP_NAME_LENGTH} characters` };
+    }
+    settings.name = name.trim();
+  }
+  if (pooledQuotas !== undefined) {
+    if (typeof pooledQuotas !== 'boolean') {
+      return { error: 'pooledQuotas must be a boolean' };
+    }
+    settings.pooledQuotas = pooledQuotas;
+  }
+  return { settings };
+}
+
+/**
+ * The user's role in a group, or null when they are not a member
+ */
+export async function getGroupRole(db: D1Database, userId: string, groupId: string): Promise<GroupRole | null> {
+  const row = await db.prepare(
+    'SELECT role FROM group_members WHERE group_id = ? AND user_id = ?'
+  ).bind(groupId, userId).first<{ role: GroupRole }>();
+  return row?.role ?? null;
+}
+
+/**
+ * The group whose pooled quota covers the user's requests on a lecture: a group with pooling on
+ * that the user belongs to and the lecture is in (the largest, if several). Null means the user's
+ * own quota applies.
+ */
+export async function findRateLimitPool(db: D1Database, userId: string, lectureId: string): Promise<RateLimitPool | null> {
+  const row = await db.prepare(
+    `SELECT g.id AS group_id, (SELECT COUNT(*) FROM group_members c WHERE c.group_id = g.id) AS member_count
+    FROM study_groups g
+    JOIN group_members m ON m.group_id = g.id AND m.user_id = ?
+    JOIN group_lectures l ON l.group_id = g.id AND l.lecture_id = ?
+    WHERE g.pooled_quotas = 1
+    ORDER BY member_count DESC, g.id LIMIT 1`
+  ).bind(userId, lectureId).first<{ group_id: string; member_count: number }>();
+  return row ? { groupId: row.group_id, memberCount: row.member_count } : null;
+}
+
+/**
+ * Statements deleting a group with its members, invitations and library (the lectures themselves
+ * stay with the members who added them)
+ */
+export function deleteGroupStatements(db: D1Database, groupId: string): D1PreparedStatement[] {
+  return [
+    db.prepare('DELETE FROM group_lectures WHERE group_id = ?').bind(groupId),
+    db.prepare('DELETE FROM group_invitations WHERE group_id = ?').bind(groupId),
+    db.prepare('DELETE FROM group_members WHERE group_id = ?').bind(groupId),
+    db.prepare('DELETE FROM study_groups WHERE id = ?').bind(groupId),
+  ];
+}
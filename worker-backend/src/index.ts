@@ -10,20 +10,33 @@
  *
  * Learn more at https://developers.cloudflare.com/workers/
  */
-import { LectureMemory } from './LectureMemory';
+import { LectureMemory, MEMBER_HEADER } from './LectureMemory';
 import { RateLimiter } from './RateLimiter';
+import { JobRunner } from './JobRunner';
+import { MultiLectureChat } from './MultiLectureChat';
 import { hashPassword } from './auth';
 import { validateSession } from './auth';
-
-interface Env {
-  AI: any;
-  LECTURE_MEMORY: DurableObjectNamespace;
-  RATE_LIMITER: DurableObjectNamespace;
-  lecturelens_db: D1Database;
-  GOOGLE_CLIENT_ID: string;
-}
-
-export { LectureMemory, RateLimiter };
+import { DEFAULT_SUMMARY_OPTIONS, PROMPT_VERSIONS, StudyTask, parseSummaryOptions, runStudyTask, summaryOptionsKey } from './prompts';
+import { withIdleTimeout } from './sse';
+import { computeArtifactKey, getLectureArtifact, putLectureArtifact } from './artifacts';
+import { CONCEPTS_JSON_PROMPT_VERSION, extractStructuredConcepts } from './concepts';
+import { guidanceVariant, loadLectureSettings, parseLectureSettings, tutorGuidance } from './tutor';
+import { AI_MODELS, AiEnv, CHAT_TIMEOUT_MS, DEFAULT_AI_MODEL, availableModels, createAiProvider, parseModelSelection } from './ai';
+import { ExtractedLecture, ExtractionError, findExtractor, getFileExtension, supportedExtensions } from './extractors';
+import { deleteLectureFile, getLectureFile, putLectureFile } from './files';
+import { EXPORT_FORMATS, ExportFormat, LectureExport, buildAccountExport, loadLectureMaterials, safeFileName } from './export';
+import { parseCourseName, parseLectureMetadataUpdate, parseLectureSort } from './metadata';
+import { DEFAULT_FLASHCARD_COUNT, MAX_ANSWER_LENGTH, MAX_FLASHCARD_COUNT, MAX_QUESTION_LENGTH, generateFlashcards, initialSchedule, scheduleReview } from './flashcards';
+import { DEFAULT_QUIZ_QUESTIONS, MAX_QUIZ_QUESTIONS, QUESTION_TYPES, QUIZ_DIFFICULTIES, QuestionType, QuizDifficulty, QuizQuestion, generateQuiz, gradeQuiz, toPublicQuestions } from './quiz';
+import { DEFAULT_SHARE_LINK_DAYS, LECTURE_ACCESS, LECTURE_OWNER_JOIN, LectureAccess, LectureRole, MAX_SHARE_LINK_DAYS, SHARED_ROLES, SHARED_THREAD_ID, SharedRole, deleteLecturePermissionsStatements, getLectureAccess, grantStatement, isProxiedLectureRoute, lectureAccessCondition, lectureRouteAction, ownerPermissionStatement, roleAllows } from './permissions';
+import { GROUP_INVITATION_DAYS, GROUP_ROLES, GroupRole, MAX_GROUP_MEMBERS, RateLimitPool, deleteGroupStatements, findRateLimitPool, getGroupRole, parseGroupSettings } from './groups';
+import { DEFAULT_SEARCH_LIMIT, MAX_SEARCH_LIMIT, deleteLectureSearchStatement, indexLectureForSearch, parseSearchQuery, searchLectures } from './search';
+
+// Bindings come from wrangler.jsonc (see worker-configuration.d.ts, regenerated with `npm run cf-typegen`),
+// the optional AI vars and secrets from ai.ts
+interface Env extends Cloudflare.Env, AiEnv {}
+
+export { LectureMemory, RateLimiter, JobRunner, MultiLectureChat };
 
 // Rate limiting types and helper functions
 interface RateLimitStatus {
@@ -36,15 +49,17 @@ interface RateLimitStatus {
 
 /**
  * Check rate limit for a user/identifier on a specific endpoint
- * @param identifier - userId for authenticated endpoints, IP for auth endpoints
- * @param endpoint - endpoint name (chat, summarize, extract, upload, signup, login)
+ * @param identifier - userId for authenticated endpoints, IP for auth endpoints, group:<id> for pooled quotas
+ * @param endpoint - endpoint name (chat, summarize, extract, flashcards, quiz, grade, upload, signup, login)
  * @param env - Worker environment with bindings
+ * @param poolSize - number of users sharing the quota (the limit is multiplied by it)
  * @returns Rate limit status
  */
 async function checkRateLimit(
   identifier: string,
   endpoint: string,
-  env: Env
+  env: Env,
+  poolSize = 1
 ): Promise<RateLimitStatus> {
   try {
     // Get or create RateLimiter DO for this identifier
@@ -53,7 +68,7 @@ async function checkRateLimit(
 
     // Call the DO to check and increment in one operation
     const response = await stub.fetch(
-      `https://rate-limiter/check-and-increment?endpoint=${endpoint}`,
+      `https://rate-limiter/check-and-increment?endpoint=${endpoint}${poolSize > 1 ? `&poolSize=${poolSize}` : ''}`,
       { method: 'POST' }
     );
 
@@ -76,6 +91,27 @@ async function checkRateLimit(
   }
 }
 
+/**
+ * Check the rate limit of a request on a lecture. Requests on lectures of a study group with
+ * pooled quotas draw on the group's shared quota instead of the user's own.
+ */
+async function checkLectureRateLimit(
+  userId: string,
+  lectureId: string,
+  endpoint: string,
+  env: Env
+): Promise<RateLimitStatus> {
+  let pool: RateLimitPool | null = null;
+  try {
+    pool = await findRateLimitPool(env.lecturelens_db, userId, lectureId);
+  } catch (error) {
+    console.error('Rate limit pool lookup failed:', error);
+  }
+  return pool
+    ? checkRateLimit(`group:${pool.groupId}`, endpoint, env, pool.memberCount)
+    : checkRateLimit(userId, endpoint, env);
+}
+
 /**
  * Create a 429 response with rate limit information
  */
@@ -103,11 +139,260 @@ function createRateLimitResponse(status: RateLimitStatus): Response {
   return addCorsHeaders(response);
 }
 
+/**
+ * Create a 403 response for a lecture the user has no role on, or whose role does not allow the request
+ */
+function forbiddenLectureResponse(access: LectureAccess | null): Response {
+  const error = access
+    ? `Forbidden: Your role on this lecture (${access.role}) does not allow this.`
+    : 'Forbidden: You do not have access to this lecture.';
+  return addCorsHeaders(new Response(JSON.stringify({ error }), {
+    status: 403,
+    headers: { 'Content-Type': 'application/json' },
+  }));
+}
+
+// Deleted lectures stay in the trash and can be restored for this long before they are purged
+const TRASH_RETENTION_DAYS = 30;
+const TRASH_RETENTION_MS = TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+// Lectures one hourly cron run purges: each takes up to five subrequests (D1, the Durable Object
+// and R2), which must fit in the 50 a Worker invocation may make on the free plan
+const MAX_PURGES_PER_RUN = 8;
+
+/**
+ * Permanently delete a user's lecture. The lecture's Durable Object storage and original
+ * file are destroyed first, unless another user still links to the lecture, so a failure
+ * leaves the row in place to be retried.
+ */
+async function purgeLecture(env: Env, userId: string, lectureId: string): Promise<void> {
+  const otherLink = await env.lecturelens_db.prepare(
+    'SELECT user_id FROM user_lectures WHERE lecture_id = ? AND user_id != ? LIMIT 1'
+  ).bind(lectureId, userId).first();
+
+  const stub = env.LECTURE_MEMORY.get(env.LECTURE_MEMORY.idFromName(lectureId));
+  if (!otherLink) {
+    // Also destroys the jobs and cross-lecture chats derived from the lecture
+    const response = await stub.fetch('https://do-placeholder/destroy', { method: 'POST' });
+    if (!response.ok) {
+      throw new Error(`Failed to destroy lecture storage: ${await response.text()}`);
+    }
+    await deleteLectureFile(env.LECTURE_FILES, lectureId);
+    await deleteLectureSearchStatement(env.lecturelens_db, lectureId).run();
+  } else {
+    const response = await stub.fetch('https://do-placeholder/links/destroy', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ userId }),
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to destroy the lecture's jobs and chats: ${await response.text()}`);
+    }
+  }
+
+  // The last copy of the lecture takes every user's rows with it (cards and quizzes that members
+  // generated from it included); otherwise only this user's rows go
+  const rows = otherLink ? 'user_id = ? AND lecture_id = ?' : 'lecture_id = ?';
+  const bindings = otherLink ? [userId, lectureId] : [lectureId];
+  await env.lecturelens_db.batch([
+    env.lecturelens_db.prepare(`DELETE FROM lecture_tags WHERE ${rows}`).bind(...bindings),
+    env.lecturelens_db.prepare(`DELETE FROM flashcards WHERE ${rows}`).bind(...bindings),
+    env.lecturelens_db.prepare(`DELETE FROM quiz_attempts WHERE quiz_id IN (SELECT id FROM quizzes WHERE ${rows})`).bind(...bindings),
+    env.lecturelens_db.prepare(`DELETE FROM quizzes WHERE ${rows}`).bind(...bindings),
+    env.lecturelens_db.prepare('DELETE FROM user_lectures WHERE user_id = ? AND lecture_id = ?').bind(userId, lectureId),
+    ...deleteLecturePermissionsStatements(env.lecturelens_db, otherLink ? userId : null, lectureId),
+    otherLink
+      ? env.lecturelens_db.prepare('DELETE FROM group_lectures WHERE lecture_id = ? AND added_by = ?').bind(lectureId, userId)
+      : env.lecturelens_db.prepare('DELETE FROM group_lectures WHERE lecture_id = ?').bind(lectureId),
+  ]);
+}
+
+/**
+ * Move a lecture to the trash; it is purged once the retention window has passed
+ */
+async function trashLecture(env: Env, userId: string, lectureId: string): Promise<{ deletedAt: string; purgeAt: string }> {
+  const deletedAt = new Date();
+  await env.lecturelens_db.prepare(
+    'UPDATE user_lectures SET deleted_at = ? WHERE user_id = ? AND lecture_id = ?'
+  ).bind(deletedAt.toISOString(), userId, lectureId).run();
+
+  return {
+    deletedAt: deletedAt.toISOString(),
+    purgeAt: new Date(deletedAt.getTime() + TRASH_RETENTION_MS).toISOString()
+  };
+}
+
+interface LectureRow {
+  lecture_id: string;
+  lecture_name: string;
+  course_id: string | null;
+  course: string | null; // Course name
+  term: string | null;
+  description: string | null;
+  created_at: string;
+  updated_at: string | null;
+}
+
+interface LectureFilters {
+  courseId?: string | null; // null selects lectures without a course ("Unsorted")
+  course?: string | null; // Course name, case-insensitive
+  term?: string | null;
+  tag?: string | null;
+}
+
+const LECTURE_SELECT = `SELECT l.lecture_id, l.lecture_name, l.course_id, c.name AS course, l.term, l.description, l.created_at, l.updated_at
+  FROM user_lectures l LEFT JOIN courses c ON c.id = l.course_id`;
+
+/**
+ * List a user's lectures (excluding the trash) with their tags
+ */
+async function listLectures(env: Env, userId: string, filters: LectureFilters, orderBy: string): Promise<(LectureRow & { tags: string[] })[]> {
+  let query = `${LECTURE_SELECT} WHERE l.user_id = ? AND l.deleted_at IS NULL`;
+  const params: string[] = [userId];
+  if (filters.courseId === null) {
+    query += ' AND l.course_id IS NULL';
+  } else if (filters.courseId) {
+    query += ' AND l.course_id = ?';
+    params.push(filters.courseId);
+  }
+  if (filters.course) {
+    query += ' AND c.name = ? COLLATE NOCASE';
+    params.push(filters.course);
+  }
+  if (filters.term) {
+    query += ' AND l.term = ? COLLATE NOCASE';
+    params.push(filters.term);
+  }
+  if (filters.tag) {
+    query += ' AND l.lecture_id IN (SELECT lecture_id FROM lecture_tags WHERE user_id = ? AND tag = ? COLLATE NOCASE)';
+    params.push(userId, filters.tag);
+  }
+  query += ` ORDER BY ${orderBy}`;
+
+  const {results} = await env.lecturelens_db.prepare(query).bind(...params).all<LectureRow>();
+  return withLectureTags(env, userId, results);
+}
+
+/**
+ * Attach each lecture's tags (one query for the whole list)
+ */
+async function withLectureTags(env: Env, userId: string, lectures: LectureRow[]): Promise<(LectureRow & { tags: string[] })[]> {
+  const {results} = await env.lecturelens_db.prepare(
+    'SELECT lecture_id, tag FROM lecture_tags WHERE user_id = ? ORDER BY tag COLLATE NOCASE'
+  ).bind(userId).all<{ lecture_id: string; tag: string }>();
+
+  const tagsByLecture = new Map<string, string[]>();
+  for (const {lecture_id, tag} of results) {
+    tagsByLecture.set(lecture_id, [...(tagsByLecture.get(lecture_id) || []), tag]);
+  }
+  return lectures.map((lecture) => ({ ...lecture, tags: tagsByLecture.get(lecture.lecture_id) || [] }));
+}
+
+// Output formats of /api/extract-concepts
+const CONCEPT_FORMATS = ['markdown', 'json'];
+
+// Most lectures one account export reads: one Durable Object request each, which must fit in the
+// 50 subrequests a Worker request may make on the free plan next to the session and rate-limit checks
+const MAX_EXPORT_LECTURES = 40;
+// Lecture Durable Objects read at once while exporting (a Worker keeps at most 6 connections open)
+const EXPORT_BATCH_SIZE = 6;
+
+/**
+ * Gather the cached study materials, flashcards and chat threads of lectures for export
+ * (a group member's own threads when `memberId` is given)
+ */
+async function loadLectureExports(env: Env, userId: string, lectures: (LectureRow & { tags: string[] })[], memberId?: string): Promise<LectureExport[]> {
+  const query = lectures.length === 1
+    ? env.lecturelens_db.prepare('SELECT id, lecture_id, question, answer FROM flashcards WHERE user_id = ? AND lecture_id = ? ORDER BY created_at, rowid').bind(userId, lectures[0].lecture_id)
+    : env.lecturelens_db.prepare('SELECT id, lecture_id, question, answer FROM flashcards WHERE user_id = ? ORDER BY created_at, rowid').bind(userId);
+  const {results: cards} = await query.all<{ id: string; lecture_id: string; question: string; answer: string }>();
+
+  const exports: LectureExport[] = [];
+  for (let i = 0; i < lectures.length; i += EXPORT_BATCH_SIZE) {
+    exports.push(...await Promise.all(lectures.slice(i, i + EXPORT_BATCH_SIZE).map(async (lecture) => ({
+      lectureId: lecture.lecture_id,
+      lectureName: lecture.lecture_name,
+      course: lecture.course,
+      tags: lecture.tags,
+      flashcards: cards.filter((card) => card.lecture_id === lecture.lecture_id).map(({id, question, answer}) => ({ id, question, answer })),
+      ...await loadLectureMaterials(env.LECTURE_MEMORY.get(env.LECTURE_MEMORY.idFromName(lecture.lecture_id)), memberId),
+    }))));
+  }
+  return exports;
+}
+
+const FLASHCARD_COLUMNS = 'id, lecture_id, question, answer, ease_factor, interval_days, repetitions, due_at, last_reviewed_at, created_at, updated_at';
+
+// Most lectures a single cross-lecture chat can draw on
+const MAX_CHAT_LECTURES = 20;
+
+interface ChatScope {
+  scopeKey: string; // Names the conversation: the same course or lecture set continues the same history
+  lectures: { lectureId: string; lectureName: string }[];
+}
+
+/**
+ * Resolve the lectures for a cross-lecture chat from a course ID ("unsorted" for lectures
+ * without a course) or a list of lecture IDs, all of which the user must be allowed to chat about
+ */
+async function resolveChatScope(env: Env, userId: string, courseId: unknown, lectureIds: unknown): Promise<{ scope: ChatScope; error?: undefined; status?: undefined } | { scope?: undefined; error: string; status: number }> {
+  if ((courseId === undefined) === (lectureIds === undefined)) {
+    return { error: 'Provide either courseId or lectureIds', status: 400 };
+  }
+
+  if (courseId !== undefined) {
+    if (typeof courseId !== 'string' || !courseId) {
+      return { error: 'courseId must be a non-empty string', status: 400 };
+    }
+    if (courseId !== 'unsorted') {
+      const course = await env.lecturelens_db.prepare('SELECT id FROM courses WHERE id = ? AND user_id = ?').bind(courseId, userId).first();
+      if (!course) {
+        return { error: 'Course not found', status: 404 };
+      }
+    }
+    const lectures = await listLectures(env, userId, { courseId: courseId === 'unsorted' ? null : courseId }, 'l.created_at ASC');
+    if (lectures.length > MAX_CHAT_LECTURES) {
+      return { error: `A course chat can use at most ${MAX_CHAT_LECTURES} lectures; select lectures with lectureIds instead`, status: 400 };
+    }
+    return {
+      scope: {
+        scopeKey: `course:${courseId}`,
+        lectures: lectures.map((lecture) => ({ lectureId: lecture.lecture_id, lectureName: lecture.lecture_name })),
+      },
+    };
+  }
+
+  if (!Array.isArray(lectureIds) || lectureIds.length === 0 || lectureIds.some((id) => typeof id !== 'string' || !id)) {
+    return { error: 'lectureIds must be a non-empty array of lecture IDs', status: 400 };
+  }
+  const ids = [...new Set(lectureIds as string[])];
+  if (ids.length > MAX_CHAT_LECTURES) {
+    return { error: `A chat can use at most ${MAX_CHAT_LECTURES} lectures`, status: 400 };
+  }
+
+  const {results} = await env.lecturelens_db.prepare(
+    `SELECT a.lecture_id, a.lecture_name, a.role FROM ${LECTURE_ACCESS} a
+    WHERE a.user_id = ? AND a.lecture_id IN (${ids.map(() => '?').join(', ')})`
+  ).bind(userId, ...ids).all<{ lecture_id: string; lecture_name: string; role: LectureRole }>();
+  // Viewers may read a lecture but not chat about it
+  const names = new Map(results.filter((row) => roleAllows(row.role, 'chat')).map((row) => [row.lecture_id, row.lecture_name]));
+  if (names.size !== ids.length) {
+    return { error: 'Forbidden: You cannot chat about one or more of these lectures.', status: 403 };
+  }
+
+  // Keep the order the lectures were requested in
+  return {
+    scope: {
+      scopeKey: `lectures:${[...ids].sort().join(',')}`,
+      lectures: ids.map((id) => ({ lectureId: id, lectureName: names.get(id)! })),
+    },
+  };
+}
+
 // Helper function to add CORS headers to any response
 function addCorsHeaders(response: Response): Response {
   const newHeaders = new Headers(response.headers);
   newHeaders.set('Access-Control-Allow-Origin', '*');
-  newHeaders.set('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+  newHeaders.set('Access-Control-Allow-Methods', 'GET, POST, PUT, PATCH, DELETE, OPTIONS');
   newHeaders.set('Access-Control-Allow-Headers', 'Content-Type, Authorization');
   
   return new Response(response.body, {
@@ -122,9 +407,15 @@ export default {
     const url = new URL(request.url);
     const path = url.pathname;
 
-    // CONTEXTUAL CHAT ENDPOINT
-    // Handles requests like /api/chat/lecture-uuid-123
-    if (path.startsWith('/api/chat/')) {
+    // Handle OPTIONS request (preflight checks) before any route can claim it
+    if (request.method === 'OPTIONS'){
+      return addCorsHeaders(new Response(null));
+    }
+
+    // CROSS-LECTURE CHAT ENDPOINT
+    // POST /api/chat/multi with {message, courseId | lectureIds, model?} answers from passages across the lectures
+    // GET/DELETE /api/chat/multi/history?courseId= (or ?lectureIds=a,b) reads or clears that conversation
+    if (path === '/api/chat/multi' || path === '/api/chat/multi/history') {
       // --- VALIDATE SESSION ---
       const userId = await validateSession(request, env.lecturelens_db);
       if (!userId){
@@ -134,19 +425,123 @@ export default {
         }));
       }
 
+      const isChat = path === '/api/chat/multi';
+      if (isChat ? request.method !== 'POST' : request.method !== 'GET' && request.method !== 'DELETE') {
+        return addCorsHeaders(new Response('Not Found.', { status: 404 }));
+      }
+
       // --- RATE LIMITING ---
-      const rateLimitStatus = await checkRateLimit(userId, 'chat', env);
-      if (!rateLimitStatus.allowed) {
-        console.log('Rate limit exceeded for chat', { userId, remaining: rateLimitStatus.remaining });
-        return createRateLimitResponse(rateLimitStatus);
+      if (isChat) {
+        const rateLimitStatus = await checkRateLimit(userId, 'chat', env);
+        if (!rateLimitStatus.allowed) {
+          console.log('Rate limit exceeded for chat', { userId, remaining: rateLimitStatus.remaining });
+          return createRateLimitResponse(rateLimitStatus);
+        }
       }
 
-      // --- AUTHORIZATION (Ownership Check) ---
+      try {
+        let message: unknown;
+        let courseId: unknown;
+        let lectureIds: unknown;
+        let model: string | undefined;
+        if (isChat) {
+          const body = await request.json().catch(() => null) as { message?: unknown; courseId?: unknown; lectureIds?: unknown; model?: unknown } | null;
+          ({ message, courseId, lectureIds } = body || {});
+          if (typeof message !== 'string' || !message.trim()) {
+            return addCorsHeaders(new Response(JSON.stringify({ error: 'Bad Request: message is required' }), { 
+              status: 400,
+              headers: { 'Content-Type': 'application/json' }
+            }));
+          }
+          const selection = parseModelSelection(body?.model, env);
+          if (!selection.model) {
+            return addCorsHeaders(new Response(JSON.stringify({ error: selection.error }), {
+              status: 400,
+              headers: { 'Content-Type': 'application/json' }
+            }));
+          }
+          model = selection.model;
+        } else {
+          courseId = url.searchParams.get('courseId') ?? undefined;
+          lectureIds = url.searchParams.get('lectureIds')?.split(',').filter(Boolean);
+        }
+
+        // --- AUTHORIZATION (Ownership Check) ---
+        const { scope, error, status } = await resolveChatScope(env, userId, courseId, lectureIds);
+        if (!scope) {
+          return addCorsHeaders(new Response(JSON.stringify({ error }), { 
+            status,
+            headers: { 'Content-Type': 'application/json' }
+          }));
+        }
+        if (isChat && scope.lectures.length === 0) {
+          return addCorsHeaders(new Response(JSON.stringify({ error: 'This course has no lectures to chat about' }), { 
+            status: 400,
+            headers: { 'Content-Type': 'application/json' }
+          }));
+        }
+
+        // One conversation per user and course or lecture set
+        const scopeName = `${userId}:${scope.scopeKey}`;
+        const stub = env.MULTI_LECTURE_CHAT.get(env.MULTI_LECTURE_CHAT.idFromName(scopeName));
+        if (!isChat) {
+          const historyUrl = new URL(request.url);
+          historyUrl.pathname = '/history';
+          return addCorsHeaders(await stub.fetch(historyUrl.toString(), { method: request.method }));
+        }
+
+        // Add a timeout to prevent infinite hangs; the answer waits on every lecture's retrieval
+        let timeoutId: number | null = null;
+        const timeoutPromise = new Promise<Response>((_, reject) => {
+          timeoutId = setTimeout(() => reject(new Error('DO request timeout after 30s')), CHAT_TIMEOUT_MS);
+        });
+        try {
+          const doResponse = await Promise.race([
+            stub.fetch('https://do-placeholder/chat', {
+              method: 'POST',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify({ message: (message as string).trim(), model, lectures: scope.lectures, link: { type: 'chat', name: scopeName, userId } }),
+            }),
+            timeoutPromise
+          ]);
+          return addCorsHeaders(doResponse);
+        } finally {
+          clearTimeout(timeoutId);
+        }
+      } catch (error) {
+        console.error('Error in cross-lecture chat:', error);
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return addCorsHeaders(new Response(JSON.stringify({
+          error: 'Failed to process chat request',
+          details: errorMessage
+        }), {
+          status: 500,
+          headers: { 'Content-Type': 'application/json' }
+        }));
+      }
+    }
+
+    // CONTEXTUAL CHAT ENDPOINT
+    // Handles requests like /api/chat/lecture-uuid-123
+    if (path.startsWith('/api/chat/')) {
+      // --- VALIDATE SESSION ---
+      const userId = await validateSession(request, env.lecturelens_db);
+      if (!userId){
+        return addCorsHeaders(new Response(JSON.stringify({ error: 'Unauthorized' }), { 
+          status: 401,
+          headers: { 'Content-Type': 'application/json' }
+        }));
+      }
+
+      // --- AUTHORIZATION (Permission Check) ---
       const segments = path.split('/').filter(Boolean);
       // Paths we handle here:
       // - /api/chat/:lectureId
       // - /api/chat/:lectureId/raw-lecture-text
-      // - /api/chat/:lectureId/<other-do-routes>
+      // - /api/chat/:lectureId/passage?start=&end=
+      // - /api/chat/:lectureId?stream=1 (or Accept: text/event-stream) for SSE answers
+      // - /api/chat/:lectureId/history[/:messageId] (GET to page, DELETE to clear or remove)
+      // - /api/chat/:lectureId/threads[/:threadId[/history[/:messageId]]] for separate conversations
       // So the lectureId is the segment immediately after "chat", not the last segment.
       const chatIndex = segments.indexOf('chat');
       const lectureId = chatIndex >= 0 ? segments[chatIndex + 1] : undefined;
@@ -159,18 +554,6 @@ export default {
         );
       }
 
-      const ownership = await env.lecturelens_db.prepare('SELECT user_id FROM user_lectures WHERE user_id = ? AND lecture_id = ?').bind(userId, lectureId).first();
-      if (!ownership){
-        return addCorsHeaders(new Response(JSON.stringify({ error: 'Forbidden: You do not have access to this lecture.' }), { 
-          status: 403,
-          headers: { 'Content-Type': 'application/json' }
-        }));
-      }
-
-      // Get the Durable Object ID and stub using the lectureId
-      const id = env.LECTURE_MEMORY.idFromName(lectureId);
-      const stub = env.LECTURE_MEMORY.get(id);
-
       // Construct a new URL to pass to the DO, stripping the /api/chat/ prefix
       const newUrl = new URL(request.url);
       const remainingPath = newUrl.pathname.substring(`/api/chat/${lectureId}`.length);
@@ -182,21 +565,63 @@ export default {
         newUrl.pathname = remainingPath;
       }
 
+      // Storage routes (/lecture, /artifacts, /settings, /links, /destroy...) are the Worker's own
+      if (!isProxiedLectureRoute(newUrl.pathname)) {
+        return addCorsHeaders(new Response('Not Found.', { status: 404 }));
+      }
+
+      // Other users only reach the lecture text and its shared thread, or their own chat for group members
+      const access = await getLectureAccess(env.lecturelens_db, userId, lectureId);
+      if (!roleAllows(access?.role, lectureRouteAction(request.method, newUrl.pathname, access?.role))){
+        return forbiddenLectureResponse(access);
+      }
+
+      // --- RATE LIMITING ---
+      // Only messages count against the chat quota; reads and history management do not
+      if (request.method === 'POST') {
+        const rateLimitStatus = await checkLectureRateLimit(userId, lectureId, 'chat', env);
+        if (!rateLimitStatus.allowed) {
+          console.log('Rate limit exceeded for chat', { userId, remaining: rateLimitStatus.remaining });
+          return createRateLimitResponse(rateLimitStatus);
+        }
+      }
+
+      // Get the Durable Object ID and stub using the lectureId
+      const id = env.LECTURE_MEMORY.idFromName(lectureId);
+      const stub = env.LECTURE_MEMORY.get(id);
+
       // Create a new Request object with the modified URL
       // Clone the request to ensure the body stream can be read
       const newRequest = new Request(newUrl.toString(), request.clone());
+      // Group members chat in threads of their own; only the Worker may say whose
+      newRequest.headers.delete(MEMBER_HEADER);
+      if (access!.role === 'member') {
+        newRequest.headers.set(MEMBER_HEADER, userId);
+      }
 
       // Forward the request to the unique Durable Object instance
       try {
         // Add a timeout to prevent infinite hangs (30 seconds)
+        // For streamed answers this only bounds the wait for the response headers
+        let timeoutId: number | null = null;
         const timeoutPromise = new Promise<Response>((_, reject) => {
-          setTimeout(() => reject(new Error('DO request timeout after 30s')), 30000);
+          timeoutId = setTimeout(() => reject(new Error('DO request timeout after 30s')), CHAT_TIMEOUT_MS);
         });
         
-        const doResponse = await Promise.race([
-          stub.fetch(newRequest),
-          timeoutPromise
-        ]);
+        let doResponse: Response;
+        try {
+          doResponse = await Promise.race([
+            stub.fetch(newRequest),
+            timeoutPromise
+          ]);
+        } finally {
+          clearTimeout(timeoutId);
+        }
+
+        // Streamed answers can run longer than 30s in total, so time out only when the stream stalls
+        if (doResponse.body && (doResponse.headers.get('Content-Type') || '').includes('text/event-stream')) {
+          return addCorsHeaders(new Response(withIdleTimeout(doResponse.body, CHAT_TIMEOUT_MS), doResponse));
+        }
         
         return addCorsHeaders(doResponse);
       } catch (error) {
@@ -212,8 +637,10 @@ export default {
       }
     }
 
-    // SUMMARIZATION ENDPOINT
-    if (path === '/api/summarize' && request.method === 'POST') {
+    // CACHED SUMMARY / CONCEPTS ENDPOINTS
+    // GET /api/summarize?lectureId= and GET /api/extract-concepts?lectureId=&format= return the latest
+    // cached artifact without consuming rate-limit quota
+    if ((path === '/api/summarize' || path === '/api/extract-concepts') && request.method === 'GET') {
       // --- VALIDATE SESSION ---
       const userId = await validateSession(request, env.lecturelens_db);
       if (!userId){
@@ -223,24 +650,75 @@ export default {
         }));
       }
 
-      // --- RATE LIMITING ---
-      const rateLimitStatus = await checkRateLimit(userId, 'summarize', env);
-      if (!rateLimitStatus.allowed) {
-        console.log('Rate limit exceeded for summarize', { userId, remaining: rateLimitStatus.remaining });
-        return createRateLimitResponse(rateLimitStatus);
+      const lectureId = url.searchParams.get('lectureId');
+      if (!lectureId) {
+        return addCorsHeaders(new Response(JSON.stringify({ error: 'Missing "lectureId" query parameter' }), { 
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }));
+      }
+
+      // --- AUTHORIZATION (Permission Check) ---
+      const access = await getLectureAccess(env.lecturelens_db, userId, lectureId);
+      if (!roleAllows(access?.role, 'read')){
+        return forbiddenLectureResponse(access);
+      }
+
+      const format = url.searchParams.get('format') || 'markdown';
+      if (path === '/api/extract-concepts' && !CONCEPT_FORMATS.includes(format)) {
+        return addCorsHeaders(new Response(JSON.stringify({ error: `"format" must be one of: ${CONCEPT_FORMATS.join(', ')}` }), { 
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }));
       }
 
       try {
-        // Parse request body to get text and lectureId
-        const { text, lectureId } = await request.json() as { text?: string, lectureId?: string };
+        const stub = env.LECTURE_MEMORY.get(env.LECTURE_MEMORY.idFromName(lectureId));
+        const kind = path === '/api/summarize' ? 'summary' : format === 'json' ? 'concepts_json' : 'concepts';
+        const artifact = await getLectureArtifact(stub, kind);
 
-        if (!text) {
-          return addCorsHeaders(new Response(JSON.stringify({ error: 'Missing "text" in request body' }), { 
-            status: 400,
+        if (!artifact) {
+          return addCorsHeaders(new Response(JSON.stringify({ error: `No cached ${kind} for this lecture` }), { 
+            status: 404,
             headers: { 'Content-Type': 'application/json' }
           }));
         }
 
+        const body = kind === 'summary'
+          ? { summary: artifact.content, options: artifact.options ?? DEFAULT_SUMMARY_OPTIONS, cached: true, generatedAt: artifact.createdAt }
+          : kind === 'concepts_json'
+            ? { coreConcepts: JSON.parse(artifact.content), format, cached: true, generatedAt: artifact.createdAt }
+            : { coreConcepts: artifact.content, format, cached: true, generatedAt: artifact.createdAt };
+        return addCorsHeaders(new Response(JSON.stringify(body), {
+          headers: { 'Content-Type': 'application/json' },
+        }));
+      } catch (error) {
+        console.error('Cached artifact error:', error);
+        return addCorsHeaders(new Response(JSON.stringify({ error: 'Failed to read cached result' }), { 
+          status: 500,
+          headers: { 'Content-Type': 'application/json' }
+        }));
+      }
+    }
+
+    // SUMMARIZATION ENDPOINT
+    // Optional "style", "length", "language" and "focus" select the summary variant (see SUMMARY_STYLES), "model" the AI model
+    // Served from the lecture's cache when the text, options, prompt version and model are unchanged (unless ?refresh=1)
+    if (path === '/api/summarize' && request.method === 'POST') {
+      // --- VALIDATE SESSION ---
+      const userId = await validateSession(request, env.lecturelens_db);
+      if (!userId){
+        return addCorsHeaders(new Response(JSON.stringify({ error: 'Unauthorized' }), { 
+          status: 401,
+          headers: { 'Content-Type': 'application/json' }
+        }));
+      }
+
+      try {
+        // Parse request body to get the lectureId and the summary options
+        const body = await request.json() as { lectureId?: string } & Record<string, unknown>;
+        const { lectureId } = body;
+
         if (!lectureId) {
           return addCorsHeaders(new Response(JSON.stringify({ error: 'Missing "lectureId" in request body' }), { 
             status: 400,
@@ -248,92 +726,73 @@ export default {
           }));
         }
 
-        // --- AUTHORIZATION (Ownership Check) ---
-        const ownership = await env.lecturelens_db.prepare('SELECT user_id FROM user_lectures WHERE user_id = ? AND lecture_id = ?').bind(userId, lectureId).first();
-        if (!ownership){
-          return addCorsHeaders(new Response(JSON.stringify({ error: 'Forbidden: You do not have access to this lecture.' }), { 
-            status: 403,
+        // --- AUTHORIZATION (Permission Check) ---
+        const access = await getLectureAccess(env.lecturelens_db, userId, lectureId);
+        if (!roleAllows(access?.role, 'study')){
+          return forbiddenLectureResponse(access);
+        }
+
+        const { options, error: optionsError } = parseSummaryOptions(body);
+        if (!options) {
+          return addCorsHeaders(new Response(JSON.stringify({ error: optionsError }), { 
+            status: 400,
             headers: { 'Content-Type': 'application/json' }
           }));
         }
 
-        const model = '@cf/meta/llama-3.3-70b-instruct-fp8-fast';
-
-        // For long documents, split into chunks and summarize each, then combine
-        const MAX_CHARS_PER_CHUNK = 12000; // ~3000 tokens per chunk
-        let summary: string;
-
-        if (text.length <= MAX_CHARS_PER_CHUNK) {
-          // Short document: summarize directly
-          const systemPrompt = "You are a helpful study assistant. Summarize the following lecture transcript into clear, structured key points. Use Markdown formatting for readability. Be thorough and cover ALL major topics discussed in the lecture.";
-          const userPrompt = `Lecture Transcript:\n\n${text}`;
-
-          const response = await env.AI.run(model, {
-            messages: [
-              { role: 'system', content: systemPrompt },
-              { role: 'user', content: userPrompt }
-            ],
-            max_tokens: 4096
-          });
-
-          summary = response.response;
-        } else {
-          // Long document: chunk → summarize each → combine summaries
-          const chunks: string[] = [];
-          const words = text.split(/\s+/);
-          let currentChunk = '';
-
-          for (const word of words) {
-            if ((currentChunk + ' ' + word).length > MAX_CHARS_PER_CHUNK) {
-              chunks.push(currentChunk.trim());
-              currentChunk = word;
-            } else {
-              currentChunk += ' ' + word;
-            }
-          }
-          if (currentChunk.trim()) {
-            chunks.push(currentChunk.trim());
-          }
-
-          console.log(`Summarizing long document: ${text.length} chars, ${chunks.length} chunks`);
-
-          // Summarize each chunk
-          const chunkSummaries: string[] = [];
-          for (let i = 0; i < chunks.length; i++) {
-            const chunkSystemPrompt = `You are a helpful study assistant. Summarize the following section (part ${i + 1} of ${chunks.length}) of a lecture transcript into clear, structured key points. Use Markdown formatting. Be thorough and cover all topics in this section.`;
-            const chunkUserPrompt = `Lecture Section:\n\n${chunks[i]}`;
-
-            const chunkResponse = await env.AI.run(model, {
-              messages: [
-                { role: 'system', content: chunkSystemPrompt },
-                { role: 'user', content: chunkUserPrompt }
-              ],
-              max_tokens: 2048
-            });
+        const { model, error: modelError } = parseModelSelection(body.model, env);
+        if (!model) {
+          return addCorsHeaders(new Response(JSON.stringify({ error: modelError }), { 
+            status: 400,
+            headers: { 'Content-Type': 'application/json' }
+          }));
+        }
 
-            chunkSummaries.push(chunkResponse.response);
+        // Summarize the stored lecture text, never text from the client: the summary is cached
+        // as the lecture's latest, which everyone with access to the lecture sees
+        const stub = env.LECTURE_MEMORY.get(env.LECTURE_MEMORY.idFromName(lectureId));
+        const rawLectureResponse = await stub.fetch("https://do-placeholder/raw-lecture-text");
+        if (!rawLectureResponse.ok) {
+          return addCorsHeaders(new Response(JSON.stringify({ error: 'No lecture text found' }), { 
+            status: 404,
+            headers: { 'Content-Type': 'application/json' }
+          }));
+        }
+        const { rawText: text } = await rawLectureResponse.json() as { rawText: string };
+
+        // --- CACHE LOOKUP ---
+        // The instructor's tutor settings apply too, except a language the request chose itself
+        const settings = await loadLectureSettings(stub);
+        const guidance = tutorGuidance(options.language ? { ...settings, language: null } : settings, 'summarize');
+        const cacheKey = await computeArtifactKey(text, PROMPT_VERSIONS.summarize, model, guidanceVariant(summaryOptionsKey(options), guidance));
+        if (url.searchParams.get('refresh') !== '1') {
+          const cached = await getLectureArtifact(stub, 'summary', cacheKey);
+          if (cached) {
+            return addCorsHeaders(new Response(JSON.stringify({ summary: cached.content, options, cached: true, generatedAt: cached.createdAt }), {
+              headers: { 'Content-Type': 'application/json' },
+            }));
           }
+        }
 
-          // If we had multiple chunks, combine the summaries into a final cohesive summary
-          if (chunkSummaries.length > 1) {
-            const combineSystemPrompt = "You are a helpful study assistant. You are given summaries of different sections of a lecture. Combine them into one cohesive, well-organized summary with clear key points. Use Markdown formatting with headings and bullet points. Remove any redundancy but keep all unique information.";
-            const combineUserPrompt = `Section Summaries:\n\n${chunkSummaries.map((s, i) => `--- Section ${i + 1} ---\n${s}`).join('\n\n')}`;
+        // --- RATE LIMITING (only when a new summary is generated) ---
+        const rateLimitStatus = await checkLectureRateLimit(userId, lectureId, 'summarize', env);
+        if (!rateLimitStatus.allowed) {
+          console.log('Rate limit exceeded for summarize', { userId, remaining: rateLimitStatus.remaining });
+          return createRateLimitResponse(rateLimitStatus);
+        }
 
-            const combineResponse = await env.AI.run(model, {
-              messages: [
-                { role: 'system', content: combineSystemPrompt },
-                { role: 'user', content: combineUserPrompt }
-              ],
-              max_tokens: 4096
-            });
+        // For long documents, split into chunks and summarize each, then combine
+        const summary = await runStudyTask(createAiProvider(env), model, 'summarize', text, options, guidance);
 
-            summary = combineResponse.response;
-          } else {
-            summary = chunkSummaries[0];
-          }
+        // Cache the result; a failure here should not lose the generated summary
+        const generatedAt = new Date().toISOString();
+        try {
+          await putLectureArtifact(stub, { kind: 'summary', cacheKey, content: summary, model, promptVersion: PROMPT_VERSIONS.summarize, options, createdAt: generatedAt });
+        } catch (error) {
+          console.error('Failed to cache summary:', error);
         }
 
-        return addCorsHeaders(new Response(JSON.stringify({ summary }), {
+        return addCorsHeaders(new Response(JSON.stringify({ summary, options, cached: false, generatedAt }), {
           headers: { 'Content-Type': 'application/json' },
         }));
 
@@ -386,6 +845,16 @@ export default {
           }));
         }
 
+        // An instructor can upload straight into a study group's library
+        const groupIdField = formData.get('groupId');
+        const groupId = typeof groupIdField === 'string' && groupIdField ? groupIdField : null;
+        if (groupId && await getGroupRole(env.lecturelens_db, userId, groupId) !== 'instructor') {
+          return addCorsHeaders(new Response(JSON.stringify({ error: 'Forbidden: Only instructors can add lectures to this group.' }), { 
+            status: 403,
+            headers: { 'Content-Type': 'application/json' }
+          }));
+        }
+
         // 4. Validate file size (50MB limit for uploaded content)
         const maxFileSize = 50 * 1024 * 1024; // 50MB
         if (file.size > maxFileSize) {
@@ -399,15 +868,16 @@ export default {
           }));
         }
 
-        // 5. Validate file name and detect file type
+        // 5. Read the file and pick an extractor by its content, extension or MIME type
         const fileName = file.name || 'unknown';
-        const fileExtension = fileName.split('.').pop()?.toLowerCase() || '';
-        const isValidExtension = ['txt', 'pdf'].includes(fileExtension);
+        const fileExtension = getFileExtension(fileName);
+        const fileBytes = new Uint8Array(await file.arrayBuffer());
+        const extractor = findExtractor(fileName, file.type, fileBytes);
         
-        if (!isValidExtension) {
+        if (!extractor) {
           return addCorsHeaders(new Response(JSON.stringify({ 
             error: 'Invalid file type',
-            message: 'Only PDF and TXT files are supported.',
+            message: `Supported file types: ${supportedExtensions().join(', ')}.`,
             receivedExtension: fileExtension
           }), { 
             status: 400,
@@ -415,8 +885,23 @@ export default {
           }));
         }
 
-        // 6. Read the file content as text
-        const lectureText = await file.text();
+        // 6. Convert the file to normalized text plus its structure (pages, slides, headings, captions)
+        let extracted: ExtractedLecture;
+        try {
+          extracted = await extractor.extract(fileBytes);
+        } catch (error) {
+          if (error instanceof ExtractionError) {
+            return addCorsHeaders(new Response(JSON.stringify({ 
+              error: error.title,
+              message: error.message
+            }), { 
+              status: 400,
+              headers: { 'Content-Type': 'application/json' }
+            }));
+          }
+          throw error;
+        }
+        const lectureText = extracted.text;
 
         // 7. Validate the extracted text content
         if (!lectureText || lectureText.trim().length === 0) {
@@ -458,9 +943,10 @@ export default {
         // Log file statistics for monitoring
         console.log('File upload:', {
           fileName,
-          fileType: fileExtension,
+          fileType: extractor.format,
           originalSize: file.size,
           textLength: lectureText.length,
+          sectionCount: extracted.sections.length,
           userId
         });
 
@@ -472,7 +958,7 @@ export default {
         const stub = env.LECTURE_MEMORY.get(id);
         
         // Prepare the Request Body for the DO
-        const doBody = JSON.stringify({lectureText: lectureText});
+        const doBody = JSON.stringify({lectureText: lectureText, sections: extracted.sections});
 
         // Construct and Send the Request Body to the DO's /lecture endpoint
         const doResponse = await stub.fetch("https://do-placeholder/lecture", {
@@ -488,19 +974,40 @@ export default {
           return addCorsHeaders(new Response(`Failed to store lecture in memory: ${errorText}`, { status: 500 }));
         }
 
-        // link the lecture to the user with metadata
-        await env.lecturelens_db.prepare(
-          'INSERT INTO user_lectures (user_id, lecture_id, lecture_name, created_at) VALUES (?, ?, ?, ?)'
-        ).bind(userId, lectureId, fileName, new Date().toISOString()).run();
+        // Index the text for full-text search across the user's lectures
+        await indexLectureForSearch(env.lecturelens_db, lectureId, lectureText);
+
+        // Keep the original file so it can be downloaded again and re-extracted later
+        await putLectureFile(env.LECTURE_FILES, lectureId, fileBytes, {
+          fileName,
+          contentType: file.type || 'application/octet-stream'
+        });
+
+        // link the lecture to the user with metadata, as its owner
+        const createdAt = new Date().toISOString();
+        const statements = [
+          env.lecturelens_db.prepare(
+            'INSERT INTO user_lectures (user_id, lecture_id, lecture_name, created_at) VALUES (?, ?, ?, ?)'
+          ).bind(userId, lectureId, fileName, createdAt),
+          ownerPermissionStatement(env.lecturelens_db, userId, lectureId, createdAt),
+        ];
+        if (groupId) {
+          statements.push(env.lecturelens_db.prepare(
+            'INSERT INTO group_lectures (group_id, lecture_id, added_by, added_at) VALUES (?, ?, ?, ?)'
+          ).bind(groupId, lectureId, userId, createdAt));
+        }
+        await env.lecturelens_db.batch(statements);
 
         // Return success with detailed metadata
         return addCorsHeaders(new Response(JSON.stringify({
           message: 'File received and stored successfully',
           lectureId: lectureId,
           fileName: file.name,
-          fileType: fileExtension,
+          fileType: extractor.format,
           textLength: lectureText.length,
           wordCount: lectureText.trim().split(/\s+/).length,
+          sectionCount: extracted.sections.length,
+          groupId,
           uploadedAt: new Date().toISOString()
         }), {
           status: 200,
@@ -539,6 +1046,8 @@ export default {
 
     // EXTRACT CONCEPTS ENDPOINT
     // This endpoint will take the lectureId -> retrieve the raw lecture text -> extract the core concepts using Worker AI-> return the core concepts
+    // Served from the lecture's cache when the text, prompt version and model are unchanged (unless ?refresh=1)
+    // "format": "markdown" (default) returns Markdown text; "json" returns StructuredConcepts. Optional "model" selects the AI model
     if (path === '/api/extract-concepts' && request.method === 'POST') {
       // --- VALIDATE SESSION ---
       const userId = await validateSession(request, env.lecturelens_db);
@@ -549,15 +1058,8 @@ export default {
         }));
       }
 
-      // --- RATE LIMITING ---
-      const rateLimitStatus = await checkRateLimit(userId, 'extract', env);
-      if (!rateLimitStatus.allowed) {
-        console.log('Rate limit exceeded for extract', { userId, remaining: rateLimitStatus.remaining });
-        return createRateLimitResponse(rateLimitStatus);
-      }
-
-      // --- AUTHORIZATION (Ownership Check) ---
-      const { lectureId } = await request.json() as { lectureId: string };
+      // --- AUTHORIZATION (Permission Check) ---
+      const { lectureId, format: bodyFormat, model: bodyModel } = await request.json() as { lectureId: string, format?: string, model?: unknown };
       if (!lectureId) {
         return addCorsHeaders(new Response(JSON.stringify({ error: 'Missing lectureId in request body' }), { 
           status: 400,
@@ -565,14 +1067,27 @@ export default {
         }));
       }
 
-      const ownership = await env.lecturelens_db.prepare('SELECT user_id FROM user_lectures WHERE user_id = ? AND lecture_id = ?').bind(userId, lectureId).first();
-      if (!ownership){
-        return addCorsHeaders(new Response(JSON.stringify({ error: 'Forbidden: You do not have access to this lecture.' }), { 
-          status: 403,
+      const format = bodyFormat ?? url.searchParams.get('format') ?? 'markdown';
+      if (!CONCEPT_FORMATS.includes(format)) {
+        return addCorsHeaders(new Response(JSON.stringify({ error: `"format" must be one of: ${CONCEPT_FORMATS.join(', ')}` }), { 
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }));
+      }
+
+      const { model, error: modelError } = parseModelSelection(bodyModel, env);
+      if (!model) {
+        return addCorsHeaders(new Response(JSON.stringify({ error: modelError }), { 
+          status: 400,
           headers: { 'Content-Type': 'application/json' }
         }));
       }
 
+      const access = await getLectureAccess(env.lecturelens_db, userId, lectureId);
+      if (!roleAllows(access?.role, 'study')){
+        return forbiddenLectureResponse(access);
+      }
+
       // --- MAIN LOGIC ---
       try {
         // Get the Durable Object and stub for the lectureId
@@ -599,88 +1114,174 @@ export default {
           }));
         }
 
+        const isJson = format === 'json';
+        const kind = isJson ? 'concepts_json' : 'concepts';
+        const promptVersion = isJson ? CONCEPTS_JSON_PROMPT_VERSION : PROMPT_VERSIONS.extract;
+
+        // --- CACHE LOOKUP ---
+        const guidance = tutorGuidance(await loadLectureSettings(stub), 'extract');
+        const cacheKey = await computeArtifactKey(rawLectureText, promptVersion, model, guidanceVariant('', guidance));
+        if (url.searchParams.get('refresh') !== '1') {
+          const cached = await getLectureArtifact(stub, kind, cacheKey);
+          if (cached) {
+            const coreConcepts = isJson ? JSON.parse(cached.content) : cached.content;
+            return addCorsHeaders(new Response(JSON.stringify({ coreConcepts, format, cached: true, generatedAt: cached.createdAt }), {
+              headers: { 'Content-Type': 'application/json' },
+            }));
+          }
+        }
+
+        // --- RATE LIMITING (only when new concepts are extracted) ---
+        const rateLimitStatus = await checkLectureRateLimit(userId, lectureId, 'extract', env);
+        if (!rateLimitStatus.allowed) {
+          console.log('Rate limit exceeded for extract', { userId, remaining: rateLimitStatus.remaining });
+          return createRateLimitResponse(rateLimitStatus);
+        }
+
         // Call the Worker AI with chunking for long documents
-        const model = '@cf/meta/llama-3.3-70b-instruct-fp8-fast';
-        const MAX_CHARS_PER_CHUNK = 12000;
-        let coreConceptsResponse: string;
-
-        if (rawLectureText.length <= MAX_CHARS_PER_CHUNK) {
-          // Short document: extract directly
-          const systemPrompt = "You are a specialized academic assistant. Analyze the following lecture text and extract all key definitions, mathematical formulas, and core theoretical concepts. Format the output clearly using Markdown with bold terms and bullet points. Be thorough and cover ALL concepts in the text.";
-          const userPrompt = `Lecture Text:\n\n${rawLectureText}`;
-
-          const coreConcepts = await env.AI.run(model, {
-            messages: [
-              { role: 'system', content: systemPrompt },
-              { role: 'user', content: userPrompt }
-            ],
-            max_tokens: 4096
-          });
+        const coreConceptsResponse = isJson
+          ? await extractStructuredConcepts(createAiProvider(env), model, rawLectureText, guidance)
+          : await runStudyTask(createAiProvider(env), model, 'extract', rawLectureText, undefined, guidance);
+        
+        // Cache the result; a failure here should not lose the extracted concepts
+        const generatedAt = new Date().toISOString();
+        try {
+          const content = isJson ? JSON.stringify(coreConceptsResponse) : coreConceptsResponse as string;
+          await putLectureArtifact(stub, { kind, cacheKey, content, model, promptVersion, createdAt: generatedAt });
+        } catch (error) {
+          console.error('Failed to cache concepts:', error);
+        }
 
-          coreConceptsResponse = coreConcepts.response;
-        } else {
-          // Long document: chunk → extract from each → combine
-          const chunks: string[] = [];
-          const words = rawLectureText.split(/\s+/);
-          let currentChunk = '';
-
-          for (const word of words) {
-            if ((currentChunk + ' ' + word).length > MAX_CHARS_PER_CHUNK) {
-              chunks.push(currentChunk.trim());
-              currentChunk = word;
-            } else {
-              currentChunk += ' ' + word;
-            }
-          }
-          if (currentChunk.trim()) {
-            chunks.push(currentChunk.trim());
-          }
+        // Return the core concepts
+        return addCorsHeaders(new Response(JSON.stringify({ coreConcepts: coreConceptsResponse, format, cached: false, generatedAt }), {
+          headers: { 'Content-Type': 'application/json' },
+        }));
+      } catch (error) {
+        console.error('Extract concepts error:', error);
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return addCorsHeaders(new Response(JSON.stringify({
+          error: 'Failed to extract concepts',
+          details: errorMessage
+        }), {
+          status: 500,
+          headers: { 'Content-Type': 'application/json' }
+        }));
+      }
+    }
+
+    // CREATE BACKGROUND JOB ENDPOINT
+    // Summarizes or extracts concepts from a lecture chunk by chunk in a JobRunner Durable Object
+    if (path === '/api/jobs' && request.method === 'POST') {
+      // --- VALIDATE SESSION ---
+      const userId = await validateSession(request, env.lecturelens_db);
+      if (!userId){
+        return addCorsHeaders(new Response(JSON.stringify({ error: 'Unauthorized' }), { 
+          status: 401,
+          headers: { 'Content-Type': 'application/json' }
+        }));
+      }
 
-          console.log(`Extracting concepts from long document: ${rawLectureText.length} chars, ${chunks.length} chunks`);
+      try {
+        const body = await request.json() as { type?: StudyTask, lectureId?: string } & Record<string, unknown>;
+        const { type, lectureId } = body;
 
-          const chunkExtracts: string[] = [];
-          for (let i = 0; i < chunks.length; i++) {
-            const chunkSystemPrompt = `You are a specialized academic assistant. Analyze the following section (part ${i + 1} of ${chunks.length}) of a lecture and extract all key definitions, mathematical formulas, and core theoretical concepts. Format the output clearly using Markdown with bold terms and bullet points.`;
-            const chunkUserPrompt = `Lecture Section:\n\n${chunks[i]}`;
+        if (type !== 'summarize' && type !== 'extract') {
+          return addCorsHeaders(new Response(JSON.stringify({ error: 'Invalid "type": expected "summarize" or "extract"' }), { 
+            status: 400,
+            headers: { 'Content-Type': 'application/json' }
+          }));
+        }
 
-            const chunkResponse = await env.AI.run(model, {
-              messages: [
-                { role: 'system', content: chunkSystemPrompt },
-                { role: 'user', content: chunkUserPrompt }
-              ],
-              max_tokens: 2048
-            });
+        if (!lectureId) {
+          return addCorsHeaders(new Response(JSON.stringify({ error: 'Missing "lectureId" in request body' }), { 
+            status: 400,
+            headers: { 'Content-Type': 'application/json' }
+          }));
+        }
 
-            chunkExtracts.push(chunkResponse.response);
-          }
+        // Summary options (as for POST /api/summarize) apply to summarize jobs only
+        const summaryOptions = parseSummaryOptions(type === 'summarize' ? body : {});
+        if (!summaryOptions.options) {
+          return addCorsHeaders(new Response(JSON.stringify({ error: summaryOptions.error }), { 
+            status: 400,
+            headers: { 'Content-Type': 'application/json' }
+          }));
+        }
+        const options = type === 'summarize' ? summaryOptions.options : undefined;
 
-          if (chunkExtracts.length > 1) {
-            const combineSystemPrompt = "You are a specialized academic assistant. You are given concept extractions from different sections of a lecture. Combine them into one cohesive, well-organized list of all key definitions, formulas, and core concepts. Use Markdown formatting with bold terms and bullet points. Remove duplicates but keep all unique concepts.";
-            const combineUserPrompt = `Section Extractions:\n\n${chunkExtracts.map((s, i) => `--- Section ${i + 1} ---\n${s}`).join('\n\n')}`;
+        const { model, error: modelError } = parseModelSelection(body.model, env);
+        if (!model) {
+          return addCorsHeaders(new Response(JSON.stringify({ error: modelError }), { 
+            status: 400,
+            headers: { 'Content-Type': 'application/json' }
+          }));
+        }
 
-            const combineResponse = await env.AI.run(model, {
-              messages: [
-                { role: 'system', content: combineSystemPrompt },
-                { role: 'user', content: combineUserPrompt }
-              ],
-              max_tokens: 4096
-            });
+        // --- AUTHORIZATION (Permission Check) ---
+        const access = await getLectureAccess(env.lecturelens_db, userId, lectureId);
+        if (!roleAllows(access?.role, 'study')){
+          return forbiddenLectureResponse(access);
+        }
 
-            coreConceptsResponse = combineResponse.response;
-          } else {
-            coreConceptsResponse = chunkExtracts[0];
-          }
+        // --- RATE LIMITING (jobs share the quota of the synchronous endpoints) ---
+        const rateLimitStatus = await checkLectureRateLimit(userId, lectureId, type, env);
+        if (!rateLimitStatus.allowed) {
+          console.log(`Rate limit exceeded for ${type} job`, { userId, remaining: rateLimitStatus.remaining });
+          return createRateLimitResponse(rateLimitStatus);
         }
-        
-        // Return the core concepts
-        return addCorsHeaders(new Response(JSON.stringify({ coreConcepts: coreConceptsResponse }), {
+
+        // Retrieve the raw lecture text from the lecture's DO
+        const lectureStub = env.LECTURE_MEMORY.get(env.LECTURE_MEMORY.idFromName(lectureId));
+        const rawLectureResponse = await lectureStub.fetch("https://do-placeholder/raw-lecture-text");
+        if (!rawLectureResponse.ok) {
+          return addCorsHeaders(new Response(JSON.stringify({ error: 'No lecture text found' }), { 
+            status: 404,
+            headers: { 'Content-Type': 'application/json' }
+          }));
+        }
+        const { rawText } = await rawLectureResponse.json() as { rawText: string };
+        const settings = await loadLectureSettings(lectureStub);
+        const guidance = tutorGuidance(options?.language ? { ...settings, language: null } : settings, type);
+
+        // Start the job in its own Durable Object
+        const jobId = crypto.randomUUID();
+        const jobStub = env.JOB_RUNNER.get(env.JOB_RUNNER.idFromName(jobId));
+        const jobResponse = await jobStub.fetch('https://job-runner/start', {
+          method: 'POST',
           headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            id: jobId,
+            type,
+            lectureId,
+            userId,
+            model,
+            promptVersion: PROMPT_VERSIONS[type],
+            options,
+            guidance,
+            cacheKey: await computeArtifactKey(rawText, PROMPT_VERSIONS[type], model, guidanceVariant(options ? summaryOptionsKey(options) : '', guidance)),
+            text: rawText
+          })
+        });
+
+        // Record the job with its lecture, so purging the lecture destroys the job's copy of the text
+        if (jobResponse.ok) {
+          await lectureStub.fetch('https://do-placeholder/links', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ type: 'job', name: jobId, userId }),
+          });
+        }
+
+        const { userId: _owner, ...job } = await jobResponse.json() as { userId?: string };
+        return addCorsHeaders(new Response(JSON.stringify(job), {
+          status: jobResponse.status,
+          headers: { 'Content-Type': 'application/json' }
         }));
       } catch (error) {
-        console.error('Extract concepts error:', error);
+        console.error('Create job error:', error);
         const errorMessage = error instanceof Error ? error.message : String(error);
         return addCorsHeaders(new Response(JSON.stringify({
-          error: 'Failed to extract concepts',
+          error: 'Failed to create job',
           details: errorMessage
         }), {
           status: 500,
@@ -689,6 +1290,54 @@ export default {
       }
     }
 
+    // JOB STATUS / RESUME ENDPOINTS
+    // GET /api/jobs/:id reports status, progress and partial results
+    // POST /api/jobs/:id/resume restarts a failed job from the chunk that failed
+    if (path.startsWith('/api/jobs/')) {
+      // --- VALIDATE SESSION ---
+      const userId = await validateSession(request, env.lecturelens_db);
+      if (!userId){
+        return addCorsHeaders(new Response(JSON.stringify({ error: 'Unauthorized' }), { 
+          status: 401,
+          headers: { 'Content-Type': 'application/json' }
+        }));
+      }
+
+      const [jobId, action] = path.substring('/api/jobs/'.length).split('/');
+      const isStatus = request.method === 'GET' && !action;
+      const isResume = request.method === 'POST' && action === 'resume';
+      if (!jobId || (!isStatus && !isResume)) {
+        return addCorsHeaders(new Response('Not Found.', { status: 404 }));
+      }
+
+      try {
+        const jobStub = env.JOB_RUNNER.get(env.JOB_RUNNER.idFromName(jobId));
+
+        // --- AUTHORIZATION (jobs are only visible to the user who created them) ---
+        const statusResponse = await jobStub.fetch('https://job-runner/status');
+        const status = await statusResponse.json() as { userId?: string };
+        if (!statusResponse.ok || status.userId !== userId) {
+          return addCorsHeaders(new Response(JSON.stringify({ error: 'Job not found' }), { 
+            status: 404,
+            headers: { 'Content-Type': 'application/json' }
+          }));
+        }
+
+        const jobResponse = isResume ? await jobStub.fetch('https://job-runner/resume', { method: 'POST' }) : statusResponse;
+        const { userId: _owner, ...job } = isResume ? await jobResponse.json() as { userId?: string } : status;
+        return addCorsHeaders(new Response(JSON.stringify(job), {
+          status: jobResponse.status,
+          headers: { 'Content-Type': 'application/json' }
+        }));
+      } catch (error) {
+        console.error('Job status error:', error);
+        return addCorsHeaders(new Response(JSON.stringify({ error: 'Internal Server Error' }), { 
+          status: 500,
+          headers: { 'Content-Type': 'application/json' }
+        }));
+      }
+    }
+
     // SIGNUP ENDPOINT
     if (path === '/api/auth/signup' && request.method === 'POST') {
       // --- IP-BASED RATE LIMITING ---
@@ -955,8 +1604,10 @@ export default {
       }
     }
 
-    // GET MY LECTURES ENDPOINT
-    if (path === '/api/my-lectures' && request.method === 'GET') {
+    // SEARCH ENDPOINT
+    // GET /api/search?q=&limit=&offset= searches the text of every lecture the user owns.
+    // "Quoted text" matches a phrase; results are best first with a highlighted snippet.
+    if (path === '/api/search' && request.method === 'GET') {
       // --- VALIDATE SESSION ---
       const userId = await validateSession(request, env.lecturelens_db);
       if (!userId){
@@ -966,26 +1617,46 @@ export default {
         }));
       }
 
-      // --- MAIN LOGIC ---
-      try {
-        // Query the database for the lectures owned by this user with full metadata
-        const {results} = await env.lecturelens_db.prepare(
-          'SELECT lecture_id, lecture_name, created_at FROM user_lectures WHERE user_id = ? ORDER BY created_at DESC'
-        ).bind(userId).all();
+      const query = parseSearchQuery(url.searchParams.get('q') || '');
+      const limitParam = Number(url.searchParams.get('limit') || DEFAULT_SEARCH_LIMIT);
+      const offsetParam = Number(url.searchParams.get('offset') || 0);
+      if (!query || !Number.isInteger(limitParam) || limitParam < 1 || !Number.isInteger(offsetParam) || offsetParam < 0) {
+        return addCorsHeaders(new Response(JSON.stringify({ 
+          error: 'Invalid search',
+          message: 'q must contain at least one word, limit must be a positive integer and offset must be a non-negative integer'
+        }), { 
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }));
+      }
+      const limit = Math.min(limitParam, MAX_SEARCH_LIMIT); // Larger pages are capped rather than rejected
 
-        // Return the lectures with metadata
-        return addCorsHeaders(new Response(JSON.stringify({ lectures: results }), { status: 200, headers: { 'Content-Type': 'application/json' } }));
+      try {
+        const { results, hasMore } = await searchLectures(env.lecturelens_db, userId, query, limit, offsetParam);
+        return addCorsHeaders(new Response(JSON.stringify({
+          query: url.searchParams.get('q'),
+          results,
+          hasMore,
+          nextOffset: hasMore ? offsetParam + limit : null
+        }), { status: 200, headers: { 'Content-Type': 'application/json' } }));
       } catch (error) {
-        console.error('Get my lectures error:', error);
-        return addCorsHeaders(new Response(JSON.stringify({ error: 'Internal Server Error' }), { 
+        console.error('Error searching lectures:', error);
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return addCorsHeaders(new Response(JSON.stringify({ error: 'Search failed', details: errorMessage }), { 
           status: 500,
           headers: { 'Content-Type': 'application/json' }
         }));
       }
     }
 
-    // DELETE LECTURE ENDPOINT
-    if (path.startsWith('/api/lectures/') && request.method === 'DELETE') {
+    // COURSES ENDPOINTS
+    // GET /api/courses lists courses in the user's order; POST /api/courses creates one
+    // POST /api/courses/reorder sets the order from a full list of course IDs
+    // PATCH /api/courses/:id renames a course
+    // DELETE /api/courses/:id?lectures=unsorted|delete moves its lectures to "Unsorted" (default) or
+    //   deletes them like DELETE /api/lectures/:id (to the trash, or immediately with &permanent=true)
+    // GET /api/courses/:id/lectures lists a course's lectures ("unsorted" for lectures without a course)
+    if (path === '/api/courses' || path.startsWith('/api/courses/')) {
       // --- VALIDATE SESSION ---
       const userId = await validateSession(request, env.lecturelens_db);
       if (!userId){
@@ -995,42 +1666,238 @@ export default {
         }));
       }
 
-      // Extract lecture ID from path
-      const lectureId = path.split('/').pop();
-      if (!lectureId) {
-        return addCorsHeaders(new Response(JSON.stringify({ error: 'Missing lecture ID' }), { 
-          status: 400,
+      const [courseId, action, ...rest] = path.substring('/api/courses'.length).split('/').filter(Boolean);
+      if (rest.length > 0) {
+        return addCorsHeaders(new Response('Not Found.', { status: 404 }));
+      }
+
+      try {
+        // List courses with their lecture counts
+        if (!courseId && request.method === 'GET') {
+          const {results} = await env.lecturelens_db.prepare(
+            `SELECT c.id, c.name, c.position, c.created_at, c.updated_at,
+              (SELECT COUNT(*) FROM user_lectures l WHERE l.user_id = c.user_id AND l.course_id = c.id AND l.deleted_at IS NULL) AS lecture_count
+            FROM courses c WHERE c.user_id = ? ORDER BY c.position, c.created_at`
+          ).bind(userId).all();
+          const unsorted = await env.lecturelens_db.prepare(
+            'SELECT COUNT(*) AS count FROM user_lectures WHERE user_id = ? AND course_id IS NULL AND deleted_at IS NULL'
+          ).bind(userId).first<{ count: number }>();
+
+          return addCorsHeaders(new Response(JSON.stringify({ courses: results, unsortedCount: unsorted?.count ?? 0 }), { status: 200, headers: { 'Content-Type': 'application/json' } }));
+        }
+
+        // Create a course at the end of the list
+        if (!courseId && request.method === 'POST') {
+          const body = await request.json().catch(() => null) as { name?: unknown } | null;
+          const { name, error } = parseCourseName(body?.name);
+          if (!name) {
+            return addCorsHeaders(new Response(JSON.stringify({ error: 'Invalid course', message: error }), { 
+              status: 400,
+              headers: { 'Content-Type': 'application/json' }
+            }));
+          }
+
+          const existing = await env.lecturelens_db.prepare(
+            'SELECT id FROM courses WHERE user_id = ? AND name = ? COLLATE NOCASE'
+          ).bind(userId, name).first();
+          if (existing) {
+            return addCorsHeaders(new Response(JSON.stringify({ error: 'A course with this name already exists' }), { 
+              status: 409,
+              headers: { 'Content-Type': 'application/json' }
+            }));
+          }
+
+          const course = {
+            id: crypto.randomUUID(),
+            name,
+            created_at: new Date().toISOString()
+          };
+          await env.lecturelens_db.prepare(
+            'INSERT INTO courses (id, user_id, name, position, created_at) VALUES (?, ?, ?, (SELECT COALESCE(MAX(position) + 1, 0) FROM courses WHERE user_id = ?), ?)'
+          ).bind(course.id, userId, name, userId, course.created_at).run();
+
+          return addCorsHeaders(new Response(JSON.stringify({ message: 'Course created successfully', course }), { status: 201, headers: { 'Content-Type': 'application/json' } }));
+        }
+
+        // Reorder: the body must list every course exactly once
+        if (courseId === 'reorder' && !action && request.method === 'POST') {
+          const body = await request.json().catch(() => null) as { courseIds?: unknown } | null;
+          const courseIds = body?.courseIds;
+          const {results} = await env.lecturelens_db.prepare('SELECT id FROM courses WHERE user_id = ?').bind(userId).all<{ id: string }>();
+          const owned = new Set(results.map((course) => course.id));
+
+          if (!Array.isArray(courseIds) || courseIds.length !== owned.size || new Set(courseIds).size !== owned.size || !courseIds.every((id) => owned.has(id))) {
+            return addCorsHeaders(new Response(JSON.stringify({ error: 'Invalid course order', message: 'courseIds must list each of your courses exactly once' }), { 
+              status: 400,
+              headers: { 'Content-Type': 'application/json' }
+            }));
+          }
+
+          if (courseIds.length > 0) {
+            await env.lecturelens_db.batch(courseIds.map((id: string, position: number) =>
+              env.lecturelens_db.prepare('UPDATE courses SET position = ? WHERE id = ? AND user_id = ?').bind(position, id, userId)
+            ));
+          }
+
+          return addCorsHeaders(new Response(JSON.stringify({ message: 'Courses reordered successfully', courseIds }), { status: 200, headers: { 'Content-Type': 'application/json' } }));
+        }
+
+        // Lectures without a course
+        if (courseId === 'unsorted' && action === 'lectures' && request.method === 'GET') {
+          const { orderBy, error } = parseLectureSort(url.searchParams);
+          if (!orderBy) {
+            return addCorsHeaders(new Response(JSON.stringify({ error: 'Invalid sort', message: error }), { 
+              status: 400,
+              headers: { 'Content-Type': 'application/json' }
+            }));
+          }
+          const lectures = await listLectures(env, userId, { courseId: null }, orderBy);
+          return addCorsHeaders(new Response(JSON.stringify({ course: null, lectures }), { status: 200, headers: { 'Content-Type': 'application/json' } }));
+        }
+
+        // --- AUTHORIZATION (courses are only visible to their owner) ---
+        const course = courseId ? await env.lecturelens_db.prepare(
+          'SELECT id, name, position, created_at, updated_at FROM courses WHERE id = ? AND user_id = ?'
+        ).bind(courseId, userId).first<{ id: string; name: string }>() : null;
+
+        if (!course) {
+          return addCorsHeaders(new Response(JSON.stringify({ error: 'Course not found' }), { 
+            status: 404,
+            headers: { 'Content-Type': 'application/json' }
+          }));
+        }
+
+        // Lectures in the course
+        if (action === 'lectures' && request.method === 'GET') {
+          const { orderBy, error } = parseLectureSort(url.searchParams);
+          if (!orderBy) {
+            return addCorsHeaders(new Response(JSON.stringify({ error: 'Invalid sort', message: error }), { 
+              status: 400,
+              headers: { 'Content-Type': 'application/json' }
+            }));
+          }
+          const lectures = await listLectures(env, userId, { courseId: course.id }, orderBy);
+          return addCorsHeaders(new Response(JSON.stringify({ course, lectures }), { status: 200, headers: { 'Content-Type': 'application/json' } }));
+        }
+
+        // Rename
+        if (!action && request.method === 'PATCH') {
+          const body = await request.json().catch(() => null) as { name?: unknown } | null;
+          const { name, error } = parseCourseName(body?.name);
+          if (!name) {
+            return addCorsHeaders(new Response(JSON.stringify({ error: 'Invalid course', message: error }), { 
+              status: 400,
+              headers: { 'Content-Type': 'application/json' }
+            }));
+          }
+
+          const existing = await env.lecturelens_db.prepare(
+            'SELECT id FROM courses WHERE user_id = ? AND name = ? COLLATE NOCASE AND id != ?'
+          ).bind(userId, name, course.id).first();
+          if (existing) {
+            return addCorsHeaders(new Response(JSON.stringify({ error: 'A course with this name already exists' }), { 
+              status: 409,
+              headers: { 'Content-Type': 'application/json' }
+            }));
+          }
+
+          const updatedAt = new Date().toISOString();
+          await env.lecturelens_db.prepare(
+            'UPDATE courses SET name = ?, updated_at = ? WHERE id = ? AND user_id = ?'
+          ).bind(name, updatedAt, course.id, userId).run();
+
+          return addCorsHeaders(new Response(JSON.stringify({ message: 'Course renamed successfully', course: { ...course, name, updated_at: updatedAt } }), { status: 200, headers: { 'Content-Type': 'application/json' } }));
+        }
+
+        // Delete, moving the course's lectures to "Unsorted" or deleting them
+        if (!action && request.method === 'DELETE') {
+          const mode = url.searchParams.get('lectures') || 'unsorted';
+          const permanent = url.searchParams.get('permanent') === 'true';
+          if (mode !== 'unsorted' && mode !== 'delete') {
+            return addCorsHeaders(new Response(JSON.stringify({ error: 'Invalid lectures option', message: 'lectures must be "unsorted" or "delete"' }), { 
+              status: 400,
+              headers: { 'Content-Type': 'application/json' }
+            }));
+          }
+
+          const {results: lectures} = await env.lecturelens_db.prepare(
+            'SELECT lecture_id FROM user_lectures WHERE user_id = ? AND course_id = ? AND deleted_at IS NULL'
+          ).bind(userId, course.id).all<{ lecture_id: string }>();
+
+          if (mode === 'delete') {
+            for (const lecture of lectures) {
+              if (permanent) {
+                await purgeLecture(env, userId, lecture.lecture_id);
+              } else {
+                await trashLecture(env, userId, lecture.lecture_id);
+              }
+            }
+          }
+
+          // Lectures in the trash also lose the course, so restoring one puts it in "Unsorted"
+          await env.lecturelens_db.batch([
+            env.lecturelens_db.prepare('UPDATE user_lectures SET course_id = NULL WHERE user_id = ? AND course_id = ?').bind(userId, course.id),
+            env.lecturelens_db.prepare('DELETE FROM courses WHERE id = ? AND user_id = ?').bind(course.id, userId),
+          ]);
+
+          return addCorsHeaders(new Response(JSON.stringify({ 
+            message: 'Course deleted successfully',
+            courseId: course.id,
+            lectures: mode === 'delete' ? (permanent ? 'deleted' : 'trashed') : 'unsorted',
+            lectureIds: lectures.map((lecture) => lecture.lecture_id)
+          }), { status: 200, headers: { 'Content-Type': 'application/json' } }));
+        }
+
+        return addCorsHeaders(new Response('Not Found.', { status: 404 }));
+      } catch (error) {
+        console.error('Courses error:', error);
+        return addCorsHeaders(new Response(JSON.stringify({ error: 'Internal Server Error' }), { 
+          status: 500,
           headers: { 'Content-Type': 'application/json' }
         }));
       }
+    }
 
-      // --- AUTHORIZATION (Ownership Check) ---
-      const ownership = await env.lecturelens_db.prepare(
-        'SELECT user_id FROM user_lectures WHERE user_id = ? AND lecture_id = ?'
-      ).bind(userId, lectureId).first();
-      
-      if (!ownership){
-        return addCorsHeaders(new Response(JSON.stringify({ error: 'Forbidden: You do not have access to this lecture.' }), { 
-          status: 403,
+    // GET MY LECTURES ENDPOINT
+    if (path === '/api/my-lectures' && request.method === 'GET') {
+      // --- VALIDATE SESSION ---
+      const userId = await validateSession(request, env.lecturelens_db);
+      if (!userId){
+        return addCorsHeaders(new Response(JSON.stringify({ error: 'Unauthorized' }), { 
+          status: 401,
           headers: { 'Content-Type': 'application/json' }
         }));
       }
 
-      try {
-        // Delete the lecture from user_lectures
-        await env.lecturelens_db.prepare(
-          'DELETE FROM user_lectures WHERE user_id = ? AND lecture_id = ?'
-        ).bind(userId, lectureId).run();
-
+      // --- FILTERS & SORTING ---
+      // ?course= (name), ?term= and ?tag= filter case-insensitively; ?courseId= selects a course
+      // ("unsorted" for lectures without one); ?sort=created|updated|name|course|term&order=asc|desc
+      const { orderBy, error: sortError } = parseLectureSort(url.searchParams);
+      if (!orderBy) {
         return addCorsHeaders(new Response(JSON.stringify({ 
-          message: 'Lecture deleted successfully',
-          lectureId: lectureId
+          error: 'Invalid sort',
+          message: sortError
         }), { 
-          status: 200, 
-          headers: { 'Content-Type': 'application/json' } 
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
         }));
+      }
+      const courseIdParam = url.searchParams.get('courseId');
+
+      // --- MAIN LOGIC ---
+      try {
+        // Query the database for the lectures owned by this user with full metadata
+        const lectures = await listLectures(env, userId, {
+          courseId: courseIdParam === 'unsorted' ? null : courseIdParam || undefined,
+          course: url.searchParams.get('course'),
+          term: url.searchParams.get('term'),
+          tag: url.searchParams.get('tag')
+        }, orderBy);
+
+        // Return the lectures with metadata
+        return addCorsHeaders(new Response(JSON.stringify({ lectures }), { status: 200, headers: { 'Content-Type': 'application/json' } }));
       } catch (error) {
-        console.error('Delete lecture error:', error);
+        console.error('Get my lectures error:', error);
         return addCorsHeaders(new Response(JSON.stringify({ error: 'Internal Server Error' }), { 
           status: 500,
           headers: { 'Content-Type': 'application/json' }
@@ -1038,8 +1905,10 @@ export default {
       }
     }
 
-    // LOGOUT ENDPOINT
-    if (path === '/api/auth/logout' && request.method === 'POST') {
+    // LECTURE EXPORT ENDPOINT
+    // GET /api/lectures/:id/export?format=md|anki-csv|apkg-json|html downloads the lecture's cached
+    // summary and concepts, flashcards and chat threads as one file
+    if (path.startsWith('/api/lectures/') && path.endsWith('/export') && request.method === 'GET') {
       // --- VALIDATE SESSION ---
       const userId = await validateSession(request, env.lecturelens_db);
       if (!userId){
@@ -1049,34 +1918,1742 @@ export default {
         }));
       }
 
-      try {
-      // Delete the session from the database
-      await env.lecturelens_db.prepare('DELETE FROM sessions WHERE token = ?').bind(request.headers.get('Authorization')?.split(' ')[1]).run();
+      const [lectureId, action] = path.substring('/api/lectures/'.length).split('/');
+      if (!lectureId || action !== 'export') {
+        return addCorsHeaders(new Response('Not Found.', { status: 404 }));
+      }
 
-      // Return a success response
-      return addCorsHeaders(new Response(JSON.stringify({ message: 'Logout successful' }), { status: 200, headers: { 'Content-Type': 'application/json' } }));
-      } catch (error) {
-        console.error('Logout error:', error);
-        return addCorsHeaders(new Response(JSON.stringify({ error: 'Internal Server Error' }), { 
-          status: 500,
+      const format = url.searchParams.get('format') || 'md';
+      if (!Object.hasOwn(EXPORT_FORMATS, format)) {
+        return addCorsHeaders(new Response(JSON.stringify({ error: `"format" must be one of: ${Object.keys(EXPORT_FORMATS).join(', ')}` }), { 
+          status: 400,
           headers: { 'Content-Type': 'application/json' }
         }));
       }
-    }
+      const renderer = EXPORT_FORMATS[format as ExportFormat];
+
+      // --- AUTHORIZATION (Permission Check) ---
+      const access = await getLectureAccess(env.lecturelens_db, userId, lectureId);
+      if (!access || !roleAllows(access.role, 'read')){
+        return forbiddenLectureResponse(access);
+      }
 
-    // STATS ENDPOINT - Track signups and usage
-    // This endpoint returns aggregate statistics about the app
-    if (path === '/api/stats' && request.method === 'GET') {
       try {
-        // Get total user count
-        const userCountResult = await env.lecturelens_db.prepare(
-          'SELECT COUNT(*) as count FROM users'
-        ).first();
-        
-        // Get total lecture count
-        const lectureCountResult = await env.lecturelens_db.prepare(
-          'SELECT COUNT(*) as count FROM user_lectures'
-        ).first();
+        // The lecture's name and course are its owner's; tags and flashcards are the user's own
+        const lecture = await env.lecturelens_db.prepare(
+          `${LECTURE_SELECT} WHERE l.user_id = ? AND l.lecture_id = ?`
+        ).bind(access.ownerId, lectureId).first<LectureRow>();
+        if (!lecture) {
+          throw new Error('Lecture not found');
+        }
+        const isMember = access.role === 'member';
+        const [lectureExport] = await loadLectureExports(env, userId, await withLectureTags(env, userId, [lecture]), isMember ? userId : undefined);
+        if (access.role !== 'owner' && !isMember) {
+          lectureExport.threads = lectureExport.threads.filter((thread) => thread.id === SHARED_THREAD_ID);
+        }
+        if (renderer.flashcardsOnly && lectureExport.flashcards.length === 0) {
+          return addCorsHeaders(new Response(JSON.stringify({ error: 'This lecture has no flashcards to export' }), { 
+            status: 404,
+            headers: { 'Content-Type': 'application/json' }
+          }));
+        }
+
+        const fileName = `${safeFileName(lecture.lecture_name)}.${renderer.extension}`;
+        return addCorsHeaders(new Response(renderer.render(lectureExport, new Date()), {
+          status: 200,
+          headers: {
+            'Content-Type': renderer.contentType,
+            'Content-Disposition': `attachment; filename="${fileName.replace(/["\\\r\n]/g, '_')}"; filename*=UTF-8''${encodeURIComponent(fileName)}`
+          }
+        }));
+      } catch (error) {
+        console.error('Export lecture error:', error);
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return addCorsHeaders(new Response(JSON.stringify({
+          error: 'Failed to export lecture',
+          details: errorMessage
+        }), {
+          status: 500,
+          headers: { 'Content-Type': 'application/json' }
+        }));
+      }
+    }
+
+    // ACCOUNT EXPORT ENDPOINT
+    // GET /api/export?format=md|anki-csv|apkg-json|html downloads every lecture (excluding the trash)
+    // as a ZIP archive with a folder per course
+    if (path === '/api/export' && request.method === 'GET') {
+      // --- VALIDATE SESSION ---
+      const userId = await validateSession(request, env.lecturelens_db);
+      if (!userId){
+        return addCorsHeaders(new Response(JSON.stringify({ error: 'Unauthorized' }), { 
+          status: 401,
+          headers: { 'Content-Type': 'application/json' }
+        }));
+      }
+
+      const format = url.searchParams.get('format') || 'md';
+      if (!Object.hasOwn(EXPORT_FORMATS, format)) {
+        return addCorsHeaders(new Response(JSON.stringify({ error: `"format" must be one of: ${Object.keys(EXPORT_FORMATS).join(', ')}` }), { 
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }));
+      }
+
+      // --- RATE LIMITING ---
+      const rateLimitStatus = await checkRateLimit(userId, 'export', env);
+      if (!rateLimitStatus.allowed) {
+        console.log('Rate limit exceeded for export', { userId, remaining: rateLimitStatus.remaining });
+        return createRateLimitResponse(rateLimitStatus);
+      }
+
+      try {
+        const lectures = await listLectures(env, userId, {}, 'c.name COLLATE NOCASE, l.created_at');
+        if (lectures.length > MAX_EXPORT_LECTURES) {
+          return addCorsHeaders(new Response(JSON.stringify({ 
+            error: 'Too many lectures to export at once',
+            message: `Accounts with more than ${MAX_EXPORT_LECTURES} lectures can export lectures individually.`
+          }), { 
+            status: 413,
+            headers: { 'Content-Type': 'application/json' }
+          }));
+        }
+
+        const exportedAt = new Date();
+        const archive = await buildAccountExport(await loadLectureExports(env, userId, lectures), format as ExportFormat, exportedAt);
+        return addCorsHeaders(new Response(archive, {
+          status: 200,
+          headers: {
+            'Content-Type': 'application/zip',
+            'Content-Length': String(archive.length),
+            'Content-Disposition': `attachment; filename="lecturelens-export-${exportedAt.toISOString().slice(0, 10)}.zip"`
+          }
+        }));
+      } catch (error) {
+        console.error('Export account error:', error);
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return addCorsHeaders(new Response(JSON.stringify({
+          error: 'Failed to export lectures',
+          details: errorMessage
+        }), {
+          status: 500,
+          headers: { 'Content-Type': 'application/json' }
+        }));
+      }
+    }
+
+    // LECTURE SETTINGS ENDPOINTS
+    // GET /api/lectures/:id/settings returns the lecture's tutor settings (anyone with access to the lecture)
+    // PUT replaces them ({mode, tone, language, allowedTopics, withholdSolutions, instructions}; owner only).
+    // They shape the chat tutor and the lecture's summaries and concept extractions.
+    if (path.startsWith('/api/lectures/') && path.endsWith('/settings')) {
+      // --- VALIDATE SESSION ---
+      const userId = await validateSession(request, env.lecturelens_db);
+      if (!userId){
+        return addCorsHeaders(new Response(JSON.stringify({ error: 'Unauthorized' }), {
+          status: 401,
+          headers: { 'Content-Type': 'application/json' }
+        }));
+      }
+
+      const [lectureId, action, ...rest] = path.substring('/api/lectures/'.length).split('/');
+      if (!lectureId || action !== 'settings' || rest.length > 0 || (request.method !== 'GET' && request.method !== 'PUT')) {
+        return addCorsHeaders(new Response('Not Found.', { status: 404 }));
+      }
+
+      // --- AUTHORIZATION (Permission Check) ---
+      const access = await getLectureAccess(env.lecturelens_db, userId, lectureId);
+      if (!roleAllows(access?.role, request.method === 'GET' ? 'read' : 'manage')){
+        return forbiddenLectureResponse(access);
+      }
+
+      try {
+        const stub = env.LECTURE_MEMORY.get(env.LECTURE_MEMORY.idFromName(lectureId));
+        if (request.method === 'GET') {
+          const settings = await loadLectureSettings(stub);
+          return addCorsHeaders(new Response(JSON.stringify({ settings }), { status: 200, headers: { 'Content-Type': 'application/json' } }));
+        }
+
+        const body = await request.json().catch(() => null);
+        const { settings, error: settingsError } = parseLectureSettings(body);
+        if (!settings) {
+          return addCorsHeaders(new Response(JSON.stringify({ error: settingsError }), {
+            status: 400,
+            headers: { 'Content-Type': 'application/json' }
+          }));
+        }
+
+        const saveResponse = await stub.fetch('https://do-placeholder/settings', {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(settings),
+        });
+        if (!saveResponse.ok) {
+          throw new Error(`Failed to save lecture settings: ${await saveResponse.text()}`);
+        }
+        return addCorsHeaders(new Response(JSON.stringify({ message: 'Lecture settings updated', settings }), { status: 200, headers: { 'Content-Type': 'application/json' } }));
+      } catch (error) {
+        console.error('Lecture settings error:', error);
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return addCorsHeaders(new Response(JSON.stringify({
+          error: 'Failed to process lecture settings',
+          details: errorMessage
+        }), {
+          status: 500,
+          headers: { 'Content-Type': 'application/json' }
+        }));
+      }
+    }
+
+    // LECTURE SHARING ENDPOINTS
+    // GET /api/lectures/:id/permissions lists the lecture's members; POST adds one by email ({email, role})
+    // PATCH /api/lectures/:id/permissions/:userId changes a member's role ({role}); DELETE removes them
+    // (members can also remove themselves to leave a shared lecture)
+    // GET /api/lectures/:id/share-links lists the lecture's share links; POST creates one ({role, expiresInDays})
+    // DELETE /api/lectures/:id/share-links/:token revokes a link and the access it granted
+    if (path.startsWith('/api/lectures/') && (path.includes('/permissions') || path.includes('/share-links'))) {
+      // --- VALIDATE SESSION ---
+      const userId = await validateSession(request, env.lecturelens_db);
+      if (!userId){
+        return addCorsHeaders(new Response(JSON.stringify({ error: 'Unauthorized' }), { 
+          status: 401,
+          headers: { 'Content-Type': 'application/json' }
+        }));
+      }
+
+      const [lectureId, resource, targetId, ...rest] = path.substring('/api/lectures/'.length).split('/');
+      const isMembers = resource === 'permissions';
+      const isList = request.method === 'GET' && !targetId;
+      const isCreate = request.method === 'POST' && !targetId;
+      const isUpdate = request.method === 'PATCH' && isMembers && !!targetId;
+      const isDelete = request.method === 'DELETE' && !!targetId;
+      if (!lectureId || (!isMembers && resource !== 'share-links') || rest.length > 0 || (!isList && !isCreate && !isUpdate && !isDelete)) {
+        return addCorsHeaders(new Response('Not Found.', { status: 404 }));
+      }
+
+      // --- AUTHORIZATION (Permission Check) ---
+      // Only the owner manages sharing, but any member may leave
+      const access = await getLectureAccess(env.lecturelens_db, userId, lectureId);
+      const isLeaving = isMembers && isDelete && targetId === userId && !!access && access.role !== 'owner';
+      if (!access || (!isLeaving && !roleAllows(access.role, 'manage'))){
+        return forbiddenLectureResponse(access);
+      }
+
+      try {
+        if (isMembers && isList) {
+          const {results} = await env.lecturelens_db.prepare(
+            `SELECT p.user_id, u.email, u.name, p.role, p.share_token IS NOT NULL AS via_link, p.created_at
+            FROM lecture_permissions p JOIN users u ON u.id = p.user_id
+            WHERE p.lecture_id = ? AND (p.user_id = ? OR p.granted_by = ?)
+            ORDER BY p.role = 'owner' DESC, p.created_at`
+          ).bind(lectureId, access.ownerId, access.ownerId).all();
+          return addCorsHeaders(new Response(JSON.stringify({ members: results }), { status: 200, headers: { 'Content-Type': 'application/json' } }));
+        }
+
+        if (isMembers && isCreate) {
+          const body = await request.json().catch(() => null) as { email?: unknown; role?: unknown } | null;
+          const { email, role } = body || {};
+          if (typeof email !== 'string' || !email.trim()) {
+            return addCorsHeaders(new Response(JSON.stringify({ error: '"email" is required' }), { 
+              status: 400,
+              headers: { 'Content-Type': 'application/json' }
+            }));
+          }
+          if (!SHARED_ROLES.includes(role as SharedRole)) {
+            return addCorsHeaders(new Response(JSON.stringify({ error: `"role" must be one of: ${SHARED_ROLES.join(', ')}` }), { 
+              status: 400,
+              headers: { 'Content-Type': 'application/json' }
+            }));
+          }
+
+          const member = await env.lecturelens_db.prepare(
+            'SELECT id, email, name FROM users WHERE email = ?'
+          ).bind(email.trim()).first<{ id: string; email: string; name: string | null }>();
+          if (!member) {
+            return addCorsHeaders(new Response(JSON.stringify({ error: 'No user with this email' }), { 
+              status: 404,
+              headers: { 'Content-Type': 'application/json' }
+            }));
+          }
+          const existing = await env.lecturelens_db.prepare(
+            'SELECT role FROM lecture_permissions WHERE lecture_id = ? AND user_id = ?'
+          ).bind(lectureId, member.id).first<{ role: string }>();
+          if (existing?.role === 'owner') {
+            return addCorsHeaders(new Response(JSON.stringify({ error: 'This user already owns the lecture' }), { 
+              status: 400,
+              headers: { 'Content-Type': 'application/json' }
+            }));
+          }
+
+          await grantStatement(env.lecturelens_db, lectureId, member.id, role as SharedRole, userId).run();
+          return addCorsHeaders(new Response(JSON.stringify({
+            message: 'Lecture shared',
+            member: { user_id: member.id, email: member.email, name: member.name, role }
+          }), { status: existing ? 200 : 201, headers: { 'Content-Type': 'application/json' } }));
+        }
+
+        if (isMembers) {
+          const member = await env.lecturelens_db.prepare(
+            "SELECT user_id FROM lecture_permissions WHERE lecture_id = ? AND user_id = ? AND granted_by = ? AND role != 'owner'"
+          ).bind(lectureId, targetId, access.ownerId).first();
+          if (!member) {
+            return addCorsHeaders(new Response(JSON.stringify({ error: 'Member not found' }), { 
+              status: 404,
+              headers: { 'Content-Type': 'application/json' }
+            }));
+          }
+
+          if (isDelete) {
+            await env.lecturelens_db.prepare(
+              'DELETE FROM lecture_permissions WHERE lecture_id = ? AND user_id = ?'
+            ).bind(lectureId, targetId).run();
+            return addCorsHeaders(new Response(JSON.stringify({ message: isLeaving ? 'Left the lecture' : 'Member removed' }), { status: 200, headers: { 'Content-Type': 'application/json' } }));
+          }
+
+          const body = await request.json().catch(() => null) as { role?: unknown } | null;
+          const role = body?.role;
+          if (!SHARED_ROLES.includes(role as SharedRole)) {
+            return addCorsHeaders(new Response(JSON.stringify({ error: `"role" must be one of: ${SHARED_ROLES.join(', ')}` }), { 
+              status: 400,
+              headers: { 'Content-Type': 'application/json' }
+            }));
+          }
+          // The role is now an explicit grant, which outlives the share link it came from
+          await env.lecturelens_db.prepare(
+            'UPDATE lecture_permissions SET role = ?, share_token = NULL WHERE lecture_id = ? AND user_id = ?'
+          ).bind(role, lectureId, targetId).run();
+          return addCorsHeaders(new Response(JSON.stringify({ member: { user_id: targetId, role } }), { status: 200, headers: { 'Content-Type': 'application/json' } }));
+        }
+
+        if (isList) {
+          const {results} = await env.lecturelens_db.prepare(
+            `SELECT s.token, s.role, s.expires_at, s.revoked_at, s.created_at,
+              (SELECT COUNT(*) FROM lecture_permissions p WHERE p.lecture_id = s.lecture_id AND p.share_token = s.token) AS member_count
+            FROM lecture_share_links s WHERE s.lecture_id = ? AND s.created_by = ? ORDER BY s.created_at DESC`
+          ).bind(lectureId, userId).all();
+          return addCorsHeaders(new Response(JSON.stringify({ shareLinks: results }), { status: 200, headers: { 'Content-Type': 'application/json' } }));
+        }
+
+        if (isCreate) {
+          const body = await request.json().catch(() => null) as { role?: unknown; expiresInDays?: unknown } | null;
+          if (!body) {
+            return addCorsHeaders(new Response(JSON.stringify({ error: 'Request body must be a JSON object' }), { 
+              status: 400,
+              headers: { 'Content-Type': 'application/json' }
+            }));
+          }
+          const { role = 'viewer', expiresInDays = DEFAULT_SHARE_LINK_DAYS } = body;
+          if (!SHARED_ROLES.includes(role as SharedRole)) {
+            return addCorsHeaders(new Response(JSON.stringify({ error: `"role" must be one of: ${SHARED_ROLES.join(', ')}` }), { 
+              status: 400,
+              headers: { 'Content-Type': 'application/json' }
+            }));
+          }
+          if (!Number.isInteger(expiresInDays) || (expiresInDays as number) < 1 || (expiresInDays as number) > MAX_SHARE_LINK_DAYS) {
+            return addCorsHeaders(new Response(JSON.stringify({ error: `"expiresInDays" must be a whole number from 1 to ${MAX_SHARE_LINK_DAYS}` }), { 
+              status: 400,
+              headers: { 'Content-Type': 'application/json' }
+            }));
+          }
+
+          const createdAt = new Date();
+          const shareLink = {
+            token: crypto.randomUUID(),
+            role,
+            expires_at: new Date(createdAt.getTime() + (expiresInDays as number) * 24 * 60 * 60 * 1000).toISOString(),
+            revoked_at: null,
+            created_at: createdAt.toISOString(),
+          };
+          await env.lecturelens_db.prepare(
+            'INSERT INTO lecture_share_links (token, lecture_id, created_by, role, expires_at, created_at) VALUES (?, ?, ?, ?, ?, ?)'
+          ).bind(shareLink.token, lectureId, userId, shareLink.role, shareLink.expires_at, shareLink.created_at).run();
+          return addCorsHeaders(new Response(JSON.stringify({ shareLink }), { status: 201, headers: { 'Content-Type': 'application/json' } }));
+        }
+
+        const shareLink = await env.lecturelens_db.prepare(
+          'SELECT token FROM lecture_share_links WHERE token = ? AND lecture_id = ? AND created_by = ?'
+        ).bind(targetId, lectureId, userId).first();
+        if (!shareLink) {
+          return addCorsHeaders(new Response(JSON.stringify({ error: 'Share link not found' }), { 
+            status: 404,
+            headers: { 'Content-Type': 'application/json' }
+          }));
+        }
+        await env.lecturelens_db.batch([
+          env.lecturelens_db.prepare(
+            'UPDATE lecture_share_links SET revoked_at = ? WHERE token = ? AND revoked_at IS NULL'
+          ).bind(new Date().toISOString(), targetId),
+          env.lecturelens_db.prepare(
+            'DELETE FROM lecture_permissions WHERE lecture_id = ? AND share_token = ?'
+          ).bind(lectureId, targetId),
+        ]);
+        return addCorsHeaders(new Response(JSON.stringify({ message: 'Share link revoked' }), { status: 200, headers: { 'Content-Type': 'application/json' } }));
+      } catch (error) {
+        console.error('Lecture sharing error:', error);
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return addCorsHeaders(new Response(JSON.stringify({
+          error: 'Failed to update lecture sharing',
+          details: errorMessage
+        }), {
+          status: 500,
+          headers: { 'Content-Type': 'application/json' }
+        }));
+      }
+    }
+
+    // ACCEPT SHARE LINK ENDPOINT
+    // POST /api/share-links/:token/accept adds the user to the lecture with the link's role
+    if (path.startsWith('/api/share-links/') && path.endsWith('/accept') && request.method === 'POST') {
+      // --- VALIDATE SESSION ---
+      const userId = await validateSession(request, env.lecturelens_db);
+      if (!userId){
+        return addCorsHeaders(new Response(JSON.stringify({ error: 'Unauthorized' }), { 
+          status: 401,
+          headers: { 'Content-Type': 'application/json' }
+        }));
+      }
+
+      const [token, action, ...rest] = path.substring('/api/share-links/'.length).split('/');
+      if (!token || action !== 'accept' || rest.length > 0) {
+        return addCorsHeaders(new Response('Not Found.', { status: 404 }));
+      }
+
+      try {
+        const shareLink = await env.lecturelens_db.prepare(
+          `SELECT s.lecture_id, s.created_by, s.role, s.expires_at, s.revoked_at, l.lecture_name, l.deleted_at
+          FROM lecture_share_links s LEFT JOIN user_lectures l ON l.user_id = s.created_by AND l.lecture_id = s.lecture_id
+          WHERE s.token = ?`
+        ).bind(token).first<{ lecture_id: string; created_by: string; role: SharedRole; expires_at: string; revoked_at: string | null; lecture_name: string | null; deleted_at: string | null }>();
+        if (!shareLink) {
+          return addCorsHeaders(new Response(JSON.stringify({ error: 'Share link not found' }), { 
+            status: 404,
+            headers: { 'Content-Type': 'application/json' }
+          }));
+        }
+        if (shareLink.revoked_at || shareLink.expires_at <= new Date().toISOString() || !shareLink.lecture_name || shareLink.deleted_at) {
+          return addCorsHeaders(new Response(JSON.stringify({ error: 'This share link has expired or been revoked' }), { 
+            status: 410,
+            headers: { 'Content-Type': 'application/json' }
+          }));
+        }
+
+        // Joining never downgrades an existing member (or the owner)
+        await grantStatement(env.lecturelens_db, shareLink.lecture_id, userId, shareLink.role, shareLink.created_by, token).run();
+        const access = await getLectureAccess(env.lecturelens_db, userId, shareLink.lecture_id);
+        return addCorsHeaders(new Response(JSON.stringify({
+          lectureId: shareLink.lecture_id,
+          lectureName: shareLink.lecture_name,
+          role: access?.role ?? shareLink.role
+        }), { status: 200, headers: { 'Content-Type': 'application/json' } }));
+      } catch (error) {
+        console.error('Accept share link error:', error);
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return addCorsHeaders(new Response(JSON.stringify({
+          error: 'Failed to accept share link',
+          details: errorMessage
+        }), {
+          status: 500,
+          headers: { 'Content-Type': 'application/json' }
+        }));
+      }
+    }
+
+    // SHARED LECTURES ENDPOINT
+    // GET /api/shared-lectures lists the lectures other users have shared with the user, with its role
+    if (path === '/api/shared-lectures' && request.method === 'GET') {
+      // --- VALIDATE SESSION ---
+      const userId = await validateSession(request, env.lecturelens_db);
+      if (!userId){
+        return addCorsHeaders(new Response(JSON.stringify({ error: 'Unauthorized' }), { 
+          status: 401,
+          headers: { 'Content-Type': 'application/json' }
+        }));
+      }
+
+      try {
+        // Lectures their owner moved to the trash are hidden until restored
+        const {results} = await env.lecturelens_db.prepare(
+          `SELECT p.lecture_id, o.lecture_name, p.role, u.email AS owner_email, u.name AS owner_name, p.created_at AS shared_at
+          FROM lecture_permissions p ${LECTURE_OWNER_JOIN} JOIN users u ON u.id = o.user_id
+          WHERE p.user_id = ? AND p.role != 'owner' AND o.deleted_at IS NULL
+          ORDER BY p.created_at DESC`
+        ).bind(userId).all();
+        return addCorsHeaders(new Response(JSON.stringify({ lectures: results }), { status: 200, headers: { 'Content-Type': 'application/json' } }));
+      } catch (error) {
+        console.error('Get shared lectures error:', error);
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return addCorsHeaders(new Response(JSON.stringify({
+          error: 'Failed to get shared lectures',
+          details: errorMessage
+        }), {
+          status: 500,
+          headers: { 'Content-Type': 'application/json' }
+        }));
+      }
+    }
+
+    // STUDY GROUPS ENDPOINTS
+    // GET /api/groups lists the user's groups; POST creates one ({name, pooledQuotas}) with the user as instructor
+    // GET /api/groups/:id returns the group with its members; PATCH renames it or turns pooled quotas on/off; DELETE removes it
+    // GET/POST /api/groups/:id/invitations lists or sends invitations by email ({email, role}); DELETE .../:invitationId cancels one
+    // DELETE /api/groups/:id/members/:userId removes a member (members can remove themselves to leave)
+    // GET /api/groups/:id/lectures lists the group's library (?sort=&order= as for /api/my-lectures);
+    // POST adds one of the instructor's lectures ({lectureId}); DELETE .../:lectureId removes it
+    if (path === '/api/groups' || path.startsWith('/api/groups/')) {
+      // --- VALIDATE SESSION ---
+      const userId = await validateSession(request, env.lecturelens_db);
+      if (!userId){
+        return addCorsHeaders(new Response(JSON.stringify({ error: 'Unauthorized' }), { 
+          status: 401,
+          headers: { 'Content-Type': 'application/json' }
+        }));
+      }
+
+      const [groupId, resource, targetId, ...rest] = path.substring('/api/groups'.length).split('/').filter(Boolean);
+
+      try {
+        if (!groupId) {
+          if (request.method === 'GET') {
+            const {results} = await env.lecturelens_db.prepare(
+              `SELECT g.id, g.name, g.pooled_quotas, g.created_at, m.role,
+                (SELECT COUNT(*) FROM group_members c WHERE c.group_id = g.id) AS member_count,
+                (SELECT COUNT(*) FROM group_lectures l WHERE l.group_id = g.id) AS lecture_count
+              FROM study_groups g JOIN group_members m ON m.group_id = g.id AND m.user_id = ?
+              ORDER BY g.name COLLATE NOCASE`
+            ).bind(userId).all();
+            return addCorsHeaders(new Response(JSON.stringify({ groups: results }), { status: 200, headers: { 'Content-Type': 'application/json' } }));
+          }
+
+          if (request.method === 'POST') {
+            const { settings, error } = parseGroupSettings(await request.json().catch(() => null), false);
+            if (!settings) {
+              return addCorsHeaders(new Response(JSON.stringify({ error }), { 
+                status: 400,
+                headers: { 'Content-Type': 'application/json' }
+              }));
+            }
+            const group = { id: crypto.randomUUID(), name: settings.name!, pooled_quotas: settings.pooledQuotas ? 1 : 0, created_at: new Date().toISOString() };
+            await env.lecturelens_db.batch([
+              env.lecturelens_db.prepare(
+                'INSERT INTO study_groups (id, name, created_by, pooled_quotas, created_at) VALUES (?, ?, ?, ?, ?)'
+              ).bind(group.id, group.name, userId, group.pooled_quotas, group.created_at),
+              env.lecturelens_db.prepare(
+                "INSERT INTO group_members (group_id, user_id, role, joined_at) VALUES (?, ?, 'instructor', ?)"
+              ).bind(group.id, userId, group.created_at),
+            ]);
+            return addCorsHeaders(new Response(JSON.stringify({ group: { ...group, role: 'instructor' } }), { status: 201, headers: { 'Content-Type': 'application/json' } }));
+          }
+
+          return addCorsHeaders(new Response('Not Found.', { status: 404 }));
+        }
+
+        if (rest.length > 0 || (resource && !['invitations', 'members', 'lectures'].includes(resource))) {
+          return addCorsHeaders(new Response('Not Found.', { status: 404 }));
+        }
+
+        // --- AUTHORIZATION (Membership Check) ---
+        // Members see the group and its library; instructors manage it; anyone may leave
+        const role = await getGroupRole(env.lecturelens_db, userId, groupId);
+        const isLeaving = resource === 'members' && targetId === userId && request.method === 'DELETE';
+        const needsInstructor = !isLeaving && (request.method !== 'GET' || resource === 'invitations');
+        if (!role || (needsInstructor && role !== 'instructor')){
+          return addCorsHeaders(new Response(JSON.stringify({ error: role ? 'Forbidden: Only instructors can manage this group.' : 'Forbidden: You are not a member of this group.' }), { 
+            status: 403,
+            headers: { 'Content-Type': 'application/json' }
+          }));
+        }
+
+        if (!resource) {
+          if (request.method === 'GET') {
+            const [group, {results: members}] = await Promise.all([
+              env.lecturelens_db.prepare('SELECT id, name, pooled_quotas, created_at FROM study_groups WHERE id = ?').bind(groupId).first(),
+              env.lecturelens_db.prepare(
+                `SELECT m.user_id, u.email, u.name, m.role, m.joined_at FROM group_members m JOIN users u ON u.id = m.user_id
+                WHERE m.group_id = ? ORDER BY m.role = 'instructor' DESC, m.joined_at`
+              ).bind(groupId).all(),
+            ]);
+            return addCorsHeaders(new Response(JSON.stringify({ group: { ...group, role }, members }), { status: 200, headers: { 'Content-Type': 'application/json' } }));
+          }
+
+          if (request.method === 'PATCH') {
+            const { settings, error } = parseGroupSettings(await request.json().catch(() => null), true);
+            if (!settings) {
+              return addCorsHeaders(new Response(JSON.stringify({ error }), { 
+                status: 400,
+                headers: { 'Content-Type': 'application/json' }
+              }));
+            }
+            if (settings.name !== undefined) {
+              await env.lecturelens_db.prepare('UPDATE study_groups SET name = ? WHERE id = ?').bind(settings.name, groupId).run();
+            }
+            if (settings.pooledQuotas !== undefined) {
+              await env.lecturelens_db.prepare('UPDATE study_groups SET pooled_quotas = ? WHERE id = ?').bind(settings.pooledQuotas ? 1 : 0, groupId).run();
+            }
+            const group = await env.lecturelens_db.prepare('SELECT id, name, pooled_quotas, created_at FROM study_groups WHERE id = ?').bind(groupId).first();
+            return addCorsHeaders(new Response(JSON.stringify({ group: { ...group, role } }), { status: 200, headers: { 'Content-Type': 'application/json' } }));
+          }
+
+          if (request.method === 'DELETE') {
+            await env.lecturelens_db.batch(deleteGroupStatements(env.lecturelens_db, groupId));
+            return addCorsHeaders(new Response(JSON.stringify({ message: 'Group deleted', groupId }), { status: 200, headers: { 'Content-Type': 'application/json' } }));
+          }
+        }
+
+        if (resource === 'invitations') {
+          if (request.method === 'GET' && !targetId) {
+            const {results} = await env.lecturelens_db.prepare(
+              'SELECT id, email, role, expires_at, created_at FROM group_invitations WHERE group_id = ? AND expires_at > ? ORDER BY created_at DESC'
+            ).bind(groupId, new Date().toISOString()).all();
+            return addCorsHeaders(new Response(JSON.stringify({ invitations: results }), { status: 200, headers: { 'Content-Type': 'application/json' } }));
+          }
+
+          if (request.method === 'POST' && !targetId) {
+            const body = await request.json().catch(() => null) as { email?: unknown; role?: unknown } | null;
+            const { email, role: inviteRole = 'student' } = body || {};
+            if (typeof email !== 'string' || !email.includes('@') || email.length > 254) {
+              return addCorsHeaders(new Response(JSON.stringify({ error: '"email" must be an email address' }), { 
+                status: 400,
+                headers: { 'Content-Type': 'application/json' }
+              }));
+            }
+            if (!GROUP_ROLES.includes(inviteRole as GroupRole)) {
+              return addCorsHeaders(new Response(JSON.stringify({ error: `"role" must be one of: ${GROUP_ROLES.join(', ')}` }), { 
+                status: 400,
+                headers: { 'Content-Type': 'application/json' }
+              }));
+            }
+
+            const counts = await env.lecturelens_db.prepare(
+              `SELECT (SELECT COUNT(*) FROM group_members WHERE group_id = ?) AS members,
+                (SELECT COUNT(*) FROM group_members m JOIN users u ON u.id = m.user_id WHERE m.group_id = ? AND u.email = ? COLLATE NOCASE) AS already_member`
+            ).bind(groupId, groupId, email.trim()).first<{ members: number; already_member: number }>();
+            if (counts!.already_member > 0) {
+              return addCorsHeaders(new Response(JSON.stringify({ error: 'This user is already a member of the group' }), { 
+                status: 400,
+                headers: { 'Content-Type': 'application/json' }
+              }));
+            }
+            if (counts!.members >= MAX_GROUP_MEMBERS) {
+              return addCorsHeaders(new Response(JSON.stringify({ error: `A group can have at most ${MAX_GROUP_MEMBERS} members` }), { 
+                status: 400,
+                headers: { 'Content-Type': 'application/json' }
+              }));
+            }
+
+            // Inviting the same address again replaces its pending invitation
+            const createdAt = new Date();
+            const invitation = {
+              id: crypto.randomUUID(),
+              email: email.trim(),
+              role: inviteRole,
+              expires_at: new Date(createdAt.getTime() + GROUP_INVITATION_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+              created_at: createdAt.toISOString(),
+            };
+            await env.lecturelens_db.batch([
+              env.lecturelens_db.prepare('DELETE FROM group_invitations WHERE group_id = ? AND email = ? COLLATE NOCASE').bind(groupId, invitation.email),
+              env.lecturelens_db.prepare(
+                'INSERT INTO group_invitations (id, group_id, email, role, invited_by, expires_at, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)'
+              ).bind(invitation.id, groupId, invitation.email, invitation.role, userId, invitation.expires_at, invitation.created_at),
+            ]);
+            return addCorsHeaders(new Response(JSON.stringify({ invitation }), { status: 201, headers: { 'Content-Type': 'application/json' } }));
+          }
+
+          if (request.method === 'DELETE' && targetId) {
+            const result = await env.lecturelens_db.prepare(
+              'DELETE FROM group_invitations WHERE id = ? AND group_id = ?'
+            ).bind(targetId, groupId).run();
+            if (!result.meta.changes) {
+              return addCorsHeaders(new Response(JSON.stringify({ error: 'Invitation not found' }), { 
+                status: 404,
+                headers: { 'Content-Type': 'application/json' }
+              }));
+            }
+            return addCorsHeaders(new Response(JSON.stringify({ message: 'Invitation cancelled' }), { status: 200, headers: { 'Content-Type': 'application/json' } }));
+          }
+        }
+
+        if (resource === 'members' && targetId && request.method === 'DELETE') {
+          const member = await env.lecturelens_db.prepare(
+            `SELECT role, (SELECT COUNT(*) FROM group_members WHERE group_id = ? AND role = 'instructor') AS instructors
+            FROM group_members WHERE group_id = ? AND user_id = ?`
+          ).bind(groupId, groupId, targetId).first<{ role: GroupRole; instructors: number }>();
+          if (!member) {
+            return addCorsHeaders(new Response(JSON.stringify({ error: 'Member not found' }), { 
+              status: 404,
+              headers: { 'Content-Type': 'application/json' }
+            }));
+          }
+          if (member.role === 'instructor' && member.instructors <= 1) {
+            return addCorsHeaders(new Response(JSON.stringify({ error: 'A group needs an instructor; delete the group instead' }), { 
+              status: 400,
+              headers: { 'Content-Type': 'application/json' }
+            }));
+          }
+
+          // Lectures the member added leave the library with them
+          await env.lecturelens_db.batch([
+            env.lecturelens_db.prepare('DELETE FROM group_members WHERE group_id = ? AND user_id = ?').bind(groupId, targetId),
+            env.lecturelens_db.prepare('DELETE FROM group_lectures WHERE group_id = ? AND added_by = ?').bind(groupId, targetId),
+          ]);
+          return addCorsHeaders(new Response(JSON.stringify({ message: isLeaving ? 'Left the group' : 'Member removed' }), { status: 200, headers: { 'Content-Type': 'application/json' } }));
+        }
+
+        if (resource === 'lectures') {
+          if (request.method === 'GET' && !targetId) {
+            const { orderBy, error: sortError } = parseLectureSort(url.searchParams);
+            if (!orderBy) {
+              return addCorsHeaders(new Response(JSON.stringify({ 
+                error: 'Invalid sort',
+                message: sortError
+              }), { 
+                status: 400,
+                headers: { 'Content-Type': 'application/json' }
+              }));
+            }
+            // Lectures their owner moved to the trash are hidden until restored
+            const {results} = await env.lecturelens_db.prepare(
+              `${LECTURE_SELECT} JOIN group_lectures g ON g.lecture_id = l.lecture_id AND g.added_by = l.user_id
+              WHERE g.group_id = ? AND l.deleted_at IS NULL ORDER BY ${orderBy}`
+            ).bind(groupId).all<LectureRow>();
+            const lectures = await withLectureTags(env, userId, results);
+            return addCorsHeaders(new Response(JSON.stringify({ lectures }), { status: 200, headers: { 'Content-Type': 'application/json' } }));
+          }
+
+          if (request.method === 'POST' && !targetId) {
+            const body = await request.json().catch(() => null) as { lectureId?: unknown } | null;
+            const lectureId = body?.lectureId;
+            if (typeof lectureId !== 'string' || !lectureId) {
+              return addCorsHeaders(new Response(JSON.stringify({ error: '"lectureId" is required' }), { 
+                status: 400,
+                headers: { 'Content-Type': 'application/json' }
+              }));
+            }
+            const access = await getLectureAccess(env.lecturelens_db, userId, lectureId);
+            if (!roleAllows(access?.role, 'manage')){
+              return forbiddenLectureResponse(access);
+            }
+            await env.lecturelens_db.prepare(
+              'INSERT OR IGNORE INTO group_lectures (group_id, lecture_id, added_by, added_at) VALUES (?, ?, ?, ?)'
+            ).bind(groupId, lectureId, userId, new Date().toISOString()).run();
+            return addCorsHeaders(new Response(JSON.stringify({ message: 'Lecture added to the group', lectureId }), { status: 201, headers: { 'Content-Type': 'application/json' } }));
+          }
+
+          if (request.method === 'DELETE' && targetId) {
+            const result = await env.lecturelens_db.prepare(
+              'DELETE FROM group_lectures WHERE group_id = ? AND lecture_id = ?'
+            ).bind(groupId, targetId).run();
+            if (!result.meta.changes) {
+              return addCorsHeaders(new Response(JSON.stringify({ error: 'Lecture not found in this group' }), { 
+                status: 404,
+                headers: { 'Content-Type': 'application/json' }
+              }));
+            }
+            return addCorsHeaders(new Response(JSON.stringify({ message: 'Lecture removed from the group', lectureId: targetId }), { status: 200, headers: { 'Content-Type': 'application/json' } }));
+          }
+        }
+
+        return addCorsHeaders(new Response('Not Found.', { status: 404 }));
+      } catch (error) {
+        console.error('Study groups error:', error);
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return addCorsHeaders(new Response(JSON.stringify({
+          error: 'Failed to process the group request',
+          details: errorMessage
+        }), {
+          status: 500,
+          headers: { 'Content-Type': 'application/json' }
+        }));
+      }
+    }
+
+    // GROUP INVITATIONS ENDPOINTS
+    // GET /api/group-invitations lists pending invitations to the user's email address
+    // POST /api/group-invitations/:id/accept joins the group; DELETE /api/group-invitations/:id declines
+    if (path === '/api/group-invitations' || path.startsWith('/api/group-invitations/')) {
+      // --- VALIDATE SESSION ---
+      const userId = await validateSession(request, env.lecturelens_db);
+      if (!userId){
+        return addCorsHeaders(new Response(JSON.stringify({ error: 'Unauthorized' }), { 
+          status: 401,
+          headers: { 'Content-Type': 'application/json' }
+        }));
+      }
+
+      const [invitationId, action, ...rest] = path.substring('/api/group-invitations'.length).split('/').filter(Boolean);
+      const isList = request.method === 'GET' && !invitationId;
+      const isAccept = request.method === 'POST' && !!invitationId && action === 'accept';
+      const isDecline = request.method === 'DELETE' && !!invitationId && !action;
+      if (rest.length > 0 || (!isList && !isAccept && !isDecline)) {
+        return addCorsHeaders(new Response('Not Found.', { status: 404 }));
+      }
+
+      try {
+        // Invitations are addressed to an email, so they belong to whoever signed up with it
+        const user = await env.lecturelens_db.prepare('SELECT email FROM users WHERE id = ?').bind(userId).first<{ email: string | null }>();
+        const email = user?.email || '';
+        const now = new Date().toISOString();
+
+        if (isList) {
+          const {results} = await env.lecturelens_db.prepare(
+            `SELECT i.id, i.group_id, g.name AS group_name, i.role, u.email AS invited_by_email, u.name AS invited_by_name, i.expires_at, i.created_at
+            FROM group_invitations i JOIN study_groups g ON g.id = i.group_id LEFT JOIN users u ON u.id = i.invited_by
+            WHERE i.email = ? COLLATE NOCASE AND i.expires_at > ? ORDER BY i.created_at DESC`
+          ).bind(email, now).all();
+          return addCorsHeaders(new Response(JSON.stringify({ invitations: results }), { status: 200, headers: { 'Content-Type': 'application/json' } }));
+        }
+
+        const invitation = await env.lecturelens_db.prepare(
+          'SELECT id, group_id, role, expires_at FROM group_invitations WHERE id = ? AND email = ? COLLATE NOCASE'
+        ).bind(invitationId, email).first<{ id: string; group_id: string; role: GroupRole; expires_at: string }>();
+        if (!invitation) {
+          return addCorsHeaders(new Response(JSON.stringify({ error: 'Invitation not found' }), { 
+            status: 404,
+            headers: { 'Content-Type': 'application/json' }
+          }));
+        }
+
+        if (isDecline) {
+          await env.lecturelens_db.prepare('DELETE FROM group_invitations WHERE id = ?').bind(invitation.id).run();
+          return addCorsHeaders(new Response(JSON.stringify({ message: 'Invitation declined' }), { status: 200, headers: { 'Content-Type': 'application/json' } }));
+        }
+
+        if (invitation.expires_at <= now) {
+          return addCorsHeaders(new Response(JSON.stringify({ error: 'This invitation has expired' }), { 
+            status: 410,
+            headers: { 'Content-Type': 'application/json' }
+          }));
+        }
+
+        // Accepting never demotes an existing member
+        await env.lecturelens_db.batch([
+          env.lecturelens_db.prepare(
+            'INSERT OR IGNORE INTO group_members (group_id, user_id, role, joined_at) VALUES (?, ?, ?, ?)'
+          ).bind(invitation.group_id, userId, invitation.role, now),
+          env.lecturelens_db.prepare('DELETE FROM group_invitations WHERE id = ?').bind(invitation.id),
+        ]);
+        const role = await getGroupRole(env.lecturelens_db, userId, invitation.group_id);
+        return addCorsHeaders(new Response(JSON.stringify({ message: 'Joined the group', groupId: invitation.group_id, role }), { status: 200, headers: { 'Content-Type': 'application/json' } }));
+      } catch (error) {
+        console.error('Group invitations error:', error);
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return addCorsHeaders(new Response(JSON.stringify({
+          error: 'Failed to process the invitation',
+          details: errorMessage
+        }), {
+          status: 500,
+          headers: { 'Content-Type': 'application/json' }
+        }));
+      }
+    }
+
+    // LECTURE FILE ENDPOINTS
+    // GET /api/lectures/:id/file downloads the original uploaded file
+    // POST /api/lectures/:id/re-extract re-runs extraction on it and refreshes the lecture text
+    if (path.startsWith('/api/lectures/') && (path.endsWith('/file') || path.endsWith('/re-extract'))) {
+      // --- VALIDATE SESSION ---
+      const userId = await validateSession(request, env.lecturelens_db);
+      if (!userId){
+        return addCorsHeaders(new Response(JSON.stringify({ error: 'Unauthorized' }), { 
+          status: 401,
+          headers: { 'Content-Type': 'application/json' }
+        }));
+      }
+
+      const [lectureId, action] = path.substring('/api/lectures/'.length).split('/');
+      const isDownload = request.method === 'GET' && action === 'file';
+      const isReExtract = request.method === 'POST' && action === 're-extract';
+      if (!lectureId || (!isDownload && !isReExtract)) {
+        return addCorsHeaders(new Response('Not Found.', { status: 404 }));
+      }
+
+      // --- AUTHORIZATION (Permission Check) ---
+      const access = await getLectureAccess(env.lecturelens_db, userId, lectureId);
+      if (!roleAllows(access?.role, isReExtract ? 'manage' : 'read')){
+        return forbiddenLectureResponse(access);
+      }
+
+      // --- RATE LIMITING (re-extraction re-indexes the lecture like an upload) ---
+      if (isReExtract) {
+        const rateLimitStatus = await checkRateLimit(userId, 'upload', env);
+        if (!rateLimitStatus.allowed) {
+          console.log('Rate limit exceeded for re-extract', { userId, remaining: rateLimitStatus.remaining });
+          return createRateLimitResponse(rateLimitStatus);
+        }
+      }
+
+      try {
+        const storedFile = await getLectureFile(env.LECTURE_FILES, lectureId);
+        if (!storedFile) {
+          return addCorsHeaders(new Response(JSON.stringify({ 
+            error: 'Original file not found',
+            message: 'This lecture was uploaded before original files were kept.'
+          }), { 
+            status: 404,
+            headers: { 'Content-Type': 'application/json' }
+          }));
+        }
+
+        if (isDownload) {
+          return addCorsHeaders(new Response(storedFile.body, {
+            status: 200,
+            headers: {
+              'Content-Type': storedFile.contentType,
+              'Content-Length': String(storedFile.size),
+              'Content-Disposition': `attachment; filename="${storedFile.fileName.replace(/["\\\r\n]/g, '_')}"; filename*=UTF-8''${encodeURIComponent(storedFile.fileName)}`
+            }
+          }));
+        }
+
+        // Re-run extraction on the original with the current extractors
+        const fileBytes = new Uint8Array(await new Response(storedFile.body).arrayBuffer());
+        const extractor = findExtractor(storedFile.fileName, storedFile.contentType, fileBytes);
+        if (!extractor) {
+          return addCorsHeaders(new Response(JSON.stringify({ 
+            error: 'Invalid file type',
+            message: `Supported file types: ${supportedExtensions().join(', ')}.`,
+            receivedExtension: getFileExtension(storedFile.fileName)
+          }), { 
+            status: 400,
+            headers: { 'Content-Type': 'application/json' }
+          }));
+        }
+
+        let extracted: ExtractedLecture;
+        try {
+          extracted = await extractor.extract(fileBytes);
+        } catch (error) {
+          if (error instanceof ExtractionError) {
+            return addCorsHeaders(new Response(JSON.stringify({ 
+              error: error.title,
+              message: error.message
+            }), { 
+              status: 400,
+              headers: { 'Content-Type': 'application/json' }
+            }));
+          }
+          throw error;
+        }
+
+        if (extracted.text.trim().length === 0) {
+          return addCorsHeaders(new Response(JSON.stringify({ 
+            error: 'Empty file',
+            message: 'No text could be extracted from the original file.'
+          }), { 
+            status: 400,
+            headers: { 'Content-Type': 'application/json' }
+          }));
+        }
+
+        // Replace the lecture text and index in the Durable Object
+        const stub = env.LECTURE_MEMORY.get(env.LECTURE_MEMORY.idFromName(lectureId));
+        const doResponse = await stub.fetch("https://do-placeholder/lecture", {
+          method: "POST",
+          headers: {'Content-Type': 'application/json'},
+          body: JSON.stringify({lectureText: extracted.text, sections: extracted.sections})
+        });
+
+        if (!doResponse.ok){
+          const errorText = await doResponse.text();
+          console.log('DO Storage Failed: ', errorText);
+          return addCorsHeaders(new Response(`Failed to store lecture in memory: ${errorText}`, { status: 500 }));
+        }
+
+        await indexLectureForSearch(env.lecturelens_db, lectureId, extracted.text);
+
+        return addCorsHeaders(new Response(JSON.stringify({
+          message: 'Lecture re-extracted successfully',
+          lectureId: lectureId,
+          fileName: storedFile.fileName,
+          fileType: extractor.format,
+          textLength: extracted.text.length,
+          wordCount: extracted.text.trim().split(/\s+/).length,
+          sectionCount: extracted.sections.length
+        }), {
+          status: 200,
+          headers: { 'Content-Type': 'application/json' },
+        }));
+      } catch (error) {
+        console.error('Lecture file error:', error);
+        return addCorsHeaders(new Response(JSON.stringify({ error: 'Internal Server Error' }), { 
+          status: 500,
+          headers: { 'Content-Type': 'application/json' }
+        }));
+      }
+    }
+
+    // LECTURE FLASHCARDS ENDPOINTS
+    // GET /api/lectures/:id/flashcards lists the user's cards for a lecture
+    // POST /api/lectures/:id/flashcards generates new cards ({count}, default 10, at most 30)
+    if (path.startsWith('/api/lectures/') && path.endsWith('/flashcards')) {
+      // --- VALIDATE SESSION ---
+      const userId = await validateSession(request, env.lecturelens_db);
+      if (!userId){
+        return addCorsHeaders(new Response(JSON.stringify({ error: 'Unauthorized' }), { 
+          status: 401,
+          headers: { 'Content-Type': 'application/json' }
+        }));
+      }
+
+      const [lectureId, action] = path.substring('/api/lectures/'.length).split('/');
+      if (!lectureId || action !== 'flashcards' || (request.method !== 'GET' && request.method !== 'POST')) {
+        return addCorsHeaders(new Response('Not Found.', { status: 404 }));
+      }
+
+      // --- AUTHORIZATION (Permission Check) ---
+      const access = await getLectureAccess(env.lecturelens_db, userId, lectureId);
+      if (!roleAllows(access?.role, 'study')){
+        return forbiddenLectureResponse(access);
+      }
+
+      try {
+        if (request.method === 'GET') {
+          const {results} = await env.lecturelens_db.prepare(
+            `SELECT ${FLASHCARD_COLUMNS} FROM flashcards WHERE user_id = ? AND lecture_id = ? ORDER BY created_at, rowid`
+          ).bind(userId, lectureId).all();
+          return addCorsHeaders(new Response(JSON.stringify({ flashcards: results }), { status: 200, headers: { 'Content-Type': 'application/json' } }));
+        }
+
+        const body = await request.json().catch(() => null) as { count?: unknown; model?: unknown } | null;
+        if (!body || typeof body !== 'object' || Array.isArray(body)) {
+          return addCorsHeaders(new Response(JSON.stringify({ error: 'Invalid flashcard request', message: 'Request body must be a JSON object' }), { 
+            status: 400,
+            headers: { 'Content-Type': 'application/json' }
+          }));
+        }
+        const count = body.count ?? DEFAULT_FLASHCARD_COUNT;
+        if (typeof count !== 'number' || !Number.isInteger(count) || count < 1 || count > MAX_FLASHCARD_COUNT) {
+          return addCorsHeaders(new Response(JSON.stringify({ error: 'Invalid flashcard request', message: `count must be an integer from 1 to ${MAX_FLASHCARD_COUNT}` }), { 
+            status: 400,
+            headers: { 'Content-Type': 'application/json' }
+          }));
+        }
+
+        const { model, error: modelError } = parseModelSelection(body.model, env);
+        if (!model) {
+          return addCorsHeaders(new Response(JSON.stringify({ error: modelError }), { 
+            status: 400,
+            headers: { 'Content-Type': 'application/json' }
+          }));
+        }
+
+        // --- RATE LIMITING ---
+        const rateLimitStatus = await checkLectureRateLimit(userId, lectureId, 'flashcards', env);
+        if (!rateLimitStatus.allowed) {
+          console.log('Rate limit exceeded for flashcards', { userId, remaining: rateLimitStatus.remaining });
+          return createRateLimitResponse(rateLimitStatus);
+        }
+
+        const stub = env.LECTURE_MEMORY.get(env.LECTURE_MEMORY.idFromName(lectureId));
+        const rawLectureResponse = await stub.fetch("https://do-placeholder/raw-lecture-text");
+        if (!rawLectureResponse.ok) {
+          return addCorsHeaders(new Response(JSON.stringify({ error: 'No lecture text found' }), { 
+            status: 404,
+            headers: { 'Content-Type': 'application/json' }
+          }));
+        }
+        const { rawText } = await rawLectureResponse.json() as { rawText: string };
+
+        const cards = await generateFlashcards(createAiProvider(env), model, rawText, count);
+
+        // New cards are due for review straight away
+        const now = new Date();
+        const schedule = initialSchedule(now);
+        const flashcards = cards.map((card) => ({
+          id: crypto.randomUUID(),
+          lecture_id: lectureId,
+          question: card.question,
+          answer: card.answer,
+          ease_factor: schedule.easeFactor,
+          interval_days: schedule.intervalDays,
+          repetitions: schedule.repetitions,
+          due_at: schedule.dueAt,
+          last_reviewed_at: null,
+          created_at: now.toISOString(),
+          updated_at: null,
+        }));
+        await env.lecturelens_db.batch(flashcards.map((card) => env.lecturelens_db.prepare(
+          'INSERT INTO flashcards (id, user_id, lecture_id, question, answer, ease_factor, interval_days, repetitions, due_at, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)'
+        ).bind(card.id, userId, lectureId, card.question, card.answer, card.ease_factor, card.interval_days, card.repetitions, card.due_at, card.created_at)));
+
+        return addCorsHeaders(new Response(JSON.stringify({ flashcards }), { status: 201, headers: { 'Content-Type': 'application/json' } }));
+      } catch (error) {
+        console.error('Flashcards error:', error);
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return addCorsHeaders(new Response(JSON.stringify({
+          error: 'Failed to process flashcards request',
+          details: errorMessage
+        }), {
+          status: 500,
+          headers: { 'Content-Type': 'application/json' }
+        }));
+      }
+    }
+
+    // LECTURE QUIZ ENDPOINTS
+    // POST /api/lectures/:id/quiz generates a quiz ({count, difficulty, types}); the answer key stays server-side
+    // GET /api/lectures/:id/quizzes lists the lecture's quizzes with attempt counts, best and latest scores
+    if (path.startsWith('/api/lectures/') && (path.endsWith('/quiz') || path.endsWith('/quizzes'))) {
+      // --- VALIDATE SESSION ---
+      const userId = await validateSession(request, env.lecturelens_db);
+      if (!userId){
+        return addCorsHeaders(new Response(JSON.stringify({ error: 'Unauthorized' }), { 
+          status: 401,
+          headers: { 'Content-Type': 'application/json' }
+        }));
+      }
+
+      const [lectureId, action, ...rest] = path.substring('/api/lectures/'.length).split('/');
+      const isGenerate = request.method === 'POST' && action === 'quiz';
+      const isList = request.method === 'GET' && action === 'quizzes';
+      if (!lectureId || rest.length > 0 || (!isGenerate && !isList)) {
+        return addCorsHeaders(new Response('Not Found.', { status: 404 }));
+      }
+
+      // --- AUTHORIZATION (Permission Check) ---
+      const access = await getLectureAccess(env.lecturelens_db, userId, lectureId);
+      if (!roleAllows(access?.role, 'study')){
+        return forbiddenLectureResponse(access);
+      }
+
+      try {
+        if (isList) {
+          const {results} = await env.lecturelens_db.prepare(
+            `SELECT q.id, q.difficulty, q.created_at, json_array_length(q.questions) AS question_count,
+              COUNT(a.id) AS attempt_count, MAX(a.score) AS best_score,
+              (SELECT score FROM quiz_attempts WHERE quiz_id = q.id ORDER BY created_at DESC LIMIT 1) AS last_score
+            FROM quizzes q LEFT JOIN quiz_attempts a ON a.quiz_id = q.id
+            WHERE q.user_id = ? AND q.lecture_id = ? GROUP BY q.id ORDER BY q.created_at DESC`
+          ).bind(userId, lectureId).all();
+          return addCorsHeaders(new Response(JSON.stringify({ quizzes: results }), { status: 200, headers: { 'Content-Type': 'application/json' } }));
+        }
+
+        const body = await request.json().catch(() => null) as { count?: unknown; difficulty?: unknown; types?: unknown; model?: unknown } | null;
+        if (!body || typeof body !== 'object' || Array.isArray(body)) {
+          return addCorsHeaders(new Response(JSON.stringify({ error: 'Invalid quiz request', message: 'Request body must be a JSON object' }), { 
+            status: 400,
+            headers: { 'Content-Type': 'application/json' }
+          }));
+        }
+        const count = body.count ?? DEFAULT_QUIZ_QUESTIONS;
+        const difficulty = (body.difficulty ?? 'medium') as QuizDifficulty;
+        const types = (body.types ?? QUESTION_TYPES) as QuestionType[];
+        if (typeof count !== 'number' || !Number.isInteger(count) || count < 1 || count > MAX_QUIZ_QUESTIONS
+          || !QUIZ_DIFFICULTIES.includes(difficulty)
+          || !Array.isArray(types) || types.length === 0 || types.some((type) => !QUESTION_TYPES.includes(type))) {
+          return addCorsHeaders(new Response(JSON.stringify({ 
+            error: 'Invalid quiz request',
+            message: `count must be an integer from 1 to ${MAX_QUIZ_QUESTIONS}, difficulty one of ${QUIZ_DIFFICULTIES.join(', ')} and types a non-empty list of ${QUESTION_TYPES.join(', ')}`
+          }), { 
+            status: 400,
+            headers: { 'Content-Type': 'application/json' }
+          }));
+        }
+
+        const { model, error: modelError } = parseModelSelection(body.model, env);
+        if (!model) {
+          return addCorsHeaders(new Response(JSON.stringify({ error: modelError }), { 
+            status: 400,
+            headers: { 'Content-Type': 'application/json' }
+          }));
+        }
+
+        // --- RATE LIMITING ---
+        const rateLimitStatus = await checkLectureRateLimit(userId, lectureId, 'quiz', env);
+        if (!rateLimitStatus.allowed) {
+          console.log('Rate limit exceeded for quiz', { userId, remaining: rateLimitStatus.remaining });
+          return createRateLimitResponse(rateLimitStatus);
+        }
+
+        const stub = env.LECTURE_MEMORY.get(env.LECTURE_MEMORY.idFromName(lectureId));
+        const rawLectureResponse = await stub.fetch("https://do-placeholder/raw-lecture-text");
+        if (!rawLectureResponse.ok) {
+          return addCorsHeaders(new Response(JSON.stringify({ error: 'No lecture text found' }), { 
+            status: 404,
+            headers: { 'Content-Type': 'application/json' }
+          }));
+        }
+        const { rawText } = await rawLectureResponse.json() as { rawText: string };
+
+        const questions = await generateQuiz(createAiProvider(env), model, rawText, count, difficulty, [...new Set(types)]);
+
+        const quizId = crypto.randomUUID();
+        const createdAt = new Date().toISOString();
+        await env.lecturelens_db.prepare(
+          'INSERT INTO quizzes (id, user_id, lecture_id, difficulty, questions, created_at) VALUES (?, ?, ?, ?, ?, ?)'
+        ).bind(quizId, userId, lectureId, difficulty, JSON.stringify(questions), createdAt).run();
+
+        return addCorsHeaders(new Response(JSON.stringify({
+          quiz: { id: quizId, lecture_id: lectureId, difficulty, created_at: createdAt, questions: toPublicQuestions(questions) }
+        }), { status: 201, headers: { 'Content-Type': 'application/json' } }));
+      } catch (error) {
+        console.error('Quiz error:', error);
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return addCorsHeaders(new Response(JSON.stringify({
+          error: 'Failed to process quiz request',
+          details: errorMessage
+        }), {
+          status: 500,
+          headers: { 'Content-Type': 'application/json' }
+        }));
+      }
+    }
+
+    // QUIZ ENDPOINTS
+    // GET /api/quizzes/:quizId returns the questions (without answers) and the attempts so far
+    // POST /api/quizzes/:quizId/submit grades {answers: {questionId: answer}} and stores the attempt
+    // GET /api/quizzes/:quizId/attempts/:attemptId returns a graded attempt with per-question feedback
+    if (path.startsWith('/api/quizzes/')) {
+      // --- VALIDATE SESSION ---
+      const userId = await validateSession(request, env.lecturelens_db);
+      if (!userId){
+        return addCorsHeaders(new Response(JSON.stringify({ error: 'Unauthorized' }), { 
+          status: 401,
+          headers: { 'Content-Type': 'application/json' }
+        }));
+      }
+
+      const [quizId, action, attemptId, ...rest] = path.substring('/api/quizzes/'.length).split('/');
+      const isGet = request.method === 'GET' && !action;
+      const isSubmit = request.method === 'POST' && action === 'submit' && !attemptId;
+      const isGetAttempt = request.method === 'GET' && action === 'attempts' && !!attemptId;
+      if (!quizId || rest.length > 0 || (!isGet && !isSubmit && !isGetAttempt)) {
+        return addCorsHeaders(new Response('Not Found.', { status: 404 }));
+      }
+
+      try {
+        // --- AUTHORIZATION (Permission Check) ---
+        // Quizzes of lectures in the trash are hidden with the lecture
+        const quiz = await env.lecturelens_db.prepare(
+          `SELECT q.id, q.lecture_id, q.difficulty, q.questions, q.created_at FROM quizzes q
+          WHERE q.id = ? AND q.user_id = ? AND ${lectureAccessCondition('q.user_id', 'q.lecture_id')}`
+        ).bind(quizId, userId).first<{ id: string; lecture_id: string; difficulty: string; questions: string; created_at: string }>();
+        if (!quiz) {
+          return addCorsHeaders(new Response(JSON.stringify({ error: 'Quiz not found' }), { 
+            status: 404,
+            headers: { 'Content-Type': 'application/json' }
+          }));
+        }
+        const questions = JSON.parse(quiz.questions) as QuizQuestion[];
+
+        if (isGet) {
+          const {results: attempts} = await env.lecturelens_db.prepare(
+            'SELECT id, score, max_score, created_at FROM quiz_attempts WHERE quiz_id = ? ORDER BY created_at'
+          ).bind(quizId).all();
+          return addCorsHeaders(new Response(JSON.stringify({
+            quiz: { id: quiz.id, lecture_id: quiz.lecture_id, difficulty: quiz.difficulty, created_at: quiz.created_at, questions: toPublicQuestions(questions) },
+            attempts
+          }), { status: 200, headers: { 'Content-Type': 'application/json' } }));
+        }
+
+        if (isGetAttempt) {
+          const attempt = await env.lecturelens_db.prepare(
+            'SELECT id, answers, results, score, max_score, created_at FROM quiz_attempts WHERE id = ? AND quiz_id = ?'
+          ).bind(attemptId, quizId).first<{ id: string; answers: string; results: string; score: number; max_score: number; created_at: string }>();
+          if (!attempt) {
+            return addCorsHeaders(new Response(JSON.stringify({ error: 'Attempt not found' }), { 
+              status: 404,
+              headers: { 'Content-Type': 'application/json' }
+            }));
+          }
+          return addCorsHeaders(new Response(JSON.stringify({
+            attempt: { ...attempt, answers: JSON.parse(attempt.answers), results: JSON.parse(attempt.results) }
+          }), { status: 200, headers: { 'Content-Type': 'application/json' } }));
+        }
+
+        const body = await request.json().catch(() => null) as { answers?: unknown; model?: unknown } | null;
+        const answers = body?.answers;
+        if (!answers || typeof answers !== 'object' || Array.isArray(answers)) {
+          return addCorsHeaders(new Response(JSON.stringify({ error: 'Invalid submission', message: 'answers must be an object mapping question IDs to answers' }), { 
+            status: 400,
+            headers: { 'Content-Type': 'application/json' }
+          }));
+        }
+
+        const { model, error: modelError } = parseModelSelection(body?.model, env);
+        if (!model) {
+          return addCorsHeaders(new Response(JSON.stringify({ error: modelError }), { 
+            status: 400,
+            headers: { 'Content-Type': 'application/json' }
+          }));
+        }
+
+        // --- RATE LIMITING (only short answers are graded by the model) ---
+        if (questions.some((question) => question.type === 'short_answer')) {
+          const rateLimitStatus = await checkRateLimit(userId, 'grade', env);
+          if (!rateLimitStatus.allowed) {
+            console.log('Rate limit exceeded for quiz grading', { userId, remaining: rateLimitStatus.remaining });
+            return createRateLimitResponse(rateLimitStatus);
+          }
+        }
+
+        // Only answers to this quiz's questions are graded and stored
+        const submitted = Object.fromEntries(questions.map((question) => [question.id, (answers as Record<string, unknown>)[question.id] ?? null]));
+        const grade = await gradeQuiz(createAiProvider(env), model, questions, submitted);
+
+        const attempt = { id: crypto.randomUUID(), quiz_id: quizId, score: grade.score, max_score: grade.maxScore, created_at: new Date().toISOString() };
+        await env.lecturelens_db.prepare(
+          'INSERT INTO quiz_attempts (id, quiz_id, user_id, answers, results, score, max_score, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)'
+        ).bind(attempt.id, quizId, userId, JSON.stringify(submitted), JSON.stringify(grade.results), attempt.score, attempt.max_score, attempt.created_at).run();
+
+        return addCorsHeaders(new Response(JSON.stringify({ attempt: { ...attempt, results: grade.results } }), { status: 201, headers: { 'Content-Type': 'application/json' } }));
+      } catch (error) {
+        console.error('Quiz error:', error);
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return addCorsHeaders(new Response(JSON.stringify({
+          error: 'Failed to process quiz request',
+          details: errorMessage
+        }), {
+          status: 500,
+          headers: { 'Content-Type': 'application/json' }
+        }));
+      }
+    }
+
+    // FLASHCARD ENDPOINTS
+    // PATCH /api/flashcards/:cardId edits a card's question and/or answer; DELETE removes it
+    if (path.startsWith('/api/flashcards/') && (request.method === 'PATCH' || request.method === 'DELETE')) {
+      // --- VALIDATE SESSION ---
+      const userId = await validateSession(request, env.lecturelens_db);
+      if (!userId){
+        return addCorsHeaders(new Response(JSON.stringify({ error: 'Unauthorized' }), { 
+          status: 401,
+          headers: { 'Content-Type': 'application/json' }
+        }));
+      }
+
+      const cardId = path.substring('/api/flashcards/'.length);
+      if (!cardId || cardId.includes('/')) {
+        return addCorsHeaders(new Response('Not Found.', { status: 404 }));
+      }
+
+      try {
+        if (request.method === 'DELETE') {
+          const result = await env.lecturelens_db.prepare('DELETE FROM flashcards WHERE id = ? AND user_id = ?').bind(cardId, userId).run();
+          if (!result.meta.changes) {
+            return addCorsHeaders(new Response(JSON.stringify({ error: 'Flashcard not found' }), { 
+              status: 404,
+              headers: { 'Content-Type': 'application/json' }
+            }));
+          }
+          return addCorsHeaders(new Response(JSON.stringify({ message: 'Flashcard deleted', id: cardId }), { status: 200, headers: { 'Content-Type': 'application/json' } }));
+        }
+
+        const body = await request.json().catch(() => null) as { question?: unknown; answer?: unknown } | null;
+        const updates: Record<string, string> = {};
+        for (const [field, maxLength] of [['question', MAX_QUESTION_LENGTH], ['answer', MAX_ANSWER_LENGTH]] as const) {
+          const value = body?.[field];
+          if (value === undefined) {
+            continue;
+          }
+          if (typeof value !== 'string' || !value.trim() || value.trim().length > maxLength) {
+            return addCorsHeaders(new Response(JSON.stringify({ error: 'Invalid flashcard', message: `${field} must be 1-${maxLength} characters` }), { 
+              status: 400,
+              headers: { 'Content-Type': 'application/json' }
+            }));
+          }
+          updates[field] = value.trim();
+        }
+        if (Object.keys(updates).length === 0) {
+          return addCorsHeaders(new Response(JSON.stringify({ error: 'Invalid flashcard', message: 'No fields to update. Supported fields: question, answer' }), { 
+            status: 400,
+            headers: { 'Content-Type': 'application/json' }
+          }));
+        }
+
+        const card = await env.lecturelens_db.prepare(
+          `UPDATE flashcards SET question = COALESCE(?, question), answer = COALESCE(?, answer), updated_at = ? WHERE id = ? AND user_id = ?
+          RETURNING ${FLASHCARD_COLUMNS}`
+        ).bind(updates.question ?? null, updates.answer ?? null, new Date().toISOString(), cardId, userId).first();
+        if (!card) {
+          return addCorsHeaders(new Response(JSON.stringify({ error: 'Flashcard not found' }), { 
+            status: 404,
+            headers: { 'Content-Type': 'application/json' }
+          }));
+        }
+        return addCorsHeaders(new Response(JSON.stringify({ flashcard: card }), { status: 200, headers: { 'Content-Type': 'application/json' } }));
+      } catch (error) {
+        console.error('Flashcard update error:', error);
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return addCorsHeaders(new Response(JSON.stringify({
+          error: 'Failed to update flashcard',
+          details: errorMessage
+        }), {
+          status: 500,
+          headers: { 'Content-Type': 'application/json' }
+        }));
+      }
+    }
+
+    // REVIEW ENDPOINTS
+    // GET /api/review/due?lectureId=&limit= lists cards due for review, most overdue first
+    // POST /api/review/:cardId records a review ({grade} from 0 = forgot to 5 = perfect) and reschedules the card
+    if (path.startsWith('/api/review/')) {
+      // --- VALIDATE SESSION ---
+      const userId = await validateSession(request, env.lecturelens_db);
+      if (!userId){
+        return addCorsHeaders(new Response(JSON.stringify({ error: 'Unauthorized' }), { 
+          status: 401,
+          headers: { 'Content-Type': 'application/json' }
+        }));
+      }
+
+      const target = path.substring('/api/review/'.length);
+      const isDue = target === 'due' && request.method === 'GET';
+      if ((!isDue && request.method !== 'POST') || !target || target.includes('/')) {
+        return addCorsHeaders(new Response('Not Found.', { status: 404 }));
+      }
+
+      try {
+        const now = new Date();
+
+        if (isDue) {
+          const limitParam = Number(url.searchParams.get('limit') || 20);
+          const limit = Number.isInteger(limitParam) && limitParam > 0 ? Math.min(limitParam, 100) : 20;
+          const lectureId = url.searchParams.get('lectureId');
+
+          // Cards of lectures in the trash are not reviewed
+          let query = `SELECT f.id, f.lecture_id, a.lecture_name, f.question, f.answer, f.ease_factor, f.interval_days, f.repetitions, f.due_at, f.last_reviewed_at
+            FROM flashcards f JOIN (SELECT DISTINCT user_id, lecture_id, lecture_name FROM ${LECTURE_ACCESS}) a ON a.user_id = f.user_id AND a.lecture_id = f.lecture_id
+            WHERE f.user_id = ? AND f.due_at <= ?`;
+          const params: string[] = [userId, now.toISOString()];
+          if (lectureId) {
+            query += ' AND f.lecture_id = ?';
+            params.push(lectureId);
+          }
+
+          const [{results}, total] = await Promise.all([
+            env.lecturelens_db.prepare(`${query} ORDER BY f.due_at, f.rowid LIMIT ?`).bind(...params, limit).all(),
+            env.lecturelens_db.prepare(`SELECT COUNT(*) AS count FROM (${query})`).bind(...params).first<{ count: number }>(),
+          ]);
+          return addCorsHeaders(new Response(JSON.stringify({ flashcards: results, dueCount: total?.count ?? 0 }), { status: 200, headers: { 'Content-Type': 'application/json' } }));
+        }
+
+        const body = await request.json().catch(() => null) as { grade?: unknown } | null;
+        const grade = body?.grade;
+        if (typeof grade !== 'number' || !Number.isInteger(grade) || grade < 0 || grade > 5) {
+          return addCorsHeaders(new Response(JSON.stringify({ error: 'Invalid review', message: 'grade must be an integer from 0 (forgot) to 5 (perfect recall)' }), { 
+            status: 400,
+            headers: { 'Content-Type': 'application/json' }
+          }));
+        }
+
+        const card = await env.lecturelens_db.prepare(
+          'SELECT ease_factor, interval_days, repetitions, due_at FROM flashcards WHERE id = ? AND user_id = ?'
+        ).bind(target, userId).first<{ ease_factor: number; interval_days: number; repetitions: number; due_at: string }>();
+        if (!card) {
+          return addCorsHeaders(new Response(JSON.stringify({ error: 'Flashcard not found' }), { 
+            status: 404,
+            headers: { 'Content-Type': 'application/json' }
+          }));
+        }
+
+        const schedule = scheduleReview({ easeFactor: card.ease_factor, intervalDays: card.interval_days, repetitions: card.repetitions, dueAt: card.due_at }, grade, now);
+        await env.lecturelens_db.prepare(
+          'UPDATE flashcards SET ease_factor = ?, interval_days = ?, repetitions = ?, due_at = ?, last_reviewed_at = ? WHERE id = ? AND user_id = ?'
+        ).bind(schedule.easeFactor, schedule.intervalDays, schedule.repetitions, schedule.dueAt, now.toISOString(), target, userId).run();
+
+        return addCorsHeaders(new Response(JSON.stringify({ id: target, grade, ...schedule, reviewedAt: now.toISOString() }), { status: 200, headers: { 'Content-Type': 'application/json' } }));
+      } catch (error) {
+        console.error('Review error:', error);
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return addCorsHeaders(new Response(JSON.stringify({
+          error: 'Failed to process review',
+          details: errorMessage
+        }), {
+          status: 500,
+          headers: { 'Content-Type': 'application/json' }
+        }));
+      }
+    }
+
+    // DELETE LECTURE ENDPOINT
+    // Moves the lecture to the trash; ?permanent=true purges it immediately (also from the trash)
+    if (path.startsWith('/api/lectures/') && request.method === 'DELETE') {
+      // --- VALIDATE SESSION ---
+      const userId = await validateSession(request, env.lecturelens_db);
+      if (!userId){
+        return addCorsHeaders(new Response(JSON.stringify({ error: 'Unauthorized' }), { 
+          status: 401,
+          headers: { 'Content-Type': 'application/json' }
+        }));
+      }
+
+      // Extract lecture ID from path
+      const lectureId = path.split('/').pop();
+      if (!lectureId) {
+        return addCorsHeaders(new Response(JSON.stringify({ error: 'Missing lecture ID' }), { 
+          status: 400,
+          headers: { 'Content-Type': 'application/json' }
+        }));
+      }
+      const permanent = url.searchParams.get('permanent') === 'true';
+
+      // --- AUTHORIZATION (Ownership Check) ---
+      const ownership = await env.lecturelens_db.prepare(
+        'SELECT user_id, deleted_at FROM user_lectures WHERE user_id = ? AND lecture_id = ?'
+      ).bind(userId, lectureId).first<{ user_id: string; deleted_at: string | null }>();
+      
+      if (!ownership || (ownership.deleted_at && !permanent)){
+        return addCorsHeaders(new Response(JSON.stringify({ error: 'Forbidden: You do not have access to this lecture.' }), { 
+          status: 403,
+          headers: { 'Content-Type': 'application/json' }
+        }));
+      }
+
+      try {
+        if (permanent) {
+          await purgeLecture(env, userId, lectureId);
+
+          return addCorsHeaders(new Response(JSON.stringify({ 
+            message: 'Lecture deleted permanently',
+            lectureId: lectureId
+          }), { 
+            status: 200, 
+            headers: { 'Content-Type': 'application/json' } 
+          }));
+        }
+
+        // Soft delete: the lecture is hidden and purged once the retention window has passed
+        const { deletedAt, purgeAt } = await trashLecture(env, userId, lectureId);
+
+        return addCorsHeaders(new Response(JSON.stringify({ 
+          message: 'Lecture moved to trash',
+          lectureId: lectureId,
+          deletedAt,
+          purgeAt
+        }), { 
+          status: 200, 
+          headers: { 'Content-Type': 'application/json' } 
+        }));
+      } catch (error) {
+        console.error('Delete lecture error:', error);
+        return addCorsHeaders(new Response(JSON.stringify({ error: 'Internal Server Error' }), { 
+          status: 500,
+          headers: { 'Content-Type': 'application/json' }
+        }));
+      }
+    }
+
+    // UPDATE LECTURE METADATA ENDPOINT
+    // Rename a lecture, assign it to a course and set its term, description and tags
+    if (path.startsWith('/api/lectures/') && request.method === 'PATCH') {
+      // --- VALIDATE SESSION ---
+      const userId = await validateSession(request, env.lecturelens_db);
+      if (!userId){
+        return addCorsHeaders(new Response(JSON.stringify({ error: 'Unauthorized' }), { 
+          status: 401,
+          headers: { 'Content-Type': 'application/json' }
+        }));
+      }
+
+      const lectureId = path.substring('/api/lectures/'.length);
+      if (!lectureId || lectureId.includes('/')) {
+        return addCorsHeaders(new Response('Not Found.', { status: 404 }));
+      }
+
+      // --- AUTHORIZATION (Permission Check) ---
+      const access = await getLectureAccess(env.lecturelens_db, userId, lectureId);
+      if (!roleAllows(access?.role, 'manage')){
+        return forbiddenLectureResponse(access);
+      }
+
+      try {
+        const body = await request.json().catch(() => null);
+        const { update, error } = parseLectureMetadataUpdate(body);
+        if (!update) {
+          return addCorsHeaders(new Response(JSON.stringify({ error: 'Invalid lecture metadata', message: error }), { 
+            status: 400,
+            headers: { 'Content-Type': 'application/json' }
+          }));
+        }
+
+        if (update.courseId) {
+          const course = await env.lecturelens_db.prepare(
+            'SELECT id FROM courses WHERE id = ? AND user_id = ?'
+          ).bind(update.courseId, userId).first();
+          if (!course) {
+            return addCorsHeaders(new Response(JSON.stringify({ error: 'Invalid lecture metadata', message: 'Course not found' }), { 
+              status: 400,
+              headers: { 'Content-Type': 'application/json' }
+            }));
+          }
+        }
+
+        // Only the fields present in the body are changed
+        const columns: string[] = ['updated_at = ?'];
+        const values: (string | null)[] = [new Date().toISOString()];
+        if (update.name !== undefined) {
+          columns.push('lecture_name = ?');
+          values.push(update.name);
+        }
+        if (update.courseId !== undefined) {
+          columns.push('course_id = ?');
+          values.push(update.courseId);
+        }
+        for (const field of ['term', 'description'] as const) {
+          if (update[field] !== undefined) {
+            columns.push(`${field} = ?`);
+            values.push(update[field]!);
+          }
+        }
+
+        const statements = [
+          env.lecturelens_db.prepare(
+            `UPDATE user_lectures SET ${columns.join(', ')} WHERE user_id = ? AND lecture_id = ?`
+          ).bind(...values, userId, lectureId)
+        ];
+        if (update.tags) {
+          statements.push(env.lecturelens_db.prepare('DELETE FROM lecture_tags WHERE user_id = ? AND lecture_id = ?').bind(userId, lectureId));
+          for (const tag of update.tags) {
+            statements.push(env.lecturelens_db.prepare('INSERT INTO lecture_tags (user_id, lecture_id, tag) VALUES (?, ?, ?)').bind(userId, lectureId, tag));
+          }
+        }
+        await env.lecturelens_db.batch(statements);
+
+        const lecture = await env.lecturelens_db.prepare(
+          `${LECTURE_SELECT} WHERE l.user_id = ? AND l.lecture_id = ?`
+        ).bind(userId, lectureId).first<LectureRow>();
+        const [updated] = await withLectureTags(env, userId, [lecture!]);
+
+        return addCorsHeaders(new Response(JSON.stringify({ 
+          message: 'Lecture updated successfully',
+          lecture: updated
+        }), { 
+          status: 200, 
+          headers: { 'Content-Type': 'application/json' } 
+        }));
+      } catch (error) {
+        console.error('Update lecture error:', error);
+        return addCorsHeaders(new Response(JSON.stringify({ error: 'Internal Server Error' }), { 
+          status: 500,
+          headers: { 'Content-Type': 'application/json' }
+        }));
+      }
+    }
+
+    // RESTORE LECTURE ENDPOINT
+    if (path.startsWith('/api/lectures/') && path.endsWith('/restore') && request.method === 'POST') {
+      // --- VALIDATE SESSION ---
+      const userId = await validateSession(request, env.lecturelens_db);
+      if (!userId){
+        return addCorsHeaders(new Response(JSON.stringify({ error: 'Unauthorized' }), { 
+          status: 401,
+          headers: { 'Content-Type': 'application/json' }
+        }));
+      }
+
+      const lectureId = path.split('/')[3];
+
+      try {
+        // Only lectures still inside the retention window can be restored
+        const cutoff = new Date(Date.now() - TRASH_RETENTION_MS).toISOString();
+        const result = await env.lecturelens_db.prepare(
+          'UPDATE user_lectures SET deleted_at = NULL WHERE user_id = ? AND lecture_id = ? AND deleted_at IS NOT NULL AND deleted_at >= ?'
+        ).bind(userId, lectureId, cutoff).run();
+
+        if (result.meta.changes === 0) {
+          return addCorsHeaders(new Response(JSON.stringify({ error: 'Lecture not found in trash' }), { 
+            status: 404,
+            headers: { 'Content-Type': 'application/json' }
+          }));
+        }
+
+        return addCorsHeaders(new Response(JSON.stringify({ 
+          message: 'Lecture restored successfully',
+          lectureId: lectureId
+        }), { 
+          status: 200, 
+          headers: { 'Content-Type': 'application/json' } 
+        }));
+      } catch (error) {
+        console.error('Restore lecture error:', error);
+        return addCorsHeaders(new Response(JSON.stringify({ error: 'Internal Server Error' }), { 
+          status: 500,
+          headers: { 'Content-Type': 'application/json' }
+        }));
+      }
+    }
+
+    // TRASH ENDPOINT - lectures deleted within the retention window
+    if (path === '/api/trash' && request.method === 'GET') {
+      // --- VALIDATE SESSION ---
+      const userId = await validateSession(request, env.lecturelens_db);
+      if (!userId){
+        return addCorsHeaders(new Response(JSON.stringify({ error: 'Unauthorized' }), { 
+          status: 401,
+          headers: { 'Content-Type': 'application/json' }
+        }));
+      }
+
+      try {
+        const {results} = await env.lecturelens_db.prepare(
+          'SELECT lecture_id, lecture_name, created_at, deleted_at FROM user_lectures WHERE user_id = ? AND deleted_at IS NOT NULL ORDER BY deleted_at DESC'
+        ).bind(userId).all<{ lecture_id: string; lecture_name: string; created_at: string; deleted_at: string }>();
+
+        const lectures = results.map((lecture) => ({
+          ...lecture,
+          purge_at: new Date(new Date(lecture.deleted_at).getTime() + TRASH_RETENTION_MS).toISOString()
+        }));
+
+        return addCorsHeaders(new Response(JSON.stringify({ lectures, retentionDays: TRASH_RETENTION_DAYS }), { status: 200, headers: { 'Content-Type': 'application/json' } }));
+      } catch (error) {
+        console.error('Get trash error:', error);
+        return addCorsHeaders(new Response(JSON.stringify({ error: 'Internal Server Error' }), { 
+          status: 500,
+          headers: { 'Content-Type': 'application/json' }
+        }));
+      }
+    }
+
+    // LOGOUT ENDPOINT
+    if (path === '/api/auth/logout' && request.method === 'POST') {
+      // --- VALIDATE SESSION ---
+      const userId = await validateSession(request, env.lecturelens_db);
+      if (!userId){
+        return addCorsHeaders(new Response(JSON.stringify({ error: 'Unauthorized' }), { 
+          status: 401,
+          headers: { 'Content-Type': 'application/json' }
+        }));
+      }
+
+      try {
+      // Delete the session from the database
+      await env.lecturelens_db.prepare('DELETE FROM sessions WHERE token = ?').bind(request.headers.get('Authorization')?.split(' ')[1]).run();
+
+      // Return a success response
+      return addCorsHeaders(new Response(JSON.stringify({ message: 'Logout successful' }), { status: 200, headers: { 'Content-Type': 'application/json' } }));
+      } catch (error) {
+        console.error('Logout error:', error);
+        return addCorsHeaders(new Response(JSON.stringify({ error: 'Internal Server Error' }), { 
+          status: 500,
+          headers: { 'Content-Type': 'application/json' }
+        }));
+      }
+    }
+
+    // AI MODELS ENDPOINT
+    // GET /api/models lists the models chat, summarize, extract, jobs, flashcards and quizzes accept in their "model" field
+    if (path === '/api/models' && request.method === 'GET') {
+      const models = availableModels(env).map((id) => ({ id, label: AI_MODELS[id].label, provider: AI_MODELS[id].provider, fallback: AI_MODELS[id].fallback ?? null }));
+      return addCorsHeaders(new Response(JSON.stringify({ models, defaultModel: DEFAULT_AI_MODEL }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' }
+      }));
+    }
+
+    // STATS ENDPOINT - Track signups and usage
+    // This endpoint returns aggregate statistics about the app
+    if (path === '/api/stats' && request.method === 'GET') {
+      try {
+        // Get total user count
+        const userCountResult = await env.lecturelens_db.prepare(
+          'SELECT COUNT(*) as count FROM users'
+        ).first();
+        
+        // Get total lecture count
+        const lectureCountResult = await env.lecturelens_db.prepare(
+          'SELECT COUNT(*) as count FROM user_lectures'
+        ).first();
         
         // Get signups in the last 24 hours
         const oneDayAgo = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
@@ -1140,18 +3717,6 @@ export default {
       }
     }
 
-    // Handle OPTIONS request (preflight checks)
-    if (request.method === 'OPTIONS'){
-      return new Response(null, {
-        headers: {
-          'Access-Control-Allow-Origin': '*',
-          'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
-          'Access-Control-Allow-Headers': 'Content-Type, Authorization',
-        },
-      });
-    }
-
-
     // Root Endpoint
     if (path === '/' && request.method === 'GET') {
       return addCorsHeaders(new Response('LectureLens API is running!', { status: 200 }));
@@ -1160,4 +3725,24 @@ export default {
     // 404 Fallback
     return addCorsHeaders(new Response('Not Found.', { status: 404 }));
   },
+
+  // Cron trigger: purge lectures whose trash retention window has passed
+  async scheduled(controller: ScheduledController, env: Env, ctx: ExecutionContext): Promise<void> {
+    const cutoff = new Date(Date.now() - TRASH_RETENTION_MS).toISOString();
+    const {results} = await env.lecturelens_db.prepare(
+      'SELECT user_id, lecture_id FROM user_lectures WHERE deleted_at IS NOT NULL AND deleted_at < ? ORDER BY deleted_at LIMIT ?'
+    ).bind(cutoff, MAX_PURGES_PER_RUN).all<{ user_id: string; lecture_id: string }>();
+
+    let purged = 0;
+    for (const lecture of results) {
+      try {
+        await purgeLecture(env, lecture.user_id, lecture.lecture_id);
+        purged++;
+      } catch (error) {
+        // Left in the trash; the next run retries it
+        console.error(`Failed to purge lecture ${lecture.lecture_id}:`, error);
+      }
+    }
+    console.log('Trash purge:', { expired: results.length, purged, cutoff });
+  },
 };
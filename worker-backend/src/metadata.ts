@@ -0,0 +1,131 @@
+// Editable lecture metadata (name, course, term, description, tags) and course names:
+// request validation and the sort options accepted by the lecture list endpoints.
+
+export interface LectureMetadataUpdate {
+  name?: string;
+  courseId?: string | null; // null moves the lecture to "Unsorted"
+  term?: string | null;
+  description?: string | null;
+  tags?: string[];
+}
+
+export const MAX_NAME_LENGTH = 200;
+export const MAX_COURSE_NAME_LENGTH = 100;
+export const MAX_TERM_LENGTH = 50;
+export const MAX_DESCRIPTION_LENGTH = 2000;
+export const MAX_TAGS = 20;
+export const MAX_TAG_LENGTH = 50;
+
+// Sort keys for the lecture lists mapped to SQL expressions over user_lectures `l` joined
+// with courses `c` (never interpolate user input directly)
+export const LECTURE_SORT_COLUMNS: Record<string, string> = {
+  created: 'l.created_at',
+  updated: 'COALESCE(l.updated_at, l.created_at)',
+  name: 'l.lecture_name COLLATE NOCASE',
+  course: 'c.name COLLATE NOCASE',
+  term: 'l.term COLLATE NOCASE',
+};
+
+type ParseResult = { update: LectureMetadataUpdate; error?: undefined } | { update?: undefined; error: string };
+
+/**
+ * Read ?sort= and ?order= into an ORDER BY clause. Dates default to newest first, text to A-Z.
+ */
+export function parseLectureSort(params: URLSearchParams): { orderBy: string; error?: undefined } | { orderBy?: undefined; error: string } {
+  const sort = params.get('sort') || 'created';
+  const order = (params.get('order') || (sort === 'created' || sort === 'updated' ? 'desc' : 'asc')).toLowerCase();
+
+  if (!LECTURE_SORT_COLUMNS[sort] || (order !== 'asc' && order !== 'desc')) {
+    return { error: `sort must be one of ${Object.keys(LECTURE_SORT_COLUMNS).join(', ')} and order must be asc or desc` };
+  }
+  return { orderBy: `${LECTURE_SORT_COLUMNS[sort]} ${order.toUpperCase()}, l.created_at DESC` };
+}
+
+/**
+ * Validate a course name for create/rename
+ */
+export function parseCourseName(value: unknown): { name: string; error?: undefined } | { name?: undefined; error: string } {
+  if (typeof value !== 'string' || !value.trim()) {
+    return { error: 'name must be a non-empty string' };
+  }
+  if (value.trim().length > MAX_COURSE_NAME_LENGTH) {
+    return { error: `name must be at most ${MAX_COURSE_NAME_LENGTH} characters` };
+  }
+  return { name: value.trim() };
+}
+
+/**
+ * Validate a PATCH body. Omitted fields are left unchanged; null or "" clears an optional field.
+ */
+export function parseLectureMetadataUpdate(body: unknown): ParseResult {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { error: 'Request body must be a JSON object' };
+  }
+  const input = body as Record<string, unknown>;
+  const update: LectureMetadataUpdate = {};
+
+  if (input.name !== undefined) {
+    if (typeof input.name !== 'string' || !input.name.trim()) {
+      return { error: 'name must be a non-empty string' };
+    }
+    if (input.name.trim().length > MAX_NAME_LENGTH) {
+      return { error: `name must be at most ${MAX_NAME_LENGTH} characters` };
+    }
+    update.name = input.name.trim();
+  }
+
+  if (input.courseId !== undefined) {
+    if (input.courseId !== null && typeof input.courseId !== 'string') {
+      return { error: 'courseId must be a string or null' };
+    }
+    update.courseId = input.courseId || null;
+  }
+
+  const optionalFields = [
+    ['term', MAX_TERM_LENGTH],
+    ['description', MAX_DESCRIPTION_LENGTH],
+  ] as const;
+  for (const [field, maxLength] of optionalFields) {
+    const value = input[field];
+    if (value === undefined) {
+      continue;
+    }
+    if (value !== null && typeof value !== 'string') {
+      return { error: `${field} must be a string or null` };
+    }
+    const trimmed = value?.trim() || null;
+    if (trimmed && trimmed.length > maxLength) {
+      return { error: `${field} must be at most ${maxLength} characters` };
+    }
+    update[field] = trimmed;
+  }
+
+  if (input.tags !== undefined) {
+    if (!Array.isArray(input.tags) || input.tags.some((tag) => typeof tag !== 'string')) {
+      return { error: 'tags must be an array of strings' };
+    }
+    // Tags are matched case-insensitively, so keep the first spelling of each
+    const tags = new Map<string, string>();
+    for (const tag of input.tags as string[]) {
+      const trimmed = tag.trim();
+      if (!trimmed) {
+        continue;
+      }
+      if (trimmed.length > MAX_TAG_LENGTH) {
+        return { error: `tags must be at most ${MAX_TAG_LENGTH} characters each` };
+      }
+      if (!tags.has(trimmed.toLowerCase())) {
+        tags.set(trimmed.toLowerCase(), trimmed);
+      }
+    }
+    if (tags.size > MAX_TAGS) {
+      return { error: `A lecture can have at most ${MAX_TAGS} tags` };
+    }
+    update.tags = [...tags.values()];
+  }
+
+  if (Object.keys(update).length === 0) {
+    return { error: 'No fields to update. Supported fields: name, courseId, term, description, tags' };
+  }
+  return { update };
+}
@@ -0,0 +1,76 @@
+// Server-side PDF text extraction for uploads. Page boundaries are kept as character
+// ranges into the extracted text so citations can be mapped back to page numbers.
+import { extractText, getDocumentProxy } from 'unpdf';
+
+export interface PageRange {
+  page: number; // 1-based page number
+  start: number; // Offset of the page's first character in the extracted text
+  end: number; // Offset just past the page's last character
+}
+
+export interface ExtractedPdf {
+  text: string;
+  pages: PageRange[];
+  totalPages: number;
+}
+
+export type PdfErrorCode = 'encrypted' | 'no_text' | 'invalid';
+
+export class PdfExtractionError extends Error {
+  code: PdfErrorCode;
+
+  constructor(code: PdfErrorCode, message: string) {
+    super(message);
+    this.name = 'PdfExtractionError';
+    this.code = code;
+  }
+}
+
+const PDF_MAGIC = '%PDF-';
+// Some producers write a few junk bytes before the header; readers accept it within the first 1KB
+const PDF_HEADER_SEARCH_BYTES = 1024;
+const PAGE_SEPARATOR = '\n\n';
+
+/**
+ * Check for the `%PDF-` header, regardless of the file's name or declared type
+ */
+export function isPdf(bytes: Uint8Array): boolean {
+  const head = new TextDecoder('latin1').decode(bytes.subarray(0, PDF_HEADER_SEARCH_BYTES));
+  return head.includes(PDF_MAGIC);
+}
+
+/**
+ * Extract the text of every page. Throws a PdfExtractionError for password-protected
+ * files, files without a text layer (scans) and files pdf.js cannot parse.
+ */
+export async function extractPdfText(bytes: Uint8Array): Promise<ExtractedPdf> {
+  let pageTexts: string[];
+  let totalPages: number;
+  try {
+    // pdf.js takes ownership of the buffer it is given, so pass a copy
+    const pdf = await getDocumentProxy(bytes.slice());
+    ({ text: pageTexts, totalPages } = await extractText(pdf, { mergePages: false }));
+  } catch (error) {
+    if (error instanceof Error && error.name === 'PasswordException') {
+      throw new PdfExtractionError('encrypted', 'The PDF is password-protected. Please upload an unencrypted copy.');
+    }
+    throw new PdfExtractionError('invalid', `The PDF could not be parsed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const pages: PageRange[] = [];
+  let text = '';
+  pageTexts.forEach((pageText, i) => {
+    if (i > 0) {
+      text += PAGE_SEPARATOR;
+    }
+    const start = text.length;
+    text += pageText.trim();
+    pages.push({ page: i + 1, start, end: text.length });
+  });
+
+  if (text.trim().length === 0) {
+    throw new PdfExtractionError('no_text', 'The PDF has no extractable text. It may be a scanned or image-only document.');
+  }
+
+  return { text, pages, totalPages };
+}
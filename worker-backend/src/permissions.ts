@@ -0,0 +1,146 @@
+// Access to lectures. Every user's role on a lecture is a row in `lecture_permissions`: the
+// uploader is the owner, and other users join through explicit grants or share links. Members
+// of a study group also reach the lectures in its library (see groups.ts). Access lasts while
+// the lecture is in its owner's library (not in the trash).
+
+export type LectureRole = 'owner' | 'collaborator' | 'viewer' | 'member';
+export type SharedRole = 'collaborator' | 'viewer';
+export type LectureAction = 'read' | 'study' | 'chat' | 'manage';
+
+export interface LectureAccess {
+  role: LectureRole;
+  ownerId: string; // The user whose library the lecture belongs to
+}
+
+export const SHARED_ROLES: SharedRole[] = ['viewer', 'collaborator'];
+
+// Viewers read the lecture and generate their own study material from it (summaries,
+// concepts, flashcards, quizzes); collaborators can also chat in the lecture's shared
+// thread, and group members in threads of their own; only the owner edits, deletes or
+// shares it and sees their private threads.
+const ROLE_ACTIONS: Record<LectureRole, LectureAction[]> = {
+  owner: ['read', 'study', 'chat', 'manage'],
+  collaborator: ['read', 'study', 'chat'],
+  member: ['read', 'study', 'chat'],
+  viewer: ['read', 'study'],
+};
+
+// The chat thread of a lecture that its members share
+export const SHARED_THREAD_ID = 'shared';
+
+export const DEFAULT_SHARE_LINK_DAYS = 7;
+export const MAX_SHARE_LINK_DAYS = 30;
+
+// Joins a permission row `p` to its lecture's owner's library row `o`, whose name, course and
+// trash state apply to every member
+export const LECTURE_OWNER_JOIN = 'JOIN user_lectures o ON o.lecture_id = p.lecture_id AND o.user_id = COALESCE(p.granted_by, p.user_id)';
+
+// Every (user_id, lecture_id, role, owner_id, lecture_name) a user can access outside the trash:
+// their permissions, and the lectures of their groups as 'member' (a user can appear twice)
+export const LECTURE_ACCESS = `(SELECT p.user_id, p.lecture_id, p.role, o.user_id AS owner_id, o.lecture_name
+    FROM lecture_permissions p ${LECTURE_OWNER_JOIN} WHERE o.deleted_at IS NULL
+  UNION ALL
+  SELECT m.user_id, g.lecture_id, 'member', o.user_id, o.lecture_name
+    FROM group_lectures g JOIN group_members m ON m.group_id = g.group_id
+    JOIN user_lectures o ON o.lecture_id = g.lecture_id AND o.user_id = g.added_by WHERE o.deleted_at IS NULL)`;
+
+/**
+ * SQL condition that the user in `userColumn` may access the lecture in `lectureColumn`
+ */
+export function lectureAccessCondition(userColumn: string, lectureColumn: string): string {
+  return `EXISTS (SELECT 1 FROM ${LECTURE_ACCESS} a WHERE a.user_id = ${userColumn} AND a.lecture_id = ${lectureColumn})`;
+}
+
+/**
+ * The user's role on a lecture, or null when they have none (or it is in the trash). A role
+ * granted on the lecture itself takes precedence over group membership.
+ */
+export async function getLectureAccess(db: D1Database, userId: string, lectureId: string): Promise<LectureAccess | null> {
+  const row = await db.prepare(
+    `SELECT a.role, a.owner_id FROM ${LECTURE_ACCESS} a
+    WHERE a.user_id = ? AND a.lecture_id = ? ORDER BY a.role = 'member' LIMIT 1`
+  ).bind(userId, lectureId).first<{ role: LectureRole; owner_id: string }>();
+  return row ? { role: row.role, ownerId: row.owner_id } : null;
+}
+
+export function roleAllows(role: LectureRole | null | undefined, action: LectureAction): boolean {
+  return !!role && ROLE_ACTIONS[role].includes(action);
+}
+
+/**
+ * Whether a Durable Object route is part of the chat (the default chat, its history and
+ * threads), which group members get a private copy of
+ */
+export function isChatRoute(doPath: string): boolean {
+  return doPath === '/chat' || doPath === '/history' || doPath.startsWith('/history/') || doPath === '/threads' || doPath.startsWith('/threads/');
+}
+
+/**
+ * Whether the chat proxy may forward a path to the lecture's Durable Object: the chat, the
+ * lecture text and passages. Its storage routes are only called by the Worker itself.
+ */
+export function isProxiedLectureRoute(doPath: string): boolean {
+  return isChatRoute(doPath) || doPath === '/raw-lecture-text' || doPath === '/passage';
+}
+
+/**
+ * The action a request forwarded to the lecture's Durable Object needs. Other users reach
+ * only the lecture text and the shared thread, or for group members their own chat; every
+ * other route is the owner's.
+ */
+export function lectureRouteAction(method: string, doPath: string, role?: LectureRole | null): LectureAction {
+  if (method === 'GET' && (doPath === '/raw-lecture-text' || doPath === '/passage')) {
+    return 'read';
+  }
+  if (role === 'member' && isChatRoute(doPath)) {
+    return 'chat';
+  }
+  if (doPath === `/threads/${SHARED_THREAD_ID}` || doPath === `/threads/${SHARED_THREAD_ID}/history`) {
+    if (method === 'GET') {
+      return 'read';
+    }
+    if (method === 'POST' && doPath === `/threads/${SHARED_THREAD_ID}`) {
+      return 'chat';
+    }
+  }
+  return 'manage';
+}
+
+/**
+ * Statement recording the uploader as the owner of a new lecture
+ */
+export function ownerPermissionStatement(db: D1Database, userId: string, lectureId: string, createdAt: string): D1PreparedStatement {
+  return db.prepare(
+    "INSERT OR REPLACE INTO lecture_permissions (lecture_id, user_id, role, granted_by, share_token, created_at) VALUES (?, ?, 'owner', NULL, NULL, ?)"
+  ).bind(lectureId, userId, createdAt);
+}
+
+/**
+ * Statement granting a role on a lecture. Explicit grants set the role; joining through a
+ * share link (`shareToken`) only ever upgrades a viewer, and never changes the owner's row.
+ */
+export function grantStatement(db: D1Database, lectureId: string, userId: string, role: SharedRole, grantedBy: string, shareToken: string | null = null): D1PreparedStatement {
+  const upgradeOnly = shareToken ? " AND lecture_permissions.role = 'viewer'" : '';
+  return db.prepare(
+    `INSERT INTO lecture_permissions (lecture_id, user_id, role, granted_by, share_token, created_at) VALUES (?, ?, ?, ?, ?, ?)
+    ON CONFLICT (lecture_id, user_id) DO UPDATE SET role = excluded.role, granted_by = excluded.granted_by, share_token = excluded.share_token
+    WHERE lecture_permissions.role != 'owner'${upgradeOnly}`
+  ).bind(lectureId, userId, role, grantedBy, shareToken, new Date().toISOString());
+}
+
+/**
+ * Statements removing a lecture's permissions and share links when its owner purges it, or
+ * everyone's when `ownerId` is null (the lecture's last copy is purged)
+ */
+export function deleteLecturePermissionsStatements(db: D1Database, ownerId: string | null, lectureId: string): D1PreparedStatement[] {
+  if (ownerId === null) {
+    return [
+      db.prepare('DELETE FROM lecture_permissions WHERE lecture_id = ?').bind(lectureId),
+      db.prepare('DELETE FROM lecture_share_links WHERE lecture_id = ?').bind(lectureId),
+    ];
+  }
+  return [
+    db.prepare('DELETE FROM lecture_permissions WHERE lecture_id = ? AND (user_id = ? OR granted_by = ?)').bind(lectureId, ownerId, ownerId),
+    db.prepare('DELETE FROM lecture_share_links WHERE lecture_id = ? AND created_by = ?').bind(lectureId, ownerId),
+  ];
+}
@@ -0,0 +1,323 @@
+// Prompts for the study tasks (summarize, extract concepts), shared by the synchronous
+// API routes and the background job runner, the registry of summary styles and lengths,
+// and helpers for prompts that must return JSON.
+import { chunkText } from './retrieval';
+import { AiProvider } from './ai';
+
+export type StudyTask = 'summarize' | 'extract';
+
+// For long documents, split into chunks, process each, then combine
+export const MAX_CHARS_PER_CHUNK = 12000; // ~3000 tokens per chunk
+
+// Bump a version when its prompts change so previously cached results are regenerated
+export const PROMPT_VERSIONS: Record<StudyTask, number> = {
+  summarize: 2,
+  extract: 1,
+};
+
+export interface StudyPrompt {
+  system: string;
+  user: string;
+  maxTokens: number;
+}
+
+export type SummaryStyle = 'outline' | 'narrative' | 'cheat_sheet' | 'eli5' | 'exam';
+export type SummaryLength = 'short' | 'medium' | 'long';
+
+export interface SummaryOptions {
+  style: SummaryStyle;
+  length: SummaryLength;
+  language: string | null; // Output language; null writes in the lecture's language
+  focus: string | null; // Topic to concentrate on
+}
+
+// How each style is written; the same instructions are given to the single-chunk,
+// per-chunk and combine stages so long lectures come out in the requested style
+export const SUMMARY_STYLES: Record<SummaryStyle, { instructions: string }> = {
+  outline: {
+    instructions: 'Write clear, structured key points: Markdown headings for the main topics and bullet points for the details.',
+  },
+  narrative: {
+    instructions: 'Write flowing prose paragraphs that explain how the ideas connect, with Markdown headings only for the major topics.',
+  },
+  cheat_sheet: {
+    instructions: 'Write a dense cheat sheet in Markdown: terse bullet points, bold key terms, and the definitions, formulas and facts worth memorizing. No filler sentences.',
+  },
+  eli5: {
+    instructions: 'Explain the material in plain language a newcomer could follow, using everyday analogies and defining any jargon. Use Markdown for readability.',
+  },
+  exam: {
+    instructions: 'Focus on what is likely to be examined: key definitions, formulas, typical questions and common mistakes, as Markdown headings and bullet points.',
+  },
+};
+
+// Target length of the final summary (single-chunk and combine stages)
+export const SUMMARY_LENGTHS: Record<SummaryLength, { words: number; maxTokens: number }> = {
+  short: { words: 150, maxTokens: 1024 },
+  medium: { words: 500, maxTokens: 2048 },
+  long: { words: 1200, maxTokens: 4096 },
+};
+
+export const DEFAULT_SUMMARY_OPTIONS: SummaryOptions = { style: 'outline', length: 'medium', language: null, focus: null };
+export const MAX_SUMMARY_LANGUAGE_LENGTH = 50;
+export const LANGUAGE_NAME_PATTERN = /^[\p{L}\s()-]*$/u;
+export const MAX_SUMMARY_FOCUS_LENGTH = 200;
+
+/**
+ * Validate the summary options of a request body. Omitted fields take their defaults.
+ */
+export function parseSummaryOptions(body: Record<string, unknown>): { options: SummaryOptions; error?: undefined } | { options?: undefined; error: string } {
+  const { style = DEFAULT_SUMMARY_OPTIONS.style, length = DEFAULT_SUMMARY_OPTIONS.length, language, focus } = body;
+
+  if (typeof style !== 'string' || !Object.hasOwn(SUMMARY_STYLES, style)) {
+    return { error: `style must be one of ${Object.keys(SUMMARY_STYLES).join(', ')}` };
+  }
+  if (typeof length !== 'string' || !Object.hasOwn(SUMMARY_LENGTHS, length)) {
+    return { error: `length must be one of ${Object.keys(SUMMARY_LENGTHS).join(', ')}` };
+  }
+  if (language !== undefined && language !== null && (typeof language !== 'string' || language.trim().length > MAX_SUMMARY_LANGUAGE_LENGTH || !LANGUAGE_NAME_PATTERN.test(language))) {
+    return { error: `language must be a language name of at most ${MAX_SUMMARY_LANGUAGE_LENGTH} letters` };
+  }
+  if (focus !== undefined && focus !== null && (typeof focus !== 'string' || focus.trim().length > MAX_SUMMARY_FOCUS_LENGTH)) {
+    return { error: `focus must be a string of at most ${MAX_SUMMARY_FOCUS_LENGTH} characters` };
+  }
+
+  return {
+    options: {
+      style: style as SummaryStyle,
+      length: length as SummaryLength,
+      language: (language as string | null | undefined)?.trim() || null,
+      focus: (focus as string | null | undefined)?.trim() || null,
+    },
+  };
+}
+
+/**
+ * Identifies the options in an artifact cache key, so each variant is cached separately
+ */
+export function summaryOptionsKey(options: SummaryOptions): string {
+  return `${options.style}|${options.length}|${options.language ?? ''}|${options.focus ?? ''}`;
+}
+
+// Style, focus, language and (for the final stages) length instructions for a summary prompt
+function summaryInstructions(options: SummaryOptions, withLength: boolean): string {
+  return [
+    SUMMARY_STYLES[options.style].instructions,
+    options.focus ? `Concentrate on ${JSON.stringify(options.focus)}; mention other topics only briefly.` : '',
+    withLength ? `Aim for about ${SUMMARY_LENGTHS[options.length].words} words.` : '',
+    options.language ? `Write in ${options.language}.` : '',
+  ].filter(Boolean).join(' ');
+}
+
+/**
+ * Prompt for a document short enough to process in one call
+ */
+export function buildSinglePrompt(task: StudyTask, text: string, options: SummaryOptions = DEFAULT_SUMMARY_OPTIONS): StudyPrompt {
+  if (task === 'summarize') {
+    return {
+      system: `You are a helpful study assistant. Summarize the following lecture transcript, covering ALL major topics discussed in the lecture. ${summaryInstructions(options, true)}`,
+      user: `Lecture Transcript:\n\n${text}`,
+      maxTokens: SUMMARY_LENGTHS[options.length].maxTokens,
+    };
+  }
+  return {
+    system: 'You are a specialized academic assistant. Analyze the following lecture text and extract all key definitions, mathematical formulas, and core theoretical concepts. Format the output clearly using Markdown with bold terms and bullet points. Be thorough and cover ALL concepts in the text.',
+    user: `Lecture Text:\n\n${text}`,
+    maxTokens: 4096,
+  };
+}
+
+/**
+ * Prompt for one section (part `index + 1` of `total`) of a long document
+ */
+export function buildChunkPrompt(task: StudyTask, text: string, index: number, total: number, options: SummaryOptions = DEFAULT_SUMMARY_OPTIONS): StudyPrompt {
+  if (task === 'summarize') {
+    // No length target here: the combine stage condenses the sections to the requested length
+    return {
+      system: `You are a helpful study assistant. Summarize the following section (part ${index + 1} of ${total}) of a lecture transcript, covering all topics in this section. ${summaryInstructions(options, false)}`,
+      user: `Lecture Section:\n\n${text}`,
+      maxTokens: 2048,
+    };
+  }
+  return {
+    system: `You are a specialized academic assistant. Analyze the following section (part ${index + 1} of ${total}) of a lecture and extract all key definitions, mathematical formulas, and core theoretical concepts. Format the output clearly using Markdown with bold terms and bullet points.`,
+    user: `Lecture Section:\n\n${text}`,
+    maxTokens: 2048,
+  };
+}
+
+/**
+ * Prompt that merges the per-section results into one
+ */
+export function buildCombinePrompt(task: StudyTask, parts: string[], options: SummaryOptions = DEFAULT_SUMMARY_OPTIONS): StudyPrompt {
+  const sections = parts.map((s, i) => `--- Section ${i + 1} ---\n${s}`).join('\n\n');
+  if (task === 'summarize') {
+    return {
+      system: `You are a helpful study assistant. You are given summaries of different sections of a lecture. Combine them into one cohesive, well-organized summary. Remove any redundancy but keep all unique information. ${summaryInstructions(options, true)}`,
+      user: `Section Summaries:\n\n${sections}`,
+      maxTokens: SUMMARY_LENGTHS[options.length].maxTokens,
+    };
+  }
+  return {
+    system: 'You are a specialized academic assistant. You are given concept extractions from different sections of a lecture. Combine them into one cohesive, well-organized list of all key definitions, formulas, and core concepts. Use Markdown formatting with bold terms and bullet points. Remove duplicates but keep all unique concepts.',
+    user: `Section Extractions:\n\n${sections}`,
+    maxTokens: 4096,
+  };
+}
+
+/**
+ * Append instructor guidance (see tutor.ts) to a prompt's system message
+ */
+export function withGuidance(prompt: StudyPrompt, guidance: string): StudyPrompt {
+  return guidance ? { ...prompt, system: `${prompt.system}\n\n${guidance}` } : prompt;
+}
+
+/**
+ * Split a document into the sections processed by the per-chunk prompts
+ */
+export function splitStudyText(text: string): string[] {
+  return chunkText(text, MAX_CHARS_PER_CHUNK).map((chunk) => chunk.text);
+}
+
+/**
+ * Run a single prompt against an AI provider and return the generated text
+ */
+export async function runStudyPrompt(ai: AiProvider, model: string, prompt: StudyPrompt): Promise<string> {
+  const response = await ai.run(model, {
+    messages: [
+      { role: 'system', content: prompt.system },
+      { role: 'user', content: prompt.user },
+    ],
+    max_tokens: prompt.maxTokens,
+  });
+  return response.response;
+}
+
+/**
+ * Thrown when model output does not have the requested structure
+ */
+export class PromptFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PromptFormatError';
+  }
+}
+
+// Malformed output is retried with a reminder of the expected format
+const MAX_FORMAT_ATTEMPTS = 3;
+
+/**
+ * Run a prompt whose output must parse into structured data, retrying when `parse`
+ * throws a PromptFormatError
+ */
+export async function runStructuredPrompt<T>(ai: AiProvider, model: string, prompt: StudyPrompt, parse: (output: string) => T): Promise<T> {
+  let lastError: PromptFormatError | undefined;
+
+  for (let attempt = 1; attempt <= MAX_FORMAT_ATTEMPTS; attempt++) {
+    const output = await runStudyPrompt(ai, model, lastError
+      ? { ...prompt, system: `${prompt.system}\n\nYour previous reply could not be used (${lastError.message}). Reply with the JSON only.` }
+      : prompt);
+    try {
+      return parse(output);
+    } catch (error) {
+      if (!(error instanceof PromptFormatError)) {
+        throw error;
+      }
+      console.warn(`Malformed model output (attempt ${attempt} of ${MAX_FORMAT_ATTEMPTS}):`, error.message);
+      lastError = error;
+    }
+  }
+  throw lastError!;
+}
+
+/**
+ * Parse JSON from model output, repairing common slips (trailing commas, curly quotes)
+ */
+function parseModelJson(json: string): unknown {
+  try {
+    return JSON.parse(json);
+  } catch {
+    const repaired = json
+      .replace(/[\u201c\u201d]/g, '"')
+      .replace(/,\s*([}\]])/g, '$1');
+    try {
+      return JSON.parse(repaired);
+    } catch {
+      throw new PromptFormatError('Response is not valid JSON');
+    }
+  }
+}
+
+/**
+ * Parse the first JSON array in model output, which may be wrapped in a code fence or prose
+ */
+export function parseJsonArray(output: string): unknown[] {
+  const start = output.indexOf('[');
+  const end = output.lastIndexOf(']');
+  if (start === -1 || end < start) {
+    throw new PromptFormatError('Response does not contain a JSON array');
+  }
+
+  const parsed = parseModelJson(output.slice(start, end + 1));
+  if (!Array.isArray(parsed)) {
+    throw new PromptFormatError('Response is not a JSON array');
+  }
+  return parsed;
+}
+
+/**
+ * Parse the outermost JSON object in model output, which may be wrapped in a code fence or prose
+ */
+export function parseJsonObject(output: string): Record<string, unknown> {
+  const start = output.indexOf('{');
+  const end = output.lastIndexOf('}');
+  if (start === -1 || end < start) {
+    throw new PromptFormatError('Response does not contain a JSON object');
+  }
+
+  const parsed = parseModelJson(output.slice(start, end + 1));
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new PromptFormatError('Response is not a JSON object');
+  }
+  return parsed as Record<string, unknown>;
+}
+
+/**
+ * Plan how many items (cards, questions) to generate from which text: the whole lecture
+ * when it fits in one prompt, otherwise up to `maxSections` evenly spaced sections
+ * sharing `count` between them, which bounds the number of AI calls.
+ */
+export function planStudySections(text: string, count: number, maxSections: number): { text: string; count: number }[] {
+  if (text.length <= MAX_CHARS_PER_CHUNK) {
+    return [{ text, count }];
+  }
+
+  const chunks = splitStudyText(text);
+  const sectionCount = Math.min(chunks.length, maxSections, count);
+  return Array.from({ length: sectionCount }, (_, i) => ({
+    text: chunks[Math.floor((i * chunks.length) / sectionCount)],
+    count: Math.floor(((i + 1) * count) / sectionCount) - Math.floor((i * count) / sectionCount),
+  }));
+}
+
+/**
+ * Run a study task in one go: directly for short documents, otherwise
+ * chunk → process each → combine. `options` apply to summaries only; `guidance` is
+ * added to every prompt.
+ */
+export async function runStudyTask(ai: AiProvider, model: string, task: StudyTask, text: string, options: SummaryOptions = DEFAULT_SUMMARY_OPTIONS, guidance = ''): Promise<string> {
+  if (text.length <= MAX_CHARS_PER_CHUNK) {
+    return runStudyPrompt(ai, model, withGuidance(buildSinglePrompt(task, text, options), guidance));
+  }
+
+  const chunks = splitStudyText(text);
+  console.log(`Running ${task} on long document: ${text.length} chars, ${chunks.length} chunks`);
+
+  const parts: string[] = [];
+  for (let i = 0; i < chunks.length; i++) {
+    parts.push(await runStudyPrompt(ai, model, withGuidance(buildChunkPrompt(task, chunks[i], i, chunks.length, options), guidance)));
+  }
+
+  // If we had multiple chunks, combine the results into a final cohesive one
+  return parts.length > 1 ? runStudyPrompt(ai, model, withGuidance(buildCombinePrompt(task, parts, options), guidance)) : parts[0];
+}
@@ -0,0 +1,227 @@
+// Quizzes generated from a lecture: question validation, the answer key kept server-side,
+// and grading (multiple choice and true/false deterministically, short answers by the model).
+import { PromptFormatError, StudyPrompt, parseJsonArray, planStudySections, runStructuredPrompt } from './prompts';
+import { IndexedChunk, indexLecture, rankChunks } from './retrieval';
+import { AiProvider } from './ai';
+
+export type QuestionType = 'multiple_choice' | 'true_false' | 'short_answer';
+export type QuizDifficulty = 'easy' | 'medium' | 'hard';
+
+export const QUESTION_TYPES: QuestionType[] = ['multiple_choice', 'true_false', 'short_answer'];
+export const QUIZ_DIFFICULTIES: QuizDifficulty[] = ['easy', 'medium', 'hard'];
+export const DEFAULT_QUIZ_QUESTIONS = 5;
+export const MAX_QUIZ_QUESTIONS = 20;
+
+const MAX_GENERATION_SECTIONS = 4;
+const MAX_OPTIONS = 6;
+const MAX_SHORT_ANSWER_LENGTH = 2000;
+const CITATION_EXCERPT_CHARS = 300;
+// A short answer counts as correct with at least half credit
+const SHORT_ANSWER_PASS_SCORE = 0.5;
+
+// The lecture passage that justifies a question's correct answer
+export interface QuizCitation {
+  startOffset: number;
+  endOffset: number;
+  excerpt: string;
+}
+
+export interface QuizQuestion {
+  id: string;
+  type: QuestionType;
+  question: string;
+  options?: string[]; // multiple_choice only
+  answer: number | boolean | string; // Option index, true/false, or a model answer
+  rubric?: string; // short_answer only: what a full-credit answer must contain
+  explanation: string;
+  citation: QuizCitation | null;
+}
+
+// What a student sees before submitting: no answer key
+export type PublicQuizQuestion = Pick<QuizQuestion, 'id' | 'type' | 'question' | 'options'>;
+
+export interface QuestionResult {
+  questionId: string;
+  correct: boolean;
+  score: number; // 0-1; short answers can earn partial credit
+  feedback: string;
+  correctAnswer: number | boolean | string;
+  explanation: string;
+  citation: QuizCitation | null;
+}
+
+export interface QuizGrade {
+  results: QuestionResult[];
+  score: number;
+  maxScore: number;
+}
+
+interface GeneratedQuestion extends Omit<QuizQuestion, 'id' | 'citation'> {
+  evidence: string; // Quote from the lecture, located to build the citation
+}
+
+/**
+ * Prompt asking for `count` questions of the given types and difficulty as a JSON array
+ */
+export function buildQuizPrompt(text: string, count: number, difficulty: QuizDifficulty, types: QuestionType[]): StudyPrompt {
+  const formats: Record<QuestionType, string> = {
+    multiple_choice: '{"type": "multiple_choice", "question": "...", "options": ["...", "...", "...", "..."], "answer": <index of the correct option, from 0>, "explanation": "...", "evidence": "..."}',
+    true_false: '{"type": "true_false", "question": "<a statement>", "answer": true or false, "explanation": "...", "evidence": "..."}',
+    short_answer: '{"type": "short_answer", "question": "...", "answer": "<a model answer>", "rubric": "<what a full-credit answer must mention>", "explanation": "...", "evidence": "..."}',
+  };
+  return {
+    system: `You are an academic assistant that writes quiz questions. Write exactly ${count} ${difficulty} questions testing understanding of the lecture text, using these question types: ${types.join(', ')}. Every question must be answerable from the text alone. "evidence" must be a short sentence copied word for word from the text that justifies the correct answer. Reply with ONLY a JSON array, no other text, whose items have one of these forms:\n${types.map((type) => formats[type]).join('\n')}`,
+    user: `Lecture Text:\n\n${text}`,
+    maxTokens: 4096,
+  };
+}
+
+function nonEmptyString(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+/**
+ * Validate one generated question; returns null when it is malformed or of a type not asked for
+ */
+export function validateQuizQuestion(value: unknown, types: QuestionType[]): GeneratedQuestion | null {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+  const input = value as Record<string, unknown>;
+  const type = input.type as QuestionType;
+  const question = nonEmptyString(input.question);
+  if (!types.includes(type) || !question) {
+    return null;
+  }
+  const base = { type, question, explanation: nonEmptyString(input.explanation) || '', evidence: nonEmptyString(input.evidence) || '' };
+
+  if (type === 'multiple_choice') {
+    const options = Array.isArray(input.options) ? input.options.map(nonEmptyString) : [];
+    const answer = input.answer;
+    if (options.length < 2 || options.length > MAX_OPTIONS || options.includes(null) || typeof answer !== 'number' || !Number.isInteger(answer) || answer < 0 || answer >= options.length) {
+      return null;
+    }
+    return { ...base, options: options as string[], answer };
+  }
+
+  if (type === 'true_false') {
+    const answer = input.answer === 'true' ? true : input.answer === 'false' ? false : input.answer;
+    return typeof answer === 'boolean' ? { ...base, answer } : null;
+  }
+
+  const answer = nonEmptyString(input.answer);
+  return answer ? { ...base, answer, rubric: nonEmptyString(input.rubric) || answer } : null;
+}
+
+/**
+ * Find the passage justifying an answer: the model's quoted evidence where it appears in
+ * the lecture (ignoring case and whitespace), otherwise the best lexical match
+ */
+function locateEvidence(text: string, evidence: string, fallbackQuery: string, chunks: IndexedChunk[]): QuizCitation | null {
+  const words = evidence.split(/\s+/).filter(Boolean).map((word) => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const match = words.length > 0 ? new RegExp(words.join('\\s+'), 'i').exec(text) : null;
+  if (match) {
+    return { startOffset: match.index, endOffset: match.index + match[0].length, excerpt: match[0] };
+  }
+
+  const [passage] = rankChunks(chunks, `${evidence} ${fallbackQuery}`, 1);
+  if (!passage) {
+    return null;
+  }
+  return {
+    startOffset: passage.start,
+    endOffset: passage.end,
+    excerpt: passage.text.length > CITATION_EXCERPT_CHARS ? `${passage.text.slice(0, CITATION_EXCERPT_CHARS).trimEnd()}…` : passage.text,
+  };
+}
+
+/**
+ * Generate up to `count` questions for a lecture with the passages that justify their answers
+ */
+export async function generateQuiz(ai: AiProvider, model: string, text: string, count: number, difficulty: QuizDifficulty, types: QuestionType[]): Promise<QuizQuestion[]> {
+  const generated: GeneratedQuestion[] = [];
+  for (const section of planStudySections(text, count, MAX_GENERATION_SECTIONS)) {
+    const prompt = buildQuizPrompt(section.text, section.count, difficulty, types);
+    generated.push(...await runStructuredPrompt(ai, model, prompt, (output) => {
+      const questions = parseJsonArray(output).map((item) => validateQuizQuestion(item, types)).filter((q): q is GeneratedQuestion => q !== null);
+      if (questions.length === 0) {
+        throw new PromptFormatError('Response contains no valid questions');
+      }
+      return questions.slice(0, section.count);
+    }));
+  }
+
+  // Lexical index (no embeddings) for evidence the model did not quote exactly
+  const chunks = await indexLecture(text);
+  return generated.map(({ evidence, ...question }, i) => ({
+    id: `q${i + 1}`,
+    ...question,
+    citation: locateEvidence(text, evidence, `${question.question} ${question.type === 'multiple_choice' ? question.options![question.answer as number] : String(question.answer)}`, chunks),
+  }));
+}
+
+/**
+ * Strip the answer key from the questions
+ */
+export function toPublicQuestions(questions: QuizQuestion[]): PublicQuizQuestion[] {
+  return questions.map(({ id, type, question, options }) => (options ? { id, type, question, options } : { id, type, question }));
+}
+
+/**
+ * Grade a short answer against its rubric with the model: a score from 0 to 1 and feedback
+ */
+async function gradeShortAnswer(ai: AiProvider, model: string, question: QuizQuestion, response: string): Promise<{ score: number; feedback: string }> {
+  const prompt: StudyPrompt = {
+    system: 'You are a fair teaching assistant grading a short quiz answer against a rubric. Give partial credit where the answer is partly right. Reply with ONLY a JSON array containing one object: [{"score": <number from 0 to 1>, "feedback": "<one or two sentences addressed to the student>"}]',
+    user: `Question: ${question.question}\n\nModel answer: ${question.answer}\n\nRubric: ${question.rubric}\n\nStudent answer: ${response}`,
+    maxTokens: 512,
+  };
+  return runStructuredPrompt(ai, model, prompt, (output) => {
+    const [grade] = parseJsonArray(output) as { score?: unknown; feedback?: unknown }[];
+    const score = typeof grade?.score === 'string' ? Number(grade.score) : grade?.score;
+    if (typeof score !== 'number' || !Number.isFinite(score) || score < 0 || score > 1 || !nonEmptyString(grade.feedback)) {
+      throw new PromptFormatError('Response does not contain a score from 0 to 1 with feedback');
+    }
+    return { score: Math.round(score * 100) / 100, feedback: nonEmptyString(grade.feedback)! };
+  });
+}
+
+/**
+ * Grade a submission. `answers` maps question IDs to an option index, true/false or text;
+ * unanswered questions score 0.
+ */
+export async function gradeQuiz(ai: AiProvider, model: string, questions: QuizQuestion[], answers: Record<string, unknown>): Promise<QuizGrade> {
+  const results = await Promise.all(questions.map(async (question): Promise<QuestionResult> => {
+    const response = answers[question.id];
+    let score = 0;
+    let feedback: string;
+
+    if (response === undefined || response === null || response === '') {
+      feedback = 'Not answered.';
+    } else if (question.type === 'short_answer') {
+      const text = String(response).slice(0, MAX_SHORT_ANSWER_LENGTH);
+      ({ score, feedback } = await gradeShortAnswer(ai, model, question, text));
+    } else {
+      // Accept "2" for option 2 and "true"/"false" as well as the JSON values
+      const normalized = typeof response === 'string' ? (question.type === 'true_false' ? response.toLowerCase() === 'true' : Number(response)) : response;
+      score = normalized === question.answer ? 1 : 0;
+      feedback = score ? 'Correct.' : 'Incorrect.';
+    }
+
+    return {
+      questionId: question.id,
+      correct: question.type === 'short_answer' ? score >= SHORT_ANSWER_PASS_SCORE : score === 1,
+      score,
+      feedback,
+      correctAnswer: question.answer,
+      explanation: question.explanation,
+      citation: question.citation,
+    };
+  }));
+
+  return {
+    results,
+    score: Math.round(results.reduce((sum, result) => sum + result.score, 0) * 100) / 100,
+    maxScore: questions.length,
+  };
+}
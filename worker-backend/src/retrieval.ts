@@ -0,0 +1,252 @@
+// Retrieval helpers for grounding chat answers in the relevant parts of a lecture.
+// Lectures are split into overlapping chunks at ingest time, each chunk keeps its
+// term frequencies (for BM25) and, when Workers AI is available, an embedding.
+import { AiProvider } from './ai';
+
+export const RETRIEVAL_CHUNK_CHARS = 1500;
+export const RETRIEVAL_CHUNK_OVERLAP = 200;
+export const RETRIEVAL_TOP_K = 5;
+
+// Embeddings are best-effort: very long lectures fall back to BM25 only so ingest stays fast
+export const EMBEDDING_MODEL = '@cf/baai/bge-base-en-v1.5';
+const EMBEDDING_BATCH_SIZE = 50;
+const MAX_EMBEDDED_CHUNKS = 500;
+
+// BM25 tuning parameters (standard defaults)
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from', 'how', 'i', 'in', 'is', 'it',
+  'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'what', 'when', 'where', 'which', 'who', 'why', 'with', 'you',
+]);
+
+export interface LectureChunk {
+  index: number;
+  start: number; // Character offset (inclusive) in the raw lecture text
+  end: number; // Character offset (exclusive) in the raw lecture text
+  text: string;
+}
+
+export interface IndexedChunk extends LectureChunk {
+  termFreqs: Record<string, number>;
+  length: number; // Number of indexed terms in the chunk
+  embedding?: number[];
+}
+
+export interface RetrievedPassage extends LectureChunk {
+  score: number;
+}
+
+export interface Citation {
+  chunkIndex: number;
+  startOffset: number;
+  endOffset: number;
+  excerpt: string;
+}
+
+const CITATION_EXCERPT_CHARS = 200;
+
+/**
+ * Split text into chunks of at most `maxChars`, breaking on whitespace and keeping
+ * the character offsets of every chunk so passages can be located in the original text.
+ */
+export function chunkText(text: string, maxChars: number, overlapChars = 0): LectureChunk[] {
+  const chunks: LectureChunk[] = [];
+  let start = skipWhitespace(text, 0);
+
+  while (start < text.length) {
+    let end = Math.min(start + maxChars, text.length);
+
+    // Prefer to break on whitespace so words are not split across chunks
+    if (end < text.length) {
+      const lastBreak = text.slice(start, end).search(/\s\S*$/);
+      if (lastBreak > 0) {
+        end = start + lastBreak;
+      }
+    }
+
+    let trimmedEnd = end;
+    while (trimmedEnd > start && /\s/.test(text[trimmedEnd - 1])) {
+      trimmedEnd--;
+    }
+
+    chunks.push({ index: chunks.length, start, end: trimmedEnd, text: text.slice(start, trimmedEnd) });
+
+    if (end >= text.length) {
+      break;
+    }
+
+    // Step back by the overlap, aligned to the next word boundary
+    let next = Math.max(end - overlapChars, start + 1);
+    if (next < end) {
+      const boundary = text.slice(next, end).search(/\s/);
+      next = boundary >= 0 ? next + boundary : end;
+    }
+    start = skipWhitespace(text, next);
+  }
+
+  return chunks;
+}
+
+function skipWhitespace(text: string, position: number): number {
+  while (position < text.length && /\s/.test(text[position])) {
+    position++;
+  }
+  return position;
+}
+
+/**
+ * Lowercase and split text into indexable terms, dropping stopwords and single characters
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((term) => term.length > 1 && !STOPWORDS.has(term));
+}
+
+/**
+ * Embed a list of texts with Workers AI, batching requests to stay within input limits
+ */
+export async function embedTexts(ai: AiProvider, texts: string[]): Promise<number[][]> {
+  const embeddings: number[][] = [];
+  for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+    const batch = texts.slice(i, i + EMBEDDING_BATCH_SIZE);
+    const result = await ai.run(EMBEDDING_MODEL, { text: batch });
+    if (!result?.data || result.data.length !== batch.length) {
+      throw new Error('Embedding model returned an unexpected response');
+    }
+    embeddings.push(...result.data);
+  }
+  return embeddings;
+}
+
+/**
+ * Chunk a lecture and compute the per-chunk statistics used for retrieval.
+ * Embedding failures are logged and the index silently degrades to BM25 only.
+ */
+export async function indexLecture(text: string, ai?: AiProvider): Promise<IndexedChunk[]> {
+  const chunks: IndexedChunk[] = chunkText(text, RETRIEVAL_CHUNK_CHARS, RETRIEVAL_CHUNK_OVERLAP).map((chunk) => {
+    const terms = tokenize(chunk.text);
+    const termFreqs: Record<string, number> = {};
+    for (const term of terms) {
+      termFreqs[term] = (termFreqs[term] || 0) + 1;
+    }
+    return { ...chunk, termFreqs, length: terms.length };
+  });
+
+  if (ai && chunks.length > 0 && chunks.length <= MAX_EMBEDDED_CHUNKS) {
+    try {
+      const embeddings = await embedTexts(
+        ai,
+        chunks.map((chunk) => chunk.text)
+      );
+      chunks.forEach((chunk, i) => {
+        chunk.embedding = embeddings[i];
+      });
+    } catch (error) {
+      console.warn('Embedding lecture chunks failed, using lexical retrieval only:', error);
+    }
+  }
+
+  return chunks;
+}
+
+/**
+ * Rank chunks for a query using BM25, blended with cosine similarity when a query
+ * embedding is given. Falls back to the opening chunks when nothing matches
+ * (e.g. "summarize this lecture").
+ */
+export function rankChunks(chunks: IndexedChunk[], query: string, topK = RETRIEVAL_TOP_K, queryEmbedding?: number[]): RetrievedPassage[] {
+  if (chunks.length === 0) {
+    return [];
+  }
+
+  const queryTerms = [...new Set(tokenize(query))];
+  const avgLength = chunks.reduce((sum, chunk) => sum + chunk.length, 0) / chunks.length || 1;
+
+  // Document frequency for each query term
+  const idf: Record<string, number> = {};
+  for (const term of queryTerms) {
+    const docFreq = chunks.filter((chunk) => chunk.termFreqs[term]).length;
+    idf[term] = Math.log(1 + (chunks.length - docFreq + 0.5) / (docFreq + 0.5));
+  }
+
+  const bm25Scores = chunks.map((chunk) => {
+    let score = 0;
+    for (const term of queryTerms) {
+      const tf = chunk.termFreqs[term] || 0;
+      if (tf === 0) continue;
+      score += (idf[term] * (tf * (BM25_K1 + 1))) / (tf + BM25_K1 * (1 - BM25_B + (BM25_B * chunk.length) / avgLength));
+    }
+    return score;
+  });
+
+  const maxBm25 = Math.max(...bm25Scores);
+  const useEmbeddings = !!queryEmbedding && chunks.every((chunk) => chunk.embedding);
+
+  const scored = chunks.map((chunk, i) => {
+    const lexical = maxBm25 > 0 ? bm25Scores[i] / maxBm25 : 0;
+    const score = useEmbeddings ? 0.5 * lexical + 0.5 * Math.max(0, cosineSimilarity(queryEmbedding!, chunk.embedding!)) : lexical;
+    return { chunk, score };
+  });
+
+  const matches = scored.filter((entry) => entry.score > 0).sort((a, b) => b.score - a.score || a.chunk.index - b.chunk.index);
+  const selected = matches.length > 0 ? matches.slice(0, topK) : scored.slice(0, topK);
+
+  return selected.map(({ chunk, score }) => ({
+    index: chunk.index,
+    start: chunk.start,
+    end: chunk.end,
+    text: chunk.text,
+    score,
+  }));
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / (Math.sqrt(normA) * Math.sqrt(normB)) : 0;
+}
+
+/**
+ * Select the passages an answer used. The model is asked to reference passages as
+ * "[Passage n]"; if it cites none, every passage it was given is returned.
+ */
+export function citedPassages<T extends RetrievedPassage>(passages: T[], answer: string): T[] {
+  const cited = new Set<number>();
+  for (const match of answer.matchAll(/\[Passage (\d+)\]/g)) {
+    const position = parseInt(match[1], 10) - 1;
+    if (position >= 0 && position < passages.length) {
+      cited.add(position);
+    }
+  }
+
+  return cited.size > 0 ? passages.filter((_, i) => cited.has(i)) : passages;
+}
+
+/**
+ * Build a citation pointing at a passage's range in the lecture text
+ */
+export function toCitation(passage: RetrievedPassage): Citation {
+  return {
+    chunkIndex: passage.index,
+    startOffset: passage.start,
+    endOffset: passage.end,
+    excerpt: passage.text.length > CITATION_EXCERPT_CHARS ? `${passage.text.slice(0, CITATION_EXCERPT_CHARS).trimEnd()}…` : passage.text,
+  };
+}
+
+/**
+ * Build citations for the passages an answer used
+ */
+export function buildCitations(passages: RetrievedPassage[], answer: string): Citation[] {
+  return citedPassages(passages, answer).map(toCitation);
+}
@@ -0,0 +1,121 @@
+// Full-text search across a user's lectures, backed by the D1 FTS5 table `lecture_search`.
+// Lecture text is indexed in passages so every hit can point at a character offset.
+
+import { chunkText } from './retrieval';
+
+export const SEARCH_PASSAGE_CHARS = 1000;
+export const DEFAULT_SEARCH_LIMIT = 20;
+export const MAX_SEARCH_LIMIT = 50;
+export const MAX_SEARCH_QUERY_LENGTH = 200;
+
+// D1 allows at most 100 bound parameters per statement (3 per passage row)
+const PASSAGES_PER_INSERT = 33;
+
+export interface SearchQuery {
+  match: string; // FTS5 MATCH expression
+  terms: string[]; // Words and phrases as typed, used to locate the match in a passage
+}
+
+export interface SearchResult {
+  lectureId: string;
+  lectureName: string;
+  snippet: string; // Matches wrapped in <mark></mark>; the rest is raw lecture text
+  startOffset: number; // Character offset of the first match in the lecture text
+}
+
+interface SearchRow {
+  lecture_id: string;
+  lecture_name: string;
+  start_offset: number;
+  content: string;
+  snippet: string;
+}
+
+/**
+ * Replace the search index of a lecture with passages of its text
+ */
+export async function indexLectureForSearch(db: D1Database, lectureId: string, text: string): Promise<void> {
+  const passages = chunkText(text, SEARCH_PASSAGE_CHARS);
+  const statements = [deleteLectureSearchStatement(db, lectureId)];
+
+  for (let i = 0; i < passages.length; i += PASSAGES_PER_INSERT) {
+    const batch = passages.slice(i, i + PASSAGES_PER_INSERT);
+    statements.push(db.prepare(
+      `INSERT INTO lecture_search (content, lecture_id, start_offset) VALUES ${batch.map(() => '(?, ?, ?)').join(', ')}`
+    ).bind(...batch.flatMap((passage) => [passage.text, lectureId, passage.start])));
+  }
+
+  await db.batch(statements);
+}
+
+/**
+ * Statement removing a lecture from the search index (for batching with other deletes)
+ */
+export function deleteLectureSearchStatement(db: D1Database, lectureId: string): D1PreparedStatement {
+  return db.prepare('DELETE FROM lecture_search WHERE lecture_id = ?').bind(lectureId);
+}
+
+/**
+ * Turn a user's query into an FTS5 expression. "Quoted text" is matched as a phrase and
+ * every other word must appear; FTS5 operators are not exposed, so any input is safe.
+ */
+export function parseSearchQuery(input: string): SearchQuery | null {
+  const terms: string[] = [];
+  for (const match of input.slice(0, MAX_SEARCH_QUERY_LENGTH).matchAll(/"([^"]*)"?|(\S+)/g)) {
+    const term = (match[1] ?? match[2]).trim();
+    // Skip terms without any indexable characters, which FTS5 would reject
+    if (/[\p{L}\p{N}]/u.test(term)) {
+      terms.push(term);
+    }
+  }
+
+  if (terms.length === 0) {
+    return null;
+  }
+  return {
+    match: terms.map((term) => `"${term.replace(/"/g, '""')}"`).join(' '),
+    terms,
+  };
+}
+
+/**
+ * Find the earliest occurrence of any query term in a passage, ignoring case and punctuation
+ * between words. Returns 0 when the tokenizer matched a form the text does not spell out.
+ */
+export function findMatchOffset(content: string, terms: string[]): number {
+  let earliest = -1;
+  for (const term of terms) {
+    const words = term.match(/[\p{L}\p{N}]+/gu) || [];
+    const escaped = words.map((word) => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    const pattern = new RegExp(`(?<![\\p{L}\\p{N}])${escaped.join('[^\\p{L}\\p{N}]+')}(?![\\p{L}\\p{N}])`, 'iu');
+    const index = content.search(pattern);
+    if (index !== -1 && (earliest === -1 || index < earliest)) {
+      earliest = index;
+    }
+  }
+  return Math.max(earliest, 0);
+}
+
+/**
+ * Search the lectures a user owns (excluding the trash), best matches first.
+ * One more row than requested is read to tell whether another page exists.
+ */
+export async function searchLectures(db: D1Database, userId: string, query: SearchQuery, limit: number, offset: number): Promise<{ results: SearchResult[]; hasMore: boolean }> {
+  const {results} = await db.prepare(
+    `SELECT s.lecture_id, l.lecture_name, s.start_offset, s.content,
+      snippet(lecture_search, 0, '<mark>', '</mark>', '…', 24) AS snippet
+    FROM lecture_search s JOIN user_lectures l ON l.lecture_id = s.lecture_id
+    WHERE lecture_search MATCH ? AND l.user_id = ? AND l.deleted_at IS NULL
+    ORDER BY s.rank LIMIT ? OFFSET ?`
+  ).bind(query.match, userId, limit + 1, offset).all<SearchRow>();
+
+  return {
+    results: results.slice(0, limit).map((row) => ({
+      lectureId: row.lecture_id,
+      lectureName: row.lecture_name,
+      snippet: row.snippet,
+      startOffset: row.start_offset + findMatchOffset(row.content, query.terms),
+    })),
+    hasMore: results.length > limit,
+  };
+}
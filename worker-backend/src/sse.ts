@@ -0,0 +1,107 @@
+// Helpers for relaying Workers AI token streams as Server-Sent Events
+
+const encoder = new TextEncoder();
+
+/**
+ * Encode a single named SSE event with a JSON payload
+ */
+export function formatSseEvent(event: string, data: unknown): Uint8Array {
+  return encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Read the SSE stream returned by `env.AI.run(model, { stream: true })` and yield each token
+ */
+export async function* readAiStream(stream: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      buffer += decoder.decode(value, { stream: true });
+
+      // Events are separated by newlines; keep any incomplete line for the next read
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        const token = parseAiStreamLine(line);
+        if (token === null) {
+          return;
+        }
+        if (token) {
+          yield token;
+        }
+      }
+    }
+
+    const token = parseAiStreamLine(buffer);
+    if (token) {
+      yield token;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// Returns the token in a `data:` line, '' for lines without one, and null at the [DONE] marker
+function parseAiStreamLine(line: string): string | null {
+  const trimmed = line.trim();
+  if (!trimmed.startsWith('data:')) {
+    return '';
+  }
+
+  const payload = trimmed.slice('data:'.length).trim();
+  if (payload === '[DONE]') {
+    return null;
+  }
+
+  try {
+    const parsed = JSON.parse(payload) as { response?: string };
+    return parsed.response || '';
+  } catch {
+    console.warn('Skipping malformed AI stream event:', payload);
+    return '';
+  }
+}
+
+/**
+ * Pass an SSE body through, closing it with an `error` event if no data arrives for `idleMs`.
+ * Used instead of a fixed total timeout so long answers can keep streaming.
+ */
+export function withIdleTimeout(body: ReadableStream<Uint8Array>, idleMs: number): ReadableStream<Uint8Array> {
+  const reader = body.getReader();
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      let timer: number | null = null;
+      const timeout = new Promise<'timeout'>((resolve) => {
+        timer = setTimeout(() => resolve('timeout'), idleMs);
+      });
+
+      const result = await Promise.race([reader.read(), timeout]);
+      clearTimeout(timer);
+
+      if (result === 'timeout') {
+        controller.enqueue(formatSseEvent('error', { error: 'Stream timeout', details: `No data received for ${idleMs / 1000}s` }));
+        controller.close();
+        reader.cancel().catch(() => {});
+        return;
+      }
+
+      if (result.done) {
+        controller.close();
+        return;
+      }
+      controller.enqueue(result.value);
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+}
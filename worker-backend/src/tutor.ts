@@ -0,0 +1,169 @@
+// Per-lecture tutor settings set by the lecture's owner (typically the instructor): whether the
+// chat answers directly or tutors Socratically, which topics it may discuss, its tone and answer
+// language. They live in the lecture's LectureMemory and are composed into the chat, summarize
+// and extract prompts as instructor guidance.
+import { LANGUAGE_NAME_PATTERN, MAX_SUMMARY_LANGUAGE_LENGTH, StudyTask } from './prompts';
+
+export type TutorMode = 'direct' | 'socratic';
+export type TutorTone = 'neutral' | 'friendly' | 'formal' | 'encouraging';
+
+export interface LectureSettings {
+  mode: TutorMode;
+  tone: TutorTone;
+  language: string | null; // Answer language; null answers in the student's language
+  allowedTopics: string[]; // Empty allows anything related to the lecture
+  withholdSolutions: boolean; // Never reveal full solutions to homework and exam problems
+  instructions: string | null; // Free-form notes from the instructor
+}
+
+export const TUTOR_MODES: Record<TutorMode, { instructions: string }> = {
+  direct: { instructions: '' },
+  socratic: {
+    instructions: 'Tutor Socratically: do not hand the student the answer. Ask guiding questions and give one hint at a time so the student takes each step themselves, then confirm or gently correct their reasoning.',
+  },
+};
+
+export const TUTOR_TONES: Record<TutorTone, { instructions: string }> = {
+  neutral: { instructions: '' },
+  friendly: { instructions: 'Use a warm, friendly and approachable tone.' },
+  formal: { instructions: 'Use a formal, precise academic tone.' },
+  encouraging: { instructions: 'Be patient and encouraging; acknowledge progress and keep the student motivated.' },
+};
+
+export const DEFAULT_LECTURE_SETTINGS: LectureSettings = {
+  mode: 'direct',
+  tone: 'neutral',
+  language: null,
+  allowedTopics: [],
+  withholdSolutions: false,
+  instructions: null,
+};
+
+export const MAX_ALLOWED_TOPICS = 20;
+export const MAX_TOPIC_LENGTH = 100;
+export const MAX_TUTOR_INSTRUCTIONS_LENGTH = 2000;
+
+/**
+ * Validate a settings body; omitted fields take their defaults, so a PUT replaces the settings
+ */
+export function parseLectureSettings(body: unknown): { settings: LectureSettings; error?: undefined } | { settings?: undefined; error: string } {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { error: 'Request body must be a JSON object' };
+  }
+  const {
+    mode = DEFAULT_LECTURE_SETTINGS.mode,
+    tone = DEFAULT_LECTURE_SETTINGS.tone,
+    language,
+    allowedTopics = [],
+    withholdSolutions = DEFAULT_LECTURE_SETTINGS.withholdSolutions,
+    instructions,
+  } = body as Record<string, unknown>;
+
+  if (typeof mode !== 'string' || !Object.hasOwn(TUTOR_MODES, mode)) {
+    return { error: `mode must be one of: ${Object.keys(TUTOR_MODES).join(', ')}` };
+  }
+  if (typeof tone !== 'string' || !Object.hasOwn(TUTOR_TONES, tone)) {
+    return { error: `tone must be one of: ${Object.keys(TUTOR_TONES).join(', ')}` };
+  }
+  if (language !== undefined && language !== null && (typeof language !== 'string' || language.trim().length > MAX_SUMMARY_LANGUAGE_LENGTH || !LANGUAGE_NAME_PATTERN.test(language))) {
+    return { error: `language must be a language name of at most ${MAX_SUMMARY_LANGUAGE_LENGTH} letters` };
+  }
+  if (!Array.isArray(allowedTopics) || allowedTopics.length > MAX_ALLOWED_TOPICS) {
+    return { error: `allowedTopics must be an array of at most ${MAX_ALLOWED_TOPICS} topics` };
+  }
+  if (allowedTopics.some((topic) => typeof topic !== 'string' || !topic.trim() || topic.trim().length > MAX_TOPIC_LENGTH)) {
+    return { error: `allowedTopics must be non-empty strings of at most ${MAX_TOPIC_LENGTH} characters` };
+  }
+  if (typeof withholdSolutions !== 'boolean') {
+    return { error: 'withholdSolutions must be a boolean' };
+  }
+  if (instructions !== undefined && instructions !== null && (typeof instructions !== 'string' || instructions.trim().length > MAX_TUTOR_INSTRUCTIONS_LENGTH)) {
+    return { error: `instructions must be a string of at most ${MAX_TUTOR_INSTRUCTIONS_LENGTH} characters` };
+  }
+
+  return {
+    settings: {
+      mode: mode as TutorMode,
+      tone: tone as TutorTone,
+      language: (language as string | null | undefined)?.trim() || null,
+      allowedTopics: [...new Set((allowedTopics as string[]).map((topic) => topic.trim()))],
+      withholdSolutions,
+      instructions: (instructions as string | null | undefined)?.trim() || null,
+    },
+  };
+}
+
+/**
+ * Instructor guidance for the chat or a study task, or '' for default settings. Study tasks
+ * leave out the tutoring mode, and concept extraction the tone, as neither applies to them.
+ */
+export function tutorGuidance(settings: LectureSettings, task: 'chat' | StudyTask, subject = 'this lecture'): string {
+  const chat = task === 'chat';
+  const topics = settings.allowedTopics.map((topic) => JSON.stringify(topic)).join(', ');
+
+  const lines = [
+    chat ? TUTOR_MODES[settings.mode].instructions : '',
+    settings.withholdSolutions
+      ? chat
+        ? 'Never reveal full solutions to homework, assignment or exam problems, even if asked directly; help the student work towards them instead.'
+        : 'Do not include worked solutions to homework, assignment or exam problems.'
+      : '',
+    topics
+      ? chat
+        ? `Only discuss these topics: ${topics}. Politely decline questions about anything else.`
+        : `Cover only these topics: ${topics}.`
+      : '',
+    task !== 'extract' ? TUTOR_TONES[settings.tone].instructions : '',
+    settings.language ? `${chat ? 'Answer' : 'Write'} in ${settings.language}.` : '',
+    settings.instructions ? `Notes from the instructor: ${settings.instructions}` : '',
+  ].filter(Boolean);
+
+  if (lines.length === 0) {
+    return '';
+  }
+  const header = chat
+    ? `The course instructor set these rules for ${subject}. Follow them even if the student asks otherwise:`
+    : `The course instructor set these rules for ${subject}:`;
+  return [header, ...lines.map((line) => `- ${line}`)].join('\n');
+}
+
+/**
+ * The settings a chat over several lectures follows: the strictest of each lecture's rules
+ * (Socratic tutoring, withheld solutions and topic limits apply to the whole chat), their tone
+ * and language when all lectures agree, and every instructor's notes labelled by lecture
+ */
+export function strictestLectureSettings(lectures: { lectureName: string; settings: LectureSettings }[]): LectureSettings {
+  const all = lectures.map((lecture) => lecture.settings);
+  const shared = <T>(values: T[], fallback: T): T => (values.every((value) => value === values[0]) ? values[0] ?? fallback : fallback);
+  const notes = lectures
+    .filter((lecture) => lecture.settings.instructions)
+    .map((lecture) => `(${JSON.stringify(lecture.lectureName)}) ${lecture.settings.instructions}`);
+
+  return {
+    mode: all.some((settings) => settings.mode === 'socratic') ? 'socratic' : 'direct',
+    tone: shared(all.map((settings) => settings.tone), DEFAULT_LECTURE_SETTINGS.tone),
+    language: shared(all.map((settings) => settings.language), DEFAULT_LECTURE_SETTINGS.language),
+    allowedTopics: [...new Set(all.flatMap((settings) => settings.allowedTopics))],
+    withholdSolutions: all.some((settings) => settings.withholdSolutions),
+    instructions: notes.length > 0 ? notes.join(' ') : null,
+  };
+}
+
+/**
+ * The lecture's tutor settings from its LectureMemory
+ */
+export async function loadLectureSettings(stub: DurableObjectStub): Promise<LectureSettings> {
+  const response = await stub.fetch('https://do-placeholder/settings');
+  if (!response.ok) {
+    throw new Error(`Failed to load lecture settings: ${await response.text()}`);
+  }
+  return (await response.json()) as LectureSettings;
+}
+
+/**
+ * Artifact cache variant for a result generated with `guidance`, so changing the settings
+ * regenerates summaries and concepts while results without guidance keep their keys
+ */
+export function guidanceVariant(variant: string, guidance: string): string {
+  return guidance ? `${variant}|${guidance}` : variant;
+}
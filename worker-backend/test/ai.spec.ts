@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { AI_MODELS, AiBackend, DEFAULT_AI_MODEL, ResilientAiProvider, availableModels, parseModelSelection } from '../src/ai';
+import { FakeAiProvider } from './fake-ai';
+import { readAiStream } from '../src/sse';
+
+const SMALL_MODEL = AI_MODELS[DEFAULT_AI_MODEL].fallback!;
+const question = { messages: [{ role: 'user', content: 'What is entropy?' }] };
+
+describe('parseModelSelection', () => {
+	it('defaults to the default model and only accepts configured models', () => {
+		expect(parseModelSelection(undefined, {})).toEqual({ model: DEFAULT_AI_MODEL });
+		expect(parseModelSelection(SMALL_MODEL, {})).toEqual({ model: SMALL_MODEL });
+		expect(parseModelSelection('@cf/some/unlisted-model', {}).error).toContain('model must be one of');
+		expect(parseModelSelection('gpt-4o-mini', {}).error).toContain('model must be one of');
+		expect(parseModelSelection('gpt-4o-mini', { OPENAI_API_KEY: 'key' })).toEqual({ model: 'gpt-4o-mini' });
+		expect(availableModels({})).not.toContain('gpt-4o-mini');
+	});
+});
+
+describe('ResilientAiProvider', () => {
+	it('retries a failed call once before falling back to the smaller model', async () => {
+		let failures = 1;
+		const flaky: AiBackend = {
+			async run(model) {
+				if (failures-- > 0) throw new Error('AI unavailable');
+				return { response: `answer from ${model}` };
+			},
+		};
+		const ai = new ResilientAiProvider({ 'workers-ai': flaky });
+		expect(await ai.run(DEFAULT_AI_MODEL, question)).toEqual({ response: `answer from ${DEFAULT_AI_MODEL}` });
+
+		const fake = new FakeAiProvider({ replies: ['fallback answer'], failingModels: [DEFAULT_AI_MODEL] });
+		const fallingBack = new ResilientAiProvider({ 'workers-ai': fake });
+		expect(await fallingBack.run(DEFAULT_AI_MODEL, question)).toEqual({ response: 'fallback answer' });
+		expect(fake.calls.map((call) => call.model)).toEqual([DEFAULT_AI_MODEL, DEFAULT_AI_MODEL, SMALL_MODEL]);
+	});
+
+	it('falls back straight away when the model times out', async () => {
+		const calls: string[] = [];
+		const slow: AiBackend = {
+			async run(model) {
+				calls.push(model);
+				if (model === DEFAULT_AI_MODEL) await new Promise((resolve) => setTimeout(resolve, 200));
+				return { response: `answer from ${model}` };
+			},
+		};
+		const ai = new ResilientAiProvider({ 'workers-ai': slow }, 50);
+		expect(await ai.run(DEFAULT_AI_MODEL, question)).toEqual({ response: `answer from ${SMALL_MODEL}` });
+		expect(calls).toEqual([DEFAULT_AI_MODEL, SMALL_MODEL]);
+	});
+
+	it('stops retrying and falling back at its deadline', async () => {
+		const calls: string[] = [];
+		const slow: AiBackend = {
+			async run(model) {
+				calls.push(model);
+				await new Promise((resolve) => setTimeout(resolve, 200));
+				return { response: `answer from ${model}` };
+			},
+		};
+		const ai = new ResilientAiProvider({ 'workers-ai': slow }, 1000, Date.now() + 50);
+		const started = Date.now();
+		await expect(ai.run(DEFAULT_AI_MODEL, question)).rejects.toThrow('did not respond');
+		expect(Date.now() - started).toBeLessThan(200);
+		expect(calls).toEqual([DEFAULT_AI_MODEL]);
+	});
+
+	it('fails when a model has no fallback or its provider is not configured', async () => {
+		const ai = new ResilientAiProvider({ 'workers-ai': new FakeAiProvider({ failingModels: [SMALL_MODEL] }) });
+		await expect(ai.run(SMALL_MODEL, question)).rejects.toThrow('unavailable');
+		await expect(new ResilientAiProvider({}).run(SMALL_MODEL, question)).rejects.toThrow('not configured');
+	});
+});
+
+describe('FakeAiProvider', () => {
+	it('streams its reply in the Workers AI event format and embeds text deterministically', async () => {
+		const ai = new FakeAiProvider({ replies: ['Entropy is disorder.'] });
+		const tokens: string[] = [];
+		for await (const token of readAiStream(await ai.run(DEFAULT_AI_MODEL, { ...question, stream: true }))) {
+			tokens.push(token);
+		}
+		expect(tokens.join('')).toBe('Entropy is disorder.');
+		expect(await ai.run(DEFAULT_AI_MODEL, question)).toEqual({ response: 'Entropy is disorder.' });
+		expect(await new FakeAiProvider().run(DEFAULT_AI_MODEL, question)).toEqual({ response: `Answer from ${DEFAULT_AI_MODEL}: What is entropy?` });
+
+		const { data } = await ai.run('@cf/baai/bge-base-en-v1.5', { text: ['abc', 'abc'] });
+		expect(data[0]).toEqual(data[1]);
+	});
+});
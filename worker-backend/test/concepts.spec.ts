@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { extractStructuredConcepts, mergeStructuredConcepts, repairStructuredConcepts } from '../src/concepts';
+import { PromptFormatError, parseJsonObject } from '../src/prompts';
+import { FakeAiProvider } from './fake-ai';
+
+describe('repairStructuredConcepts', () => {
+	it('repairs common model mistakes into the schema', () => {
+		const output = 'Sure!\n```json\n{“glossary”: [{"term": " Entropy ", "definition": "A measure of disorder"}, {"term": "Heat"},], "equations": {"formula": "$S = k \\\\ln W$", "description": "Boltzmann entropy"}}\n```';
+		expect(repairStructuredConcepts(parseJsonObject(output))).toEqual({
+			definitions: [{ term: 'Entropy', definition: 'A measure of disorder', sourceOffset: null }],
+			formulas: [{ latex: 'S = k \\ln W', description: 'Boltzmann entropy' }],
+			concepts: [],
+		});
+	});
+
+	it('rejects replies with nothing usable', () => {
+		expect(() => repairStructuredConcepts(parseJsonObject('{"definitions": [{"term": ""}]}'))).toThrow(PromptFormatError);
+		expect(() => parseJsonObject('No concepts here')).toThrow(PromptFormatError);
+	});
+});
+
+describe('mergeStructuredConcepts', () => {
+	it('deduplicates terms across sections, keeping the fullest definition and earliest offset', () => {
+		const merged = mergeStructuredConcepts([
+			{ definitions: [{ term: 'Entropy', definition: 'Disorder', sourceOffset: 120 }], formulas: [{ latex: 'S = k \\ln W', description: '' }], concepts: [] },
+			{ definitions: [{ term: 'entropy', definition: 'A measure of disorder', sourceOffset: 15000 }], formulas: [{ latex: 'S=k \\ln W', description: 'Boltzmann entropy' }], concepts: [{ name: 'Second law', description: '' }] },
+		]);
+		expect(merged.definitions).toEqual([{ term: 'entropy', definition: 'A measure of disorder', sourceOffset: 120 }]);
+		expect(merged.formulas).toEqual([{ latex: 'S=k \\ln W', description: 'Boltzmann entropy' }]);
+		expect(merged.concepts).toHaveLength(1);
+	});
+});
+
+describe('extractStructuredConcepts', () => {
+	it('links definitions to where their term appears in the lecture', async () => {
+		const ai = new FakeAiProvider({ replies: ['not json', '{"definitions": [{"term": "entropy", "definition": "A measure of disorder"}, {"term": "enthalpy", "definition": "Heat content"}]}'] });
+		const concepts = await extractStructuredConcepts(ai, 'model', 'Today: Entropy. Entropy grows in isolated systems.');
+		expect(concepts.definitions).toEqual([
+			{ term: 'entropy', definition: 'A measure of disorder', sourceOffset: 7 },
+			{ term: 'enthalpy', definition: 'Heat content', sourceOffset: null },
+		]);
+		expect(ai.prompts).toHaveLength(2);
+	});
+
+	it('merges the sections of long lectures', async () => {
+		const text = `Entropy is introduced here. ${'Filler sentence about heat. '.repeat(500)}Entropy returns at the end.`;
+		const ai = new FakeAiProvider({ replies: ['{"definitions": [{"term": "Entropy", "definition": "Disorder"}]}', '{"definitions": [{"term": "Entropy", "definition": "A measure of disorder"}]}'] });
+		const concepts = await extractStructuredConcepts(ai, 'model', text);
+		expect(ai.prompts.length).toBeGreaterThan(1);
+		expect(ai.prompts[0].system).toContain(`part 1 of ${ai.prompts.length}`);
+		expect(concepts.definitions).toEqual([{ term: 'Entropy', definition: 'A measure of disorder', sourceOffset: 0 }]);
+	});
+});
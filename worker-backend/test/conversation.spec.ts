@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { buildConversationContext, contextBudgetFromEnv, ConversationMessage, DEFAULT_CONTEXT_BUDGET } from '../src/conversation';
+import { FakeAiProvider } from './fake-ai';
+
+const budget = { maxHistoryTokens: 100, minRecentMessages: 2, summaryMaxTokens: 64 };
+
+// Each message is ~25 tokens by the 4-characters-per-token estimate
+function makeMessages(count: number): ConversationMessage[] {
+	return Array.from({ length: count }, (_, i) => ({
+		id: `m${i}`,
+		role: i % 2 === 0 ? 'user' : 'assistant',
+		content: `${i}`.padEnd(100, '.'),
+	}));
+}
+
+describe('buildConversationContext', () => {
+	it('sends everything verbatim while within budget', async () => {
+		const ai = new FakeAiProvider({ replies: ['running summary'] });
+		const context = await buildConversationContext(ai, 'model', makeMessages(3), null, budget);
+		expect(context.recentMessages).toHaveLength(3);
+		expect(context.summaryUpdated).toBe(false);
+		expect(ai.calls).toHaveLength(0);
+	});
+
+	it('folds older turns into a summary when the budget is exceeded', async () => {
+		const ai = new FakeAiProvider({ replies: ['running summary'] });
+		const context = await buildConversationContext(ai, 'model', makeMessages(6), null, budget);
+
+		expect(context.recentMessages.map((m) => m.id)).toEqual(['m4', 'm5']);
+		expect(context.summary).toMatchObject({ content: 'running summary', lastMessageId: 'm3' });
+		expect(context.summaryUpdated).toBe(true);
+		expect(ai.prompts[0].maxTokens).toBe(64);
+		expect(ai.prompts[0].user).toContain('Student: 0');
+	});
+
+	it('only sends turns newer than an existing summary', async () => {
+		const ai = new FakeAiProvider({ replies: ['running summary'] });
+		const summary = { content: 'earlier', lastMessageId: 'm3', updatedAt: 0 };
+		const context = await buildConversationContext(ai, 'model', makeMessages(5), summary, budget);
+
+		expect(context.recentMessages.map((m) => m.id)).toEqual(['m4']);
+		expect(context.summary).toBe(summary);
+		expect(ai.calls).toHaveLength(0);
+	});
+
+	it('includes the previous summary when regenerating', async () => {
+		const ai = new FakeAiProvider({ replies: ['merged'] });
+		const summary = { content: 'earlier summary', lastMessageId: 'm1', updatedAt: 0 };
+		const context = await buildConversationContext(ai, 'model', makeMessages(8), summary, budget);
+
+		expect(ai.prompts[0].user).toContain('earlier summary');
+		expect(context.summary?.lastMessageId).toBe('m5');
+	});
+
+	it('drops the oldest turns if summarization fails', async () => {
+		const ai = new FakeAiProvider({ failingModels: ['model'] });
+		const context = await buildConversationContext(ai, 'model', makeMessages(6), null, budget);
+		expect(context.recentMessages.map((m) => m.id)).toEqual(['m4', 'm5']);
+		expect(context.summaryUpdated).toBe(false);
+	});
+});
+
+describe('contextBudgetFromEnv', () => {
+	it('reads overrides and ignores invalid values', () => {
+		expect(contextBudgetFromEnv({ CHAT_HISTORY_TOKEN_BUDGET: '2000', CHAT_MIN_RECENT_MESSAGES: 'abc' })).toEqual({
+			...DEFAULT_CONTEXT_BUDGET,
+			maxHistoryTokens: 2000,
+		});
+	});
+});
@@ -1,7 +1,4 @@
 declare module 'cloudflare:test' {
-	interface ProvidedEnv extends Env {
-		AI: any;
-		LECTURE_MEMORY: DurableObjectNamespace;
-		DB: D1Database;
-	}
+	// Every binding in wrangler.jsonc, as generated into worker-configuration.d.ts
+	interface ProvidedEnv extends Env {}
 }
@@ -0,0 +1,103 @@
+import { env, runInDurableObject } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { LectureMemory } from '../src/LectureMemory';
+import { LectureExport, buildAccountExport, loadLectureMaterials, markdownToHtml, renderAnkiCsv, renderMarkdown } from '../src/export';
+import { crc32, createZip, readZipEntries } from '../src/zip';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+const exportedAt = new Date('2026-03-01T12:00:00Z');
+
+function lecture(overrides: Partial<LectureExport> = {}): LectureExport {
+	return {
+		lectureId: 'lecture-1',
+		lectureName: 'Thermodynamics',
+		course: 'Physics 101',
+		tags: ['exam prep'],
+		summary: null,
+		concepts: null,
+		structuredConcepts: null,
+		flashcards: [],
+		threads: [],
+		...overrides,
+	};
+}
+
+function artifact(content: string) {
+	return { kind: 'summary' as const, cacheKey: 'key', content, model: 'model', promptVersion: 1, createdAt: exportedAt.toISOString() };
+}
+
+describe('createZip', () => {
+	it('writes archives the reader can open', async () => {
+		expect(crc32(encoder.encode('123456789'))).toBe(0xcbf43926);
+
+		const archive = await createZip([
+			{ name: 'Physics/Entropy.md', data: encoder.encode('# Entropy\n'.repeat(50)) },
+			{ name: 'Unsorted/Ünïcode.txt', data: encoder.encode('x') },
+		]);
+		const entries = await readZipEntries(archive, () => true);
+		expect([...entries.keys()]).toEqual(['Physics/Entropy.md', 'Unsorted/Ünïcode.txt']);
+		expect(decoder.decode(entries.get('Physics/Entropy.md'))).toBe('# Entropy\n'.repeat(50));
+		expect(decoder.decode(entries.get('Unsorted/Ünïcode.txt'))).toBe('x');
+	});
+});
+
+describe('renderers', () => {
+	it('renders Markdown with front matter and nested headings', () => {
+		const markdown = renderMarkdown(lecture({
+			summary: artifact('# Overview\n- Entropy grows'),
+			flashcards: [{ id: 'card-1', question: 'What is entropy?', answer: 'Disorder' }],
+			threads: [{ id: 'default', title: 'General', messages: [{ role: 'user', content: 'Why?', timestamp: exportedAt.getTime() }] }],
+		}), exportedAt);
+
+		expect(markdown).toMatch(/^---\ntitle: "Thermodynamics"\ncourse: "Physics 101"\ntags: \["lecturelens", "exam-prep"\]/);
+		expect(markdown).toContain('## Summary\n\n### Overview\n- Entropy grows');
+		expect(markdown).toContain('1. **What is entropy?**\n   Disorder');
+		expect(markdown).toContain('## Chat: General\n\n**You** (2026-03-01 12:00 UTC):\n\nWhy?');
+	});
+
+	it('writes an Anki CSV with import headers and quoted fields', () => {
+		const csv = renderAnkiCsv(lecture({ flashcards: [{ id: 'card-1', question: 'Say "hi", then?', answer: 'Line 1\nLine 2' }] }));
+		expect(csv).toContain('#deck:LectureLens::Physics 101::Thermodynamics\n');
+		expect(csv).toContain('"Say ""hi"", then?","Line 1\nLine 2","lecturelens exam_prep"');
+	});
+
+	it('escapes HTML in Markdown', () => {
+		expect(markdownToHtml('## Heat\n- **Q** = <script>alert(1)</script>\n- `a < b`')).toBe(
+			'<h2>Heat</h2>\n<ul>\n<li><strong>Q</strong> = &lt;script&gt;alert(1)&lt;/script&gt;</li>\n<li><code>a &lt; b</code></li>\n</ul>'
+		);
+	});
+});
+
+describe('buildAccountExport', () => {
+	it('puts lectures in course folders and skips lectures without flashcards for Anki', async () => {
+		const card = { id: 'card-1', question: 'Q', answer: 'A' };
+		const lectures = [
+			lecture({ lectureId: 'a', flashcards: [card] }),
+			lecture({ lectureId: 'b' }),
+			lecture({ lectureId: 'c', lectureName: 'Notes: week 1', course: null }),
+		];
+
+		const markdown = await readZipEntries(await buildAccountExport(lectures, 'md', exportedAt), () => true);
+		expect([...markdown.keys()]).toEqual(['Physics 101/Thermodynamics.md', 'Physics 101/Thermodynamics (2).md', 'Unsorted/Notes- week 1.md']);
+
+		const anki = await readZipEntries(await buildAccountExport(lectures, 'anki-csv', exportedAt), () => true);
+		expect([...anki.keys()]).toEqual(['Physics 101/Thermodynamics.csv']);
+	});
+
+	it('loads cached artifacts and chat threads from the lecture', async () => {
+		const stub = env.LECTURE_MEMORY.get(env.LECTURE_MEMORY.idFromName('export-materials'));
+		await runInDurableObject(stub, async (_instance: LectureMemory, state) => {
+			await state.storage.put('chat_history', { messages: [{ id: 'm1', role: 'user', content: 'Hello', timestamp: 1 }] });
+		});
+		await (await stub.fetch('https://do/artifacts/concepts_json', {
+			method: 'PUT',
+			body: JSON.stringify({ ...artifact(JSON.stringify({ definitions: [], formulas: [], concepts: [{ name: 'Entropy', description: '' }] })), kind: 'concepts_json' }),
+		})).text();
+
+		const materials = await loadLectureMaterials(stub);
+		expect(materials.summary).toBeNull();
+		expect(materials.structuredConcepts?.concepts[0].name).toBe('Entropy');
+		expect(materials.threads).toEqual([{ id: 'default', title: 'General', messages: [{ id: 'm1', role: 'user', content: 'Hello', timestamp: 1 }] }]);
+	});
+});
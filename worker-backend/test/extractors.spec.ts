@@ -0,0 +1,160 @@
+import { describe, it, expect } from 'vitest';
+import { ExtractionError, findExtractor, sectionsForRange } from '../src/extractors';
+
+const encoder = new TextEncoder();
+
+async function deflateRaw(data: Uint8Array): Promise<Uint8Array> {
+	const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+	return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// Build a ZIP archive with deflated entries (CRCs are left at zero; the reader does not check them)
+async function buildZip(files: Record<string, string>): Promise<Uint8Array> {
+	const locals: Uint8Array[] = [];
+	const centrals: Uint8Array[] = [];
+	let offset = 0;
+	for (const [name, content] of Object.entries(files)) {
+		const nameBytes = encoder.encode(name);
+		const raw = encoder.encode(content);
+		const data = await deflateRaw(raw);
+
+		const local = new Uint8Array(30 + nameBytes.length + data.length);
+		const lv = new DataView(local.buffer);
+		lv.setUint32(0, 0x04034b50, true);
+		lv.setUint16(8, 8, true);
+		lv.setUint32(18, data.length, true);
+		lv.setUint32(22, raw.length, true);
+		lv.setUint16(26, nameBytes.length, true);
+		local.set(nameBytes, 30);
+		local.set(data, 30 + nameBytes.length);
+
+		const central = new Uint8Array(46 + nameBytes.length);
+		const cv = new DataView(central.buffer);
+		cv.setUint32(0, 0x02014b50, true);
+		cv.setUint16(10, 8, true);
+		cv.setUint32(20, data.length, true);
+		cv.setUint32(24, raw.length, true);
+		cv.setUint16(28, nameBytes.length, true);
+		cv.setUint32(42, offset, true);
+		central.set(nameBytes, 46);
+
+		locals.push(local);
+		centrals.push(central);
+		offset += local.length;
+	}
+
+	const centralSize = centrals.reduce((sum, c) => sum + c.length, 0);
+	const eocd = new Uint8Array(22);
+	const ev = new DataView(eocd.buffer);
+	ev.setUint32(0, 0x06054b50, true);
+	ev.setUint16(8, centrals.length, true);
+	ev.setUint16(10, centrals.length, true);
+	ev.setUint32(12, centralSize, true);
+	ev.setUint32(16, offset, true);
+
+	const out = new Uint8Array(offset + centralSize + 22);
+	let position = 0;
+	for (const part of [...locals, ...centrals, eocd]) {
+		out.set(part, position);
+		position += part.length;
+	}
+	return out;
+}
+
+async function extract(fileName: string, content: string | Uint8Array, mimeType = '') {
+	const bytes = typeof content === 'string' ? encoder.encode(content) : content;
+	const extractor = findExtractor(fileName, mimeType, bytes);
+	if (!extractor) throw new Error(`No extractor for ${fileName}`);
+	return { format: extractor.format, ...(await extractor.extract(bytes)) };
+}
+
+function sectionText(result: { text: string }, section: { start: number; end: number }) {
+	return result.text.slice(section.start, section.end);
+}
+
+describe('findExtractor', () => {
+	it('picks an extractor by content, then extension, then MIME type', () => {
+		expect(findExtractor('notes.txt', 'text/plain', encoder.encode('%PDF-1.4\n'))?.format).toBe('pdf');
+		expect(findExtractor('captions.VTT', '', encoder.encode('WEBVTT'))?.format).toBe('vtt');
+		expect(findExtractor('upload', 'text/markdown; charset=utf-8', encoder.encode('# Notes'))?.format).toBe('markdown');
+		expect(findExtractor('archive.rar', 'application/octet-stream', encoder.encode('data'))).toBeNull();
+	});
+
+	it('reads frontend-extracted text uploaded under a .pdf name as plain text', async () => {
+		const result = await extract('lecture.pdf', 'Text extracted by PDF.js', 'text/plain');
+		expect(result).toEqual({ format: 'pdf', text: 'Text extracted by PDF.js', sections: [] });
+	});
+});
+
+describe('markdown and HTML extractors', () => {
+	it('records markdown headings as nested sections', async () => {
+		const result = await extract('notes.md', '# Thermodynamics\r\nIntro.\r\n\r\n## Entropy\r\nDisorder.\r\n\r\n```\n# not a heading\n```\n\n# Kinetics\nRates.');
+		expect(result.sections.map((s) => [s.label, s.level])).toEqual([
+			['Thermodynamics', 1],
+			['Entropy', 2],
+			['Kinetics', 1],
+		]);
+		expect(sectionText(result, result.sections[1])).toBe('Entropy\n\nDisorder.\n\n```\n# not a heading\n```');
+		expect(sectionText(result, result.sections[0])).toContain('Entropy');
+		expect(sectionText(result, result.sections[2])).toBe('Kinetics\n\nRates.');
+	});
+
+	it('strips HTML markup, scripts and entities', async () => {
+		const html = '<html><head><title>x</title></head><body><script>alert(1)</script><h1>Cells &amp; Tissues</h1><p>The <b>cell</b> is\n the unit.</p><ul><li>Nucleus</li><li>Membrane</li></ul></body></html>';
+		const result = await extract('page.html', html);
+		expect(result.text).toBe('Cells & Tissues\n\nThe cell is the unit.\n\n- Nucleus\n\n- Membrane');
+		expect(result.sections).toEqual([{ kind: 'heading', label: 'Cells & Tissues', start: 0, end: result.text.length, level: 1 }]);
+	});
+});
+
+describe('caption extractors', () => {
+	it('keeps cue timestamps for SRT and VTT files', async () => {
+		const srt = '1\r\n00:00:01,000 --> 00:00:04,500\r\nWelcome to the lecture.\r\n\r\n2\r\n00:00:05,000 --> 00:00:07,000\r\nToday: <i>entropy</i>.\r\n';
+		const vtt = 'WEBVTT\n\nNOTE speaker notes\n\n00:01.000 --> 00:04.500 align:start\n<v Prof>Welcome to the lecture.\n\n00:04.500 --> 00:05.000\nWelcome to the lecture.\n\n00:05.000 --> 00:07.000\nToday: entropy.\n';
+
+		for (const [name, content] of [['talk.srt', srt], ['talk.vtt', vtt]]) {
+			const result = await extract(name, content);
+			expect(result.text).toBe('Welcome to the lecture.\nToday: entropy.');
+			expect(result.sections.map((s) => s.label)).toEqual(['00:00:01.000 --> 00:00:04.500', '00:00:05.000 --> 00:00:07.000']);
+			expect(sectionText(result, result.sections[1])).toBe('Today: entropy.');
+		}
+	});
+});
+
+describe('Office extractors', () => {
+	it('extracts DOCX paragraphs, headings and list items', async () => {
+		const documentXml =
+			'<w:document><w:body>' +
+			'<w:p><w:pPr><w:pStyle w:val="Heading1"/></w:pPr><w:r><w:t>Photosynthesis</w:t></w:r></w:p>' +
+			'<w:p><w:r><w:t xml:space="preserve">Light &amp; water </w:t></w:r><w:r><w:t>make sugar.</w:t></w:r></w:p>' +
+			'<w:p/>' +
+			'<w:p><w:pPr><w:numPr><w:ilvl w:val="0"/></w:numPr></w:pPr><w:r><w:t>Chlorophyll</w:t></w:r></w:p>' +
+			'</w:body></w:document>';
+		const result = await extract('handout.docx', await buildZip({ '[Content_Types].xml': '<Types/>', 'word/document.xml': documentXml }));
+		expect(result.text).toBe('Photosynthesis\n\nLight & water make sugar.\n\n- Chlorophyll');
+		expect(result.sections).toEqual([{ kind: 'heading', label: 'Photosynthesis', start: 0, end: result.text.length, level: 1 }]);
+	});
+
+	it('extracts PPTX slides in presentation order', async () => {
+		const slide = (text: string) => `<p:sld><p:cSld><p:spTree><p:sp><p:txBody><a:p><a:r><a:t>${text}</a:t></a:r></a:p><a:p><a:r><a:t>Details</a:t></a:r></a:p></p:txBody></p:sp></p:spTree></p:cSld></p:sld>`;
+		const pptx = await buildZip({
+			'ppt/presentation.xml': '<p:presentation><p:sldIdLst><p:sldId id="256" r:id="rId3"/><p:sldId id="257" r:id="rId2"/></p:sldIdLst></p:presentation>',
+			'ppt/_rels/presentation.xml.rels': '<Relationships><Relationship Id="rId2" Target="slides/slide1.xml"/><Relationship Id="rId3" Target="slides/slide2.xml"/></Relationships>',
+			'ppt/slides/slide1.xml': slide('Second'),
+			'ppt/slides/slide2.xml': slide('First'),
+		});
+		const result = await extract('deck.pptx', pptx);
+		expect(result.text).toBe('First\nDetails\n\nSecond\nDetails');
+		expect(result.sections.map((s) => [s.label, sectionText(result, s)])).toEqual([
+			['Slide 1', 'First\nDetails'],
+			['Slide 2', 'Second\nDetails'],
+		]);
+		expect(sectionsForRange(result.sections, 3, result.text.length).map((s) => s.number)).toEqual([1, 2]);
+	});
+
+	it('rejects files that are not Office archives', async () => {
+		const error = await extract('fake.docx', 'plain text').catch((e) => e);
+		expect(error).toBeInstanceOf(ExtractionError);
+		expect(error.title).toBe('Invalid DOCX');
+	});
+});
@@ -0,0 +1,70 @@
+import { AiInputs, AiOutput, AiProvider, EmbeddingInputs, EmbeddingOutput, TextGenerationInputs, TextGenerationOutput } from '../src/ai';
+
+interface FakeAiOptions {
+	replies?: string[];
+	failingModels?: string[];
+	embed?: (text: string) => number[];
+}
+
+/**
+ * Deterministic stand-in for the AI binding in tests: replies with each of `replies` in turn and
+ * then repeats the last one (without replies, echoes the last user message), embeds text with
+ * `embed` (letter counts by default), and fails for the models in `failingModels`. Every call
+ * is recorded in `calls`, and the prompts of the text calls in `prompts`.
+ */
+export class FakeAiProvider implements AiProvider {
+	replies: string[];
+	failingModels: Set<string>;
+	embed: (text: string) => number[];
+	calls: { model: string; inputs: AiInputs }[] = [];
+	prompts: { model: string; system: string; user: string; maxTokens?: number }[] = [];
+
+	constructor(options: FakeAiOptions = {}) {
+		this.replies = [...(options.replies || [])];
+		this.failingModels = new Set(options.failingModels || []);
+		this.embed = options.embed || fakeEmbedding;
+	}
+
+	run(model: string, inputs: EmbeddingInputs): Promise<EmbeddingOutput>;
+	run(model: string, inputs: TextGenerationInputs & { stream: true }): Promise<ReadableStream<Uint8Array>>;
+	run(model: string, inputs: TextGenerationInputs): Promise<TextGenerationOutput>;
+	async run(model: string, inputs: AiInputs): Promise<AiOutput> {
+		this.calls.push({ model, inputs });
+		if (this.failingModels.has(model)) {
+			throw new Error(`AI model ${model} unavailable`);
+		}
+
+		if (!('messages' in inputs)) {
+			return { data: inputs.text.map((text) => this.embed(text)) };
+		}
+
+		const system = inputs.messages.find((message) => message.role === 'system')?.content ?? '';
+		const question = [...inputs.messages].reverse().find((message) => message.role === 'user')?.content ?? '';
+		this.prompts.push({ model, system, user: question, maxTokens: inputs.max_tokens });
+		const reply = (this.replies.length > 1 ? this.replies.shift() : this.replies[0]) ?? `Answer from ${model}: ${question}`;
+		if (!inputs.stream) {
+			return { response: reply };
+		}
+
+		const encoder = new TextEncoder();
+		const events = [...reply.split(/(?<= )/).map((token) => `data: ${JSON.stringify({ response: token })}\n\n`), 'data: [DONE]\n\n'];
+		return new ReadableStream<Uint8Array>({
+			start(controller) {
+				events.forEach((event) => controller.enqueue(encoder.encode(event)));
+				controller.close();
+			},
+		});
+	}
+}
+
+// Letter frequencies (a-z) as a stable 26-dimensional vector
+function fakeEmbedding(text: string): number[] {
+	const vector = new Array(26).fill(0);
+	for (const char of text.toLowerCase()) {
+		const index = char.charCodeAt(0) - 97;
+		if (index >= 0 && index < 26) {
+			vector[index]++;
+		}
+	}
+	return vector;
+}
@@ -0,0 +1,18 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { deleteLectureFile, getLectureFile, putLectureFile } from '../src/files';
+
+describe('lecture files', () => {
+	it('stores, reads back and deletes the original upload', async () => {
+		const lectureId = 'files-roundtrip';
+		const bytes = new TextEncoder().encode('%PDF-1.4 original bytes');
+		await putLectureFile(env.LECTURE_FILES, lectureId, bytes, { fileName: 'Week 1.pdf', contentType: 'application/pdf' });
+
+		const stored = await getLectureFile(env.LECTURE_FILES, lectureId);
+		expect(stored).toMatchObject({ fileName: 'Week 1.pdf', contentType: 'application/pdf', size: bytes.length });
+		expect(new Uint8Array(await new Response(stored!.body).arrayBuffer())).toEqual(bytes);
+
+		await deleteLectureFile(env.LECTURE_FILES, lectureId);
+		expect(await getLectureFile(env.LECTURE_FILES, lectureId)).toBeNull();
+	});
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { generateFlashcards, initialSchedule, parseFlashcards, scheduleReview } from '../src/flashcards';
+import { PromptFormatError } from '../src/prompts';
+import { FakeAiProvider } from './fake-ai';
+
+describe('parseFlashcards', () => {
+	it('reads a fenced JSON array and drops invalid cards', () => {
+		const output = 'Here you go:\n```json\n[{"question": " What is entropy? ", "answer": "Disorder"}, {"question": "No answer"}, {"question": "", "answer": "x"}]\n```';
+		expect(parseFlashcards(output)).toEqual([{ question: 'What is entropy?', answer: 'Disorder' }]);
+	});
+
+	it('rejects replies without valid cards', () => {
+		expect(() => parseFlashcards('Sorry, I cannot help')).toThrow(PromptFormatError);
+		expect(() => parseFlashcards('[{"question": "Q", "answer": }]')).toThrow('not valid JSON');
+		expect(() => parseFlashcards('[{"q": 1}]')).toThrow('no valid flashcards');
+	});
+});
+
+describe('generateFlashcards', () => {
+	it('retries malformed output and keeps at most the requested count', async () => {
+		const ai = new FakeAiProvider({ replies: ['not json', '[{"question": "Q1", "answer": "A1"}, {"question": "Q2", "answer": "A2"}, {"question": "Q3", "answer": "A3"}]'] });
+		const cards = await generateFlashcards(ai, 'model', 'Short lecture text.', 2);
+		expect(cards.map((card) => card.question)).toEqual(['Q1', 'Q2']);
+		expect(ai.prompts).toHaveLength(2);
+		expect(ai.prompts[1].system).toContain('previous reply could not be used');
+	});
+
+	it('gives up after repeated malformed output', async () => {
+		const ai = new FakeAiProvider({ replies: ['still not json'] });
+		await expect(generateFlashcards(ai, 'model', 'Short lecture text.', 2)).rejects.toBeInstanceOf(PromptFormatError);
+		expect(ai.prompts).toHaveLength(3);
+	});
+
+	it('spreads cards across sections of long lectures', async () => {
+		const ai = new FakeAiProvider({ replies: ['[{"question": "Q", "answer": "A"}, {"question": "Q", "answer": "A"}]'] });
+		const cards = await generateFlashcards(ai, 'model', 'word '.repeat(6000), 3);
+		expect(ai.prompts.map((prompt) => prompt.system.match(/exactly (\d+)/)![1])).toEqual(['1', '1', '1']);
+		expect(cards).toHaveLength(3);
+	});
+});
+
+describe('scheduleReview', () => {
+	it('grows the interval with SM-2 and resets it on a failed review', () => {
+		const now = new Date('2026-03-01T00:00:00Z');
+		let schedule = initialSchedule(now);
+		const intervals: number[] = [];
+		for (const grade of [5, 4, 4]) {
+			schedule = scheduleReview(schedule, grade, now);
+			intervals.push(schedule.intervalDays);
+		}
+		expect(intervals).toEqual([1, 6, 16]);
+		expect(schedule.easeFactor).toBe(2.6);
+		expect(schedule.dueAt).toBe('2026-03-17T00:00:00.000Z');
+
+		const failed = scheduleReview(schedule, 1, now);
+		expect(failed).toMatchObject({ repetitions: 0, intervalDays: 1, easeFactor: 2.06 });
+		expect(scheduleReview({ ...failed, easeFactor: 1.3 }, 0, now).easeFactor).toBe(1.3);
+	});
+});
@@ -0,0 +1,42 @@
+import { env } from 'cloudflare:test';
+import { beforeEach, describe, it, expect } from 'vitest';
+import { deleteGroupStatements, findRateLimitPool, parseGroupSettings } from '../src/groups';
+
+describe('parseGroupSettings', () => {
+	it('requires a name on create and accepts any subset on update', () => {
+		expect(parseGroupSettings({ name: ' Section B ' }, false)).toEqual({ settings: { name: 'Section B' } });
+		expect(parseGroupSettings({ pooledQuotas: true }, false).error).toContain('name');
+		expect(parseGroupSettings({ pooledQuotas: true }, true)).toEqual({ settings: { pooledQuotas: true } });
+		expect(parseGroupSettings({ pooledQuotas: 'yes' }, true).error).toContain('pooledQuotas');
+		expect(parseGroupSettings({ name: 'x'.repeat(101) }, true).error).toContain('at most');
+		expect(parseGroupSettings(null, true).error).toContain('JSON object');
+	});
+});
+
+describe('findRateLimitPool', () => {
+	const db = () => env.lecturelens_db;
+	const createdAt = '2026-03-01T12:00:00.000Z';
+
+	beforeEach(async () => {
+		await db().exec('CREATE TABLE IF NOT EXISTS study_groups (id TEXT PRIMARY KEY, name TEXT NOT NULL, created_by TEXT NOT NULL, pooled_quotas INTEGER NOT NULL DEFAULT 0, created_at TEXT NOT NULL)');
+		await db().exec('CREATE TABLE IF NOT EXISTS group_members (group_id TEXT NOT NULL, user_id TEXT NOT NULL, role TEXT NOT NULL, joined_at TEXT NOT NULL, PRIMARY KEY (group_id, user_id))');
+		await db().exec('CREATE TABLE IF NOT EXISTS group_invitations (id TEXT PRIMARY KEY, group_id TEXT NOT NULL, email TEXT NOT NULL, role TEXT NOT NULL, invited_by TEXT NOT NULL, expires_at TEXT NOT NULL, created_at TEXT NOT NULL)');
+		await db().exec('CREATE TABLE IF NOT EXISTS group_lectures (group_id TEXT NOT NULL, lecture_id TEXT NOT NULL, added_by TEXT NOT NULL, added_at TEXT NOT NULL, PRIMARY KEY (group_id, lecture_id))');
+		await db().batch([
+			db().prepare("INSERT INTO study_groups (id, name, created_by, pooled_quotas, created_at) VALUES ('pool-on', 'Section A', 'pool-ta', 1, ?), ('pool-off', 'Section B', 'pool-ta', 0, ?)").bind(createdAt, createdAt),
+			db().prepare("INSERT INTO group_members (group_id, user_id, role, joined_at) VALUES ('pool-on', 'pool-ta', 'instructor', ?), ('pool-on', 'pool-student', 'student', ?), ('pool-off', 'pool-ta', 'instructor', ?), ('pool-off', 'pool-other', 'student', ?)").bind(createdAt, createdAt, createdAt, createdAt),
+			db().prepare("INSERT INTO group_lectures (group_id, lecture_id, added_by, added_at) VALUES ('pool-on', 'pool-lecture', 'pool-ta', ?), ('pool-off', 'pool-lecture', 'pool-ta', ?)").bind(createdAt, createdAt),
+		]);
+	});
+
+	it('pools quotas only for members of a group with pooling on', async () => {
+		expect(await findRateLimitPool(db(), 'pool-student', 'pool-lecture')).toEqual({ groupId: 'pool-on', memberCount: 2 });
+		expect(await findRateLimitPool(db(), 'pool-other', 'pool-lecture')).toBeNull();
+		expect(await findRateLimitPool(db(), 'pool-student', 'pool-elsewhere')).toBeNull();
+	});
+
+	it('stops pooling once the group is deleted', async () => {
+		await db().batch(deleteGroupStatements(db(), 'pool-on'));
+		expect(await findRateLimitPool(db(), 'pool-student', 'pool-lecture')).toBeNull();
+	});
+});
@@ -1,6 +1,7 @@
-import { env, createExecutionContext, waitOnExecutionContext, SELF } from 'cloudflare:test';
-import { describe, it, expect } from 'vitest';
+import { env, createExecutionContext, createScheduledController, waitOnExecutionContext, SELF } from 'cloudflare:test';
+import { beforeEach, describe, it, expect } from 'vitest';
 import worker from '../src/index';
+import { grantStatement, ownerPermissionStatement } from '../src/permissions';
 
 // For now, you'll need to do something like this to get a correctly-typed
 // `Request` to pass to `worker.fetch()`.
@@ -22,3 +23,50 @@ describe('Hello World worker', () => {
 		expect(await response.text()).toMatchInlineSnapshot(`"Hello World!"`);
 	});
 });
+
+describe('CORS preflight', () => {
+	it('answers OPTIONS on any route, including PUT endpoints', async () => {
+		const response = await SELF.fetch('https://example.com/api/lectures/some-lecture/settings', { method: 'OPTIONS' });
+		expect(response.status).toBe(200);
+		expect(response.headers.get('Access-Control-Allow-Methods')).toContain('PUT');
+		expect(response.headers.get('Access-Control-Allow-Origin')).toBe('*');
+	});
+});
+
+describe('Trash purge', () => {
+	const db = () => env.lecturelens_db;
+	const longAgo = '2026-01-01T00:00:00.000Z';
+
+	beforeEach(async () => {
+		await db().exec('CREATE TABLE IF NOT EXISTS user_lectures (user_id TEXT, lecture_id TEXT, lecture_name TEXT, deleted_at TEXT)');
+		await db().exec('CREATE TABLE IF NOT EXISTS lecture_tags (user_id TEXT, lecture_id TEXT, tag TEXT, PRIMARY KEY (user_id, lecture_id, tag))');
+		await db().exec('CREATE TABLE IF NOT EXISTS flashcards (id TEXT PRIMARY KEY, user_id TEXT NOT NULL, lecture_id TEXT NOT NULL, question TEXT NOT NULL, answer TEXT NOT NULL, due_at TEXT NOT NULL, created_at TEXT NOT NULL)');
+		await db().exec('CREATE TABLE IF NOT EXISTS quizzes (id TEXT PRIMARY KEY, user_id TEXT NOT NULL, lecture_id TEXT NOT NULL, difficulty TEXT NOT NULL, questions TEXT NOT NULL, created_at TEXT NOT NULL)');
+		await db().exec('CREATE TABLE IF NOT EXISTS quiz_attempts (id TEXT PRIMARY KEY, quiz_id TEXT NOT NULL, user_id TEXT NOT NULL, answers TEXT NOT NULL, results TEXT NOT NULL, score REAL NOT NULL, max_score INTEGER NOT NULL, created_at TEXT NOT NULL)');
+		await db().exec("CREATE TABLE IF NOT EXISTS lecture_permissions (lecture_id TEXT NOT NULL, user_id TEXT NOT NULL, role TEXT NOT NULL CHECK (role IN ('owner', 'collaborator', 'viewer')), granted_by TEXT, share_token TEXT, created_at TEXT NOT NULL, PRIMARY KEY (lecture_id, user_id))");
+		await db().exec('CREATE TABLE IF NOT EXISTS lecture_share_links (token TEXT PRIMARY KEY, lecture_id TEXT NOT NULL, created_by TEXT NOT NULL, role TEXT NOT NULL, expires_at TEXT NOT NULL, revoked_at TEXT, created_at TEXT NOT NULL)');
+		await db().exec('CREATE TABLE IF NOT EXISTS group_lectures (group_id TEXT NOT NULL, lecture_id TEXT NOT NULL, added_by TEXT NOT NULL, added_at TEXT NOT NULL, PRIMARY KEY (group_id, lecture_id))');
+		await db().exec('CREATE VIRTUAL TABLE IF NOT EXISTS lecture_search USING fts5(content, lecture_id UNINDEXED, start_offset UNINDEXED)');
+		await db().batch([
+			db().prepare("INSERT INTO user_lectures (user_id, lecture_id, lecture_name, deleted_at) VALUES ('purge-owner', 'purge-lecture', 'Optics', ?)").bind(longAgo),
+			ownerPermissionStatement(db(), 'purge-owner', 'purge-lecture', longAgo),
+			grantStatement(db(), 'purge-lecture', 'purge-viewer', 'viewer', 'purge-owner'),
+			db().prepare("INSERT INTO flashcards (id, user_id, lecture_id, question, answer, due_at, created_at) VALUES ('purge-card', 'purge-viewer', 'purge-lecture', 'What does a lens do?', 'Focuses light', ?, ?)").bind(longAgo, longAgo),
+			db().prepare("INSERT INTO quizzes (id, user_id, lecture_id, difficulty, questions, created_at) VALUES ('purge-quiz', 'purge-viewer', 'purge-lecture', 'easy', '[]', ?)").bind(longAgo),
+			db().prepare("INSERT INTO quiz_attempts (id, quiz_id, user_id, answers, results, score, max_score, created_at) VALUES ('purge-attempt', 'purge-quiz', 'purge-viewer', '{}', '[]', 0, 0, ?)").bind(longAgo),
+		]);
+	});
+
+	it('removes the study data every member generated from a purged shared lecture', async () => {
+		const ctx = createExecutionContext();
+		await worker.scheduled(createScheduledController(), env, ctx);
+		await waitOnExecutionContext(ctx);
+
+		const count = async (table: string) => (await db().prepare(`SELECT COUNT(*) AS n FROM ${table} WHERE lecture_id = ?`).bind('purge-lecture').first<{ n: number }>())!.n;
+		expect(await count('user_lectures')).toBe(0);
+		expect(await count('flashcards')).toBe(0);
+		expect(await count('quizzes')).toBe(0);
+		expect(await count('lecture_permissions')).toBe(0);
+		expect((await db().prepare("SELECT COUNT(*) AS n FROM quiz_attempts WHERE quiz_id = 'purge-quiz'").first<{ n: number }>())!.n).toBe(0);
+	});
+});
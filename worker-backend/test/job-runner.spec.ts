@@ -0,0 +1,71 @@
+import { env, runInDurableObject } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { JobRunner } from '../src/JobRunner';
+import { FakeAiProvider } from './fake-ai';
+
+function jobStub(name: string, ai: FakeAiProvider) {
+	const stub = env.JOB_RUNNER.get(env.JOB_RUNNER.idFromName(name));
+	// Swap in the fake AI binding before any alarm runs
+	return runInDurableObject(stub, (instance: JobRunner) => {
+		instance.env = { ...instance.env, AI: ai };
+	}).then(() => stub);
+}
+
+// Read the whole response: one left unread keeps the object's storage open after the test ends,
+// which isolated storage cannot undo
+async function statusOf(response: Promise<Response>): Promise<number> {
+	const { status, body } = await response;
+	await body?.cancel();
+	return status;
+}
+
+async function waitForStatus(stub: DurableObjectStub, status: string) {
+	for (let i = 0; i < 100; i++) {
+		const job = (await (await stub.fetch('https://job/status')).json()) as any;
+		if (job.status === status) return job;
+		await new Promise((resolve) => setTimeout(resolve, 20));
+	}
+	throw new Error(`Job did not reach status ${status}`);
+}
+
+const startBody = (id: string, text: string) =>
+	JSON.stringify({ id, type: 'summarize', lectureId: `lecture-${id}`, userId: 'user-1', model: 'model', promptVersion: 1, cacheKey: 'key', text });
+
+describe('JobRunner', () => {
+	it('processes every chunk and then combines them', async () => {
+		const ai = new FakeAiProvider({ replies: ['part 1', 'part 2', 'combined result'] });
+		const stub = await jobStub('job-multi', ai);
+		const text = Array(3000).fill('lecture').join(' '); // ~24k chars -> 2 chunks
+
+		expect(await statusOf(stub.fetch('https://job/start', { method: 'POST', body: startBody('job-multi', text) }))).toBe(202);
+
+		const job = await waitForStatus(stub, 'completed');
+		expect(job).toMatchObject({ totalChunks: 2, completedChunks: 2, progress: 100, result: 'combined result' });
+		expect(job.partialResults).toEqual(['part 1', 'part 2']);
+		expect(ai.prompts).toHaveLength(3);
+	});
+
+	it('resumes a failed job from the chunk that failed', async () => {
+		const ai = new FakeAiProvider({ replies: ['part 1', 'combined result'] });
+		const stub = await jobStub('job-resume', ai);
+
+		await runInDurableObject(stub, async (_instance: JobRunner, state) => {
+			await state.storage.put({
+				job: {
+					id: 'job-resume', type: 'summarize', lectureId: 'lecture-resume', userId: 'user-1', model: 'model', promptVersion: 1,
+					cacheKey: 'key', status: 'failed', totalChunks: 2, completedChunks: 1, attempts: 3, error: 'AI unavailable',
+					createdAt: '2026-01-01T00:00:00Z', updatedAt: '2026-01-01T00:00:00Z',
+				},
+				'chunk:000000': 'first',
+				'chunk:000001': 'second',
+				'partial:000000': 'earlier part',
+			});
+		});
+
+		expect(await statusOf(stub.fetch('https://job/resume', { method: 'POST' }))).toBe(202);
+
+		const job = await waitForStatus(stub, 'completed');
+		expect(job.partialResults).toEqual(['earlier part', 'part 1']);
+		expect(ai.prompts[0].system).toContain('part 2 of 2');
+	});
+});
@@ -0,0 +1,231 @@
+import { env, runInDurableObject } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { LectureMemory, MEMBER_HEADER } from '../src/LectureMemory';
+import { DEFAULT_LECTURE_SETTINGS } from '../src/tutor';
+import { FakeAiProvider } from './fake-ai';
+
+// Read the whole response: one left unread keeps the object's storage open after the test ends,
+// which isolated storage cannot undo
+async function statusOf(response: Promise<Response>): Promise<number> {
+	const { status, body } = await response;
+	await body?.cancel();
+	return status;
+}
+
+function seedHistory(name: string, count: number) {
+	const stub = env.LECTURE_MEMORY.get(env.LECTURE_MEMORY.idFromName(name));
+	const messages = Array.from({ length: count }, (_, i) => ({
+		id: `m${i}`,
+		role: i % 2 === 0 ? 'user' : 'assistant',
+		content: `message ${i}`,
+		timestamp: i,
+	}));
+	return runInDurableObject(stub, async (_instance: LectureMemory, state) => {
+		await state.storage.put('chat_history', { messages });
+	}).then(() => stub);
+}
+
+describe('LectureMemory chat history', () => {
+	it('pages backwards through the history', async () => {
+		const stub = await seedHistory('history-paging', 5);
+
+		const first = (await (await stub.fetch('https://do/history?limit=2')).json()) as any;
+		expect(first.messages.map((m: any) => m.id)).toEqual(['m3', 'm4']);
+		expect(first).toMatchObject({ hasMore: true, nextBefore: 'm3', total: 5 });
+
+		const second = (await (await stub.fetch(`https://do/history?limit=2&before=${first.nextBefore}`)).json()) as any;
+		expect(second.messages.map((m: any) => m.id)).toEqual(['m1', 'm2']);
+	});
+
+	it('deletes a question together with its answer', async () => {
+		const stub = await seedHistory('history-delete', 4);
+
+		const response = await stub.fetch('https://do/history/m2', { method: 'DELETE' });
+		expect(((await response.json()) as any).deletedIds).toEqual(['m2', 'm3']);
+
+		const remaining = (await (await stub.fetch('https://do/history')).json()) as any;
+		expect(remaining.messages.map((m: any) => m.id)).toEqual(['m0', 'm1']);
+	});
+
+	it('clears the history', async () => {
+		const stub = await seedHistory('history-clear', 3);
+		await (await stub.fetch('https://do/history', { method: 'DELETE' })).text();
+
+		const remaining = (await (await stub.fetch('https://do/history')).json()) as any;
+		expect(remaining.messages).toEqual([]);
+	});
+
+	it('backfills IDs for messages stored before they had one', async () => {
+		const stub = env.LECTURE_MEMORY.get(env.LECTURE_MEMORY.idFromName('history-legacy'));
+		await runInDurableObject(stub, async (_instance: LectureMemory, state) => {
+			await state.storage.put('chat_history', { messages: [{ role: 'user', content: 'old', timestamp: 1 }] });
+		});
+
+		const page = (await (await stub.fetch('https://do/history')).json()) as any;
+		expect(page.messages[0].id).toEqual(expect.any(String));
+	});
+});
+
+describe('LectureMemory chat threads', () => {
+	it('exposes the existing history as the default thread', async () => {
+		const stub = await seedHistory('threads-default', 2);
+
+		const list = (await (await stub.fetch('https://do/threads')).json()) as any;
+		expect(list.threads.map((t: any) => t.id)).toEqual(['default']);
+
+		const page = (await (await stub.fetch('https://do/threads/default/history')).json()) as any;
+		expect(page.messages.map((m: any) => m.id)).toEqual(['m0', 'm1']);
+	});
+
+	it('creates, renames and deletes threads with separate histories', async () => {
+		const stub = await seedHistory('threads-crud', 2);
+
+		const created = await stub.fetch('https://do/threads', {
+			method: 'POST',
+			body: JSON.stringify({ title: 'Exam prep', instructions: 'Quiz me' }),
+		});
+		expect(created.status).toBe(201);
+		const { thread } = (await created.json()) as any;
+		expect(thread).toMatchObject({ title: 'Exam prep', instructions: 'Quiz me' });
+
+		const history = (await (await stub.fetch(`https://do/threads/${thread.id}/history`)).json()) as any;
+		expect(history.messages).toEqual([]);
+
+		const renamed = await stub.fetch(`https://do/threads/${thread.id}`, { method: 'PATCH', body: JSON.stringify({ title: 'Chapter 3' }) });
+		expect(((await renamed.json()) as any).thread.title).toBe('Chapter 3');
+
+		expect(await statusOf(stub.fetch(`https://do/threads/${thread.id}`, { method: 'DELETE' }))).toBe(200);
+		expect(await statusOf(stub.fetch(`https://do/threads/${thread.id}/history`))).toBe(404);
+		expect(await statusOf(stub.fetch('https://do/threads/default', { method: 'DELETE' }))).toBe(400);
+	});
+
+	it('keeps group members\' chats apart from the owner\'s and each other\'s', async () => {
+		const stub = await seedHistory('threads-members', 2);
+		const member = (memberId: string) => ({ headers: { [MEMBER_HEADER]: memberId } });
+
+		const memberHistory = (await (await stub.fetch('https://do/history', member('student-1'))).json()) as any;
+		expect(memberHistory.messages).toEqual([]);
+
+		const created = await stub.fetch('https://do/threads', { method: 'POST', body: JSON.stringify({ title: 'My notes' }), ...member('student-1') });
+		const { thread } = (await created.json()) as any;
+
+		const own = (await (await stub.fetch('https://do/threads', member('student-1'))).json()) as any;
+		expect(own.threads.map((t: any) => t.id).sort()).toEqual(['default', thread.id].sort());
+		const other = (await (await stub.fetch('https://do/threads', member('student-2'))).json()) as any;
+		expect(other.threads.map((t: any) => t.id)).toEqual(['default']);
+		const owner = (await (await stub.fetch('https://do/threads')).json()) as any;
+		expect(owner.threads.map((t: any) => t.id)).toEqual(['default']);
+		expect(await statusOf(stub.fetch(`https://do/threads/${thread.id}/history`))).toBe(404);
+	});
+});
+
+describe('LectureMemory artifact cache', () => {
+	const artifact = (cacheKey: string, createdAt: string) => ({
+		kind: 'summary',
+		cacheKey,
+		content: `summary ${cacheKey}`,
+		model: 'model',
+		promptVersion: 1,
+		createdAt,
+	});
+
+	it('returns artifacts by key or the latest one', async () => {
+		const stub = env.LECTURE_MEMORY.get(env.LECTURE_MEMORY.idFromName('artifacts-lookup'));
+		expect(await statusOf(stub.fetch('https://do/artifacts/summary'))).toBe(404);
+
+		await (await stub.fetch('https://do/artifacts/summary', { method: 'PUT', body: JSON.stringify(artifact('a', '2026-01-01T00:00:00Z')) })).text();
+		await (await stub.fetch('https://do/artifacts/summary', { method: 'PUT', body: JSON.stringify(artifact('b', '2026-01-02T00:00:00Z')) })).text();
+
+		const latest = (await (await stub.fetch('https://do/artifacts/summary')).json()) as any;
+		expect(latest.artifact.cacheKey).toBe('b');
+		const byKey = (await (await stub.fetch('https://do/artifacts/summary?key=a')).json()) as any;
+		expect(byKey.artifact.content).toBe('summary a');
+		expect(await statusOf(stub.fetch('https://do/artifacts/summary?key=missing'))).toBe(404);
+	});
+
+	it('prunes the oldest versions', async () => {
+		const stub = env.LECTURE_MEMORY.get(env.LECTURE_MEMORY.idFromName('artifacts-prune'));
+		for (let day = 1; day <= 7; day++) {
+			await (await stub.fetch('https://do/artifacts/summary', { method: 'PUT', body: JSON.stringify(artifact(`v${day}`, `2026-01-0${day}T00:00:00Z`)) })).text();
+		}
+		expect(await statusOf(stub.fetch('https://do/artifacts/summary?key=v2'))).toBe(404);
+		expect(await statusOf(stub.fetch('https://do/artifacts/summary?key=v3'))).toBe(200);
+	});
+});
+
+describe('LectureMemory model selection', () => {
+	it('answers with the selected model and rejects models off the allow-list', async () => {
+		const stub = env.LECTURE_MEMORY.get(env.LECTURE_MEMORY.idFromName('chat-model-selection'));
+		const ai = new FakeAiProvider({ replies: ['Entropy measures disorder.'] });
+		await runInDurableObject(stub, async (instance: LectureMemory) => {
+			instance.env = { ...instance.env, AI: ai };
+		});
+
+		const model = '@cf/meta/llama-3.1-8b-instruct-fast';
+		const response = await stub.fetch('https://do/chat', { method: 'POST', body: JSON.stringify({ message: 'What is entropy?', model }) });
+		expect(((await response.json()) as any).response).toBe('Entropy measures disorder.');
+		expect(ai.calls.map((call) => call.model)).toEqual([model]);
+
+		expect(await statusOf(stub.fetch('https://do/chat', { method: 'POST', body: JSON.stringify({ message: 'Hi', model: 'gpt-4o-mini' }) }))).toBe(400);
+	});
+});
+
+describe('LectureMemory tutor settings', () => {
+	it('returns the defaults until the instructor saves settings', async () => {
+		const stub = env.LECTURE_MEMORY.get(env.LECTURE_MEMORY.idFromName('settings-roundtrip'));
+		expect(await (await stub.fetch('https://do/settings')).json()).toEqual(DEFAULT_LECTURE_SETTINGS);
+
+		const settings = { ...DEFAULT_LECTURE_SETTINGS, mode: 'socratic', withholdSolutions: true };
+		await (await stub.fetch('https://do/settings', { method: 'PUT', body: JSON.stringify(settings) })).text();
+		expect(await (await stub.fetch('https://do/settings')).json()).toEqual(settings);
+	});
+
+	it('rejects invalid settings with the Worker\'s validation', async () => {
+		const stub = env.LECTURE_MEMORY.get(env.LECTURE_MEMORY.idFromName('settings-invalid'));
+		expect(await statusOf(stub.fetch('https://do/settings', { method: 'PUT', body: JSON.stringify({ mode: 'oracle' }) }))).toBe(400);
+		expect(await statusOf(stub.fetch('https://do/settings', { method: 'PUT', body: 'not json' }))).toBe(400);
+		expect(await (await stub.fetch('https://do/settings')).json()).toEqual(DEFAULT_LECTURE_SETTINGS);
+	});
+});
+
+describe('LectureMemory destroy', () => {
+	it('deletes all stored data for the lecture', async () => {
+		const stub = await seedHistory('destroy-all', 2);
+		await runInDurableObject(stub, async (_instance: LectureMemory, state) => {
+			await state.storage.put('raw_lecture_text', 'Lecture text');
+		});
+
+		expect(await statusOf(stub.fetch('https://do/destroy', { method: 'POST' }))).toBe(200);
+
+		await runInDurableObject(stub, async (_instance: LectureMemory, state) => {
+			expect((await state.storage.list()).size).toBe(0);
+		});
+		expect(await statusOf(stub.fetch('https://do/raw-lecture-text'))).toBe(404);
+	});
+
+	it('destroys the jobs and cross-lecture chats derived from the lecture', async () => {
+		const stub = env.LECTURE_MEMORY.get(env.LECTURE_MEMORY.idFromName('destroy-links'));
+		const job = env.JOB_RUNNER.get(env.JOB_RUNNER.idFromName('destroy-links-job'));
+		const ownChat = env.MULTI_LECTURE_CHAT.get(env.MULTI_LECTURE_CHAT.idFromName('student-1:course:physics'));
+		const otherChat = env.MULTI_LECTURE_CHAT.get(env.MULTI_LECTURE_CHAT.idFromName('student-2:course:physics'));
+		for (const object of [job, ownChat, otherChat]) {
+			await runInDurableObject(object, async (_instance, state) => {
+				await state.storage.put('copy', 'Lecture text');
+			});
+		}
+		const link = (type: string, name: string, userId: string) => ({ method: 'POST', body: JSON.stringify({ type, name, userId }) });
+		await (await stub.fetch('https://do/links', link('job', 'destroy-links-job', 'student-1'))).text();
+		await (await stub.fetch('https://do/links', link('chat', 'student-1:course:physics', 'student-1'))).text();
+		await (await stub.fetch('https://do/links', link('chat', 'student-2:course:physics', 'student-2'))).text();
+
+		// A user removing the lecture from their library only drops their own
+		await (await stub.fetch('https://do/links/destroy', { method: 'POST', body: JSON.stringify({ userId: 'student-1' }) })).text();
+		const stored = async (object: DurableObjectStub) => runInDurableObject(object, async (_instance, state) => (await state.storage.list()).size);
+		expect(await stored(job)).toBe(0);
+		expect(await stored(ownChat)).toBe(0);
+		expect(await stored(otherChat)).toBe(1);
+
+		expect(await statusOf(stub.fetch('https://do/destroy', { method: 'POST' }))).toBe(200);
+		expect(await stored(otherChat)).toBe(0);
+	});
+});
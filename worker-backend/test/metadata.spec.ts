@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { MAX_TAGS, parseCourseName, parseLectureMetadataUpdate, parseLectureSort } from '../src/metadata';
+
+describe('parseLectureMetadataUpdate', () => {
+	it('trims fields, clears empty optional fields and dedupes tags case-insensitively', () => {
+		const result = parseLectureMetadataUpdate({
+			name: '  Week 3: Entropy ',
+			courseId: '',
+			term: ' Fall 2024 ',
+			description: null,
+			tags: ['Exam', 'exam ', ' thermo', ''],
+		});
+		expect(result).toEqual({
+			update: { name: 'Week 3: Entropy', courseId: null, term: 'Fall 2024', description: null, tags: ['Exam', 'thermo'] },
+		});
+	});
+
+	it('leaves omitted fields out of the update', () => {
+		expect(parseLectureMetadataUpdate({ tags: [] })).toEqual({ update: { tags: [] } });
+	});
+
+	it('rejects invalid bodies', () => {
+		expect(parseLectureMetadataUpdate(null).error).toBeDefined();
+		expect(parseLectureMetadataUpdate({}).error).toMatch(/No fields to update/);
+		expect(parseLectureMetadataUpdate({ name: '   ' }).error).toMatch(/name/);
+		expect(parseLectureMetadataUpdate({ courseId: 42 }).error).toMatch(/courseId/);
+		expect(parseLectureMetadataUpdate({ tags: 'exam' }).error).toMatch(/tags/);
+		expect(parseLectureMetadataUpdate({ tags: Array.from({ length: MAX_TAGS + 1 }, (_, i) => `t${i}`) }).error).toMatch(/at most/);
+	});
+});
+
+describe('parseLectureSort', () => {
+	it('defaults to newest first and validates the sort key and order', () => {
+		expect(parseLectureSort(new URLSearchParams())).toEqual({ orderBy: 'l.created_at DESC, l.created_at DESC' });
+		expect(parseLectureSort(new URLSearchParams('sort=name'))).toEqual({ orderBy: 'l.lecture_name COLLATE NOCASE ASC, l.created_at DESC' });
+		expect(parseLectureSort(new URLSearchParams('sort=name;DROP')).error).toBeDefined();
+		expect(parseLectureSort(new URLSearchParams('sort=name&order=sideways')).error).toBeDefined();
+	});
+});
+
+describe('parseCourseName', () => {
+	it('trims names and rejects empty ones', () => {
+		expect(parseCourseName('  CS 101 ')).toEqual({ name: 'CS 101' });
+		expect(parseCourseName('').error).toBeDefined();
+		expect(parseCourseName(7).error).toBeDefined();
+	});
+});
@@ -0,0 +1,131 @@
+import { env, runInDurableObject, SELF } from 'cloudflare:test';
+import { beforeEach, describe, it, expect } from 'vitest';
+import { LectureMemory } from '../src/LectureMemory';
+import { grantStatement, ownerPermissionStatement } from '../src/permissions';
+import { MultiLectureChat } from '../src/MultiLectureChat';
+import { EMBEDDING_MODEL } from '../src/retrieval';
+import { AI_MODELS, DEFAULT_AI_MODEL } from '../src/ai';
+import { FakeAiProvider } from './fake-ai';
+
+// Embeddings are unavailable, so retrieval is lexical
+const noEmbeddings = { failingModels: [EMBEDDING_MODEL] };
+
+async function seedLecture(lectureId: string, text: string) {
+	const stub = env.LECTURE_MEMORY.get(env.LECTURE_MEMORY.idFromName(lectureId));
+	await runInDurableObject(stub, async (instance: LectureMemory, state) => {
+		instance.env = { ...instance.env, AI: new FakeAiProvider(noEmbeddings) };
+		await state.storage.put('raw_lecture_text', text);
+	});
+}
+
+function chatStub(name: string, ai: FakeAiProvider) {
+	const stub = env.MULTI_LECTURE_CHAT.get(env.MULTI_LECTURE_CHAT.idFromName(name));
+	return runInDurableObject(stub, (instance: MultiLectureChat) => {
+		instance.env = { ...instance.env, AI: ai };
+	}).then(() => stub);
+}
+
+const lectures = [
+	{ lectureId: 'multi-thermo', lectureName: 'Thermodynamics' },
+	{ lectureId: 'multi-biology', lectureName: 'Cell Biology' },
+];
+
+describe('MultiLectureChat', () => {
+	it('answers from passages across lectures and cites their lecture', async () => {
+		await seedLecture('multi-thermo', 'Entropy measures the disorder of a system and never decreases in isolation.');
+		await seedLecture('multi-biology', 'The cell membrane controls what enters and leaves the cell.');
+		const ai = new FakeAiProvider({ ...noEmbeddings, replies: ['Entropy is disorder [Passage 1].'] });
+		const stub = await chatStub('user-1:lectures:multi-biology,multi-thermo', ai);
+
+		const response = await stub.fetch('https://do/chat', { method: 'POST', body: JSON.stringify({ message: 'What is entropy?', lectures }) });
+		const body = (await response.json()) as any;
+
+		expect(response.status).toBe(200);
+		expect(body.citations).toHaveLength(1);
+		expect(body.citations[0]).toMatchObject({ lectureId: 'multi-thermo', lectureName: 'Thermodynamics', startOffset: 0 });
+		expect(ai.prompts[0].system).toContain('- Cell Biology');
+		expect(ai.prompts[0].system).toContain('[Passage 1] (from "Thermodynamics")');
+		// The biology lecture does not mention entropy, so none of its passages are sent
+		expect(ai.prompts[0].system).not.toContain('membrane');
+	});
+
+	it('keeps its own history', async () => {
+		await seedLecture('multi-history-thermo', 'Entropy measures the disorder of a system.');
+		const stub = await chatStub('user-1:course:multi-history', new FakeAiProvider({ ...noEmbeddings, replies: ['An answer.'] }));
+		const scope = [{ lectureId: 'multi-history-thermo', lectureName: 'Thermodynamics' }];
+		await (await stub.fetch('https://do/chat', { method: 'POST', body: JSON.stringify({ message: 'Entropy?', lectures: scope }) })).text();
+
+		const history = (await (await stub.fetch('https://do/history')).json()) as any;
+		expect(history.messages.map((m: any) => m.role)).toEqual(['user', 'assistant']);
+		expect(history.messages[1].citations[0].lectureName).toBe('Thermodynamics');
+
+		await (await stub.fetch('https://do/history', { method: 'DELETE' })).text();
+		expect(((await (await stub.fetch('https://do/history')).json()) as any).total).toBe(0);
+	});
+
+	it('answers with the selected model and refuses models that are not allowed', async () => {
+		await seedLecture('multi-model-thermo', 'Entropy measures the disorder of a system.');
+		const ai = new FakeAiProvider({ ...noEmbeddings, replies: ['An answer.'] });
+		const stub = await chatStub('user-1:course:multi-model', ai);
+		const scope = [{ lectureId: 'multi-model-thermo', lectureName: 'Thermodynamics' }];
+		const smallModel = AI_MODELS[DEFAULT_AI_MODEL].fallback!;
+
+		const response = await stub.fetch('https://do/chat', { method: 'POST', body: JSON.stringify({ message: 'Entropy?', model: smallModel, lectures: scope }) });
+		await response.text();
+		expect(response.status).toBe(200);
+		expect(ai.prompts.map((prompt) => prompt.model)).toEqual([smallModel]);
+
+		const refused = await stub.fetch('https://do/chat', { method: 'POST', body: JSON.stringify({ message: 'Entropy?', model: '@cf/some/unlisted-model', lectures: scope }) });
+		expect(refused.status).toBe(400);
+		expect(((await refused.json()) as any).error).toContain('model must be one of');
+		expect(((await (await stub.fetch('https://do/history')).json()) as any).total).toBe(2);
+	});
+});
+
+describe('MultiLectureChat tutor settings', () => {
+	it('follows the strictest settings of the lectures in scope', async () => {
+		await seedLecture('multi-settings-thermo', 'Entropy measures the disorder of a system.');
+		await seedLecture('multi-settings-optics', 'A lens focuses light.');
+		const thermo = env.LECTURE_MEMORY.get(env.LECTURE_MEMORY.idFromName('multi-settings-thermo'));
+		await (await thermo.fetch('https://do/settings', { method: 'PUT', body: JSON.stringify({ mode: 'socratic', withholdSolutions: true }) })).text();
+		const ai = new FakeAiProvider({ ...noEmbeddings, replies: ['What do you think happens to entropy?'] });
+		const stub = await chatStub('user-1:course:multi-settings', ai);
+
+		const scope = [
+			{ lectureId: 'multi-settings-thermo', lectureName: 'Thermodynamics' },
+			{ lectureId: 'multi-settings-optics', lectureName: 'Optics' },
+		];
+		await (await stub.fetch('https://do/chat', { method: 'POST', body: JSON.stringify({ message: 'What is entropy?', lectures: scope }) })).text();
+		expect(ai.prompts[0].system).toContain('rules for these lectures');
+		expect(ai.prompts[0].system).toContain('Socratically');
+		expect(ai.prompts[0].system).toContain('Never reveal full solutions');
+	});
+});
+
+describe('POST /api/chat/multi', () => {
+	const db = () => env.lecturelens_db;
+	const createdAt = '2026-03-01T12:00:00.000Z';
+
+	beforeEach(async () => {
+		await db().exec('CREATE TABLE IF NOT EXISTS sessions (token TEXT PRIMARY KEY, user_id TEXT, expires_at TEXT)');
+		await db().exec('CREATE TABLE IF NOT EXISTS user_lectures (user_id TEXT, lecture_id TEXT, lecture_name TEXT, deleted_at TEXT)');
+		await db().exec("CREATE TABLE IF NOT EXISTS lecture_permissions (lecture_id TEXT NOT NULL, user_id TEXT NOT NULL, role TEXT NOT NULL CHECK (role IN ('owner', 'collaborator', 'viewer')), granted_by TEXT, share_token TEXT, created_at TEXT NOT NULL, PRIMARY KEY (lecture_id, user_id))");
+		await db().exec('CREATE TABLE IF NOT EXISTS group_members (group_id TEXT NOT NULL, user_id TEXT NOT NULL, role TEXT NOT NULL, joined_at TEXT NOT NULL, PRIMARY KEY (group_id, user_id))');
+		await db().exec('CREATE TABLE IF NOT EXISTS group_lectures (group_id TEXT NOT NULL, lecture_id TEXT NOT NULL, added_by TEXT NOT NULL, added_at TEXT NOT NULL, PRIMARY KEY (group_id, lecture_id))');
+		await db().batch([
+			db().prepare("INSERT OR REPLACE INTO sessions (token, user_id, expires_at) VALUES ('scope-viewer-token', 'scope-viewer', '2999-01-01T00:00:00.000Z')"),
+			db().prepare("INSERT INTO user_lectures (user_id, lecture_id, lecture_name, deleted_at) VALUES ('scope-owner', 'scope-lecture', 'Optics', NULL)"),
+			ownerPermissionStatement(db(), 'scope-owner', 'scope-lecture', createdAt),
+			grantStatement(db(), 'scope-lecture', 'scope-viewer', 'viewer', 'scope-owner'),
+		]);
+	});
+
+	it('refuses lectures the user may only view', async () => {
+		const response = await SELF.fetch('https://example.com/api/chat/multi', {
+			method: 'POST',
+			headers: { Authorization: 'Bearer scope-viewer-token', 'Content-Type': 'application/json' },
+			body: JSON.stringify({ message: 'Summarize these', lectureIds: ['scope-lecture'] }),
+		});
+		expect(response.status).toBe(403);
+	});
+});
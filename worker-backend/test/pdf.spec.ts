@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { PdfExtractionError, extractPdfText, isPdf } from '../src/pdf';
+
+// Build a minimal PDF with one Helvetica text line per page (and optional extra trailer entries)
+function buildPdf(pageTexts: string[], trailerExtra = '', extraObjects: string[] = []): Uint8Array {
+	const objects: string[] = [];
+	const pageIds: number[] = [];
+	const fontId = 3;
+	let nextId = 4;
+	objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+	objects[fontId] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>';
+	for (const text of pageTexts) {
+		const content = text ? `BT /F1 12 Tf 72 720 Td (${text}) Tj ET` : '';
+		const contentId = nextId++;
+		const pageId = nextId++;
+		objects[contentId] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+		objects[pageId] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Resources << /Font << /F1 ${fontId} 0 R >> >> /Contents ${contentId} 0 R >>`;
+		pageIds.push(pageId);
+	}
+	objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+	for (const extra of extraObjects) objects[nextId++] = extra;
+
+	let pdf = '%PDF-1.4\n';
+	const offsets: number[] = [];
+	for (let id = 1; id < objects.length; id++) {
+		offsets[id] = pdf.length;
+		pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+	}
+	const xrefOffset = pdf.length;
+	pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+	for (let id = 1; id < objects.length; id++) pdf += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+	pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R ${trailerExtra}>>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+	return new TextEncoder().encode(pdf);
+}
+
+describe('isPdf', () => {
+	it('detects the PDF header regardless of leading bytes', () => {
+		expect(isPdf(buildPdf(['Hello']))).toBe(true);
+		expect(isPdf(new TextEncoder().encode('\n\n%PDF-1.7\n...'))).toBe(true);
+		expect(isPdf(new TextEncoder().encode('Plain lecture notes mentioning %PDF later'.padStart(2000, ' ')))).toBe(false);
+	});
+});
+
+describe('extractPdfText', () => {
+	it('extracts text with page boundaries', async () => {
+		const result = await extractPdfText(buildPdf(['Entropy measures disorder', 'Enthalpy is heat content']));
+		expect(result.totalPages).toBe(2);
+		expect(result.pages).toHaveLength(2);
+		expect(result.text.slice(result.pages[0].start, result.pages[0].end)).toBe('Entropy measures disorder');
+		expect(result.text.slice(result.pages[1].start, result.pages[1].end)).toBe('Enthalpy is heat content');
+	});
+
+	it('rejects PDFs without a text layer', async () => {
+		await expect(extractPdfText(buildPdf(['', '']))).rejects.toMatchObject({ code: 'no_text' });
+	});
+
+	it('rejects password-protected PDFs', async () => {
+		const hash = '<' + 'ab'.repeat(32) + '>';
+		const pdf = buildPdf(['Secret'], `/Encrypt 6 0 R /ID [<0123456789abcdef0123456789abcdef> <0123456789abcdef0123456789abcdef>] `, [
+			`<< /Filter /Standard /V 1 /R 2 /O ${hash} /U ${hash} /P -4 >>`,
+		]);
+		const error = await extractPdfText(pdf).catch((e) => e);
+		expect(error).toBeInstanceOf(PdfExtractionError);
+		expect(error.code).toBe('encrypted');
+	});
+});
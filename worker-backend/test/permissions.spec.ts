@@ -0,0 +1,90 @@
+import { env } from 'cloudflare:test';
+import { beforeEach, describe, it, expect } from 'vitest';
+import { deleteLecturePermissionsStatements, getLectureAccess, grantStatement, isProxiedLectureRoute, lectureRouteAction, ownerPermissionStatement, roleAllows } from '../src/permissions';
+
+describe('lectureRouteAction', () => {
+	it('limits other members to the lecture text and the shared thread', () => {
+		expect(lectureRouteAction('GET', '/raw-lecture-text')).toBe('read');
+		expect(lectureRouteAction('GET', '/threads/shared/history')).toBe('read');
+		expect(lectureRouteAction('POST', '/threads/shared')).toBe('chat');
+		expect(lectureRouteAction('DELETE', '/threads/shared/history')).toBe('manage');
+		expect(lectureRouteAction('POST', '/chat')).toBe('manage');
+		expect(lectureRouteAction('GET', '/threads')).toBe('manage');
+		expect(lectureRouteAction('POST', '/chat', 'member')).toBe('chat');
+		expect(lectureRouteAction('DELETE', '/threads/abc', 'member')).toBe('chat');
+		expect(lectureRouteAction('PUT', '/artifacts/summary', 'member')).toBe('manage');
+
+		expect(roleAllows('collaborator', 'chat')).toBe(true);
+		expect(roleAllows('viewer', 'chat')).toBe(false);
+		expect(roleAllows(null, 'read')).toBe(false);
+	});
+
+	it('only proxies the chat and lecture text routes', () => {
+		expect(isProxiedLectureRoute('/chat')).toBe(true);
+		expect(isProxiedLectureRoute('/threads/shared/history')).toBe(true);
+		expect(isProxiedLectureRoute('/passage')).toBe(true);
+		expect(isProxiedLectureRoute('/destroy')).toBe(false);
+		expect(isProxiedLectureRoute('/settings')).toBe(false);
+		expect(isProxiedLectureRoute('/artifacts/summary')).toBe(false);
+		expect(isProxiedLectureRoute('/links/destroy')).toBe(false);
+	});
+});
+
+describe('getLectureAccess', () => {
+	const db = () => env.lecturelens_db;
+	const createdAt = '2026-03-01T12:00:00.000Z';
+
+	beforeEach(async () => {
+		await db().exec('CREATE TABLE IF NOT EXISTS user_lectures (user_id TEXT, lecture_id TEXT, lecture_name TEXT, deleted_at TEXT)');
+		await db().exec("CREATE TABLE IF NOT EXISTS lecture_permissions (lecture_id TEXT NOT NULL, user_id TEXT NOT NULL, role TEXT NOT NULL CHECK (role IN ('owner', 'collaborator', 'viewer')), granted_by TEXT, share_token TEXT, created_at TEXT NOT NULL, PRIMARY KEY (lecture_id, user_id))");
+		await db().exec('CREATE TABLE IF NOT EXISTS group_members (group_id TEXT NOT NULL, user_id TEXT NOT NULL, role TEXT NOT NULL, joined_at TEXT NOT NULL, PRIMARY KEY (group_id, user_id))');
+		await db().exec('CREATE TABLE IF NOT EXISTS group_lectures (group_id TEXT NOT NULL, lecture_id TEXT NOT NULL, added_by TEXT NOT NULL, added_at TEXT NOT NULL, PRIMARY KEY (group_id, lecture_id))');
+		await db().exec('CREATE TABLE IF NOT EXISTS lecture_share_links (token TEXT PRIMARY KEY, lecture_id TEXT NOT NULL, created_by TEXT NOT NULL, role TEXT NOT NULL, expires_at TEXT NOT NULL, revoked_at TEXT, created_at TEXT NOT NULL)');
+		await db().batch([
+			db().prepare('INSERT INTO user_lectures (user_id, lecture_id, lecture_name, deleted_at) VALUES (?, ?, ?, ?)').bind('perm-owner', 'perm-lecture', 'Optics', null),
+			db().prepare('INSERT INTO user_lectures (user_id, lecture_id, lecture_name, deleted_at) VALUES (?, ?, ?, ?)').bind('perm-owner', 'perm-trashed', 'Old optics', '2026-03-02'),
+			ownerPermissionStatement(db(), 'perm-owner', 'perm-lecture', createdAt),
+			ownerPermissionStatement(db(), 'perm-owner', 'perm-trashed', createdAt),
+			grantStatement(db(), 'perm-lecture', 'perm-viewer', 'viewer', 'perm-owner'),
+			grantStatement(db(), 'perm-lecture', 'perm-collaborator', 'collaborator', 'perm-owner'),
+			grantStatement(db(), 'perm-trashed', 'perm-viewer', 'viewer', 'perm-owner'),
+			db().prepare("INSERT INTO group_members (group_id, user_id, role, joined_at) VALUES ('perm-group', 'perm-student', 'student', ?), ('perm-group', 'perm-viewer', 'student', ?)").bind(createdAt, createdAt),
+			db().prepare("INSERT INTO group_lectures (group_id, lecture_id, added_by, added_at) VALUES ('perm-group', 'perm-lecture', 'perm-owner', ?), ('perm-group', 'perm-trashed', 'perm-owner', ?)").bind(createdAt, createdAt),
+		]);
+	});
+
+	it('returns each member role and the lecture owner', async () => {
+		expect(await getLectureAccess(db(), 'perm-owner', 'perm-lecture')).toEqual({ role: 'owner', ownerId: 'perm-owner' });
+		expect(await getLectureAccess(db(), 'perm-viewer', 'perm-lecture')).toEqual({ role: 'viewer', ownerId: 'perm-owner' });
+		expect(await getLectureAccess(db(), 'perm-stranger', 'perm-lecture')).toBeNull();
+	});
+
+	it('gives group members access to the lectures in the group library', async () => {
+		expect(await getLectureAccess(db(), 'perm-student', 'perm-lecture')).toEqual({ role: 'member', ownerId: 'perm-owner' });
+		// A role on the lecture itself comes first
+		expect((await getLectureAccess(db(), 'perm-owner', 'perm-lecture'))?.role).toBe('owner');
+	});
+
+	it('hides lectures their owner moved to the trash from every member', async () => {
+		expect(await getLectureAccess(db(), 'perm-owner', 'perm-trashed')).toBeNull();
+		expect(await getLectureAccess(db(), 'perm-viewer', 'perm-trashed')).toBeNull();
+		expect(await getLectureAccess(db(), 'perm-student', 'perm-trashed')).toBeNull();
+	});
+
+	it('never downgrades a member or the owner through a share link', async () => {
+		await db().batch([
+			grantStatement(db(), 'perm-lecture', 'perm-collaborator', 'viewer', 'perm-owner', 'perm-link'),
+			grantStatement(db(), 'perm-lecture', 'perm-owner', 'viewer', 'perm-owner', 'perm-link'),
+			grantStatement(db(), 'perm-lecture', 'perm-viewer', 'collaborator', 'perm-owner', 'perm-link'),
+		]);
+		expect((await getLectureAccess(db(), 'perm-collaborator', 'perm-lecture'))?.role).toBe('collaborator');
+		expect((await getLectureAccess(db(), 'perm-owner', 'perm-lecture'))?.role).toBe('owner');
+		expect((await getLectureAccess(db(), 'perm-viewer', 'perm-lecture'))?.role).toBe('collaborator');
+	});
+
+	it('removes every grant when the owner purges the lecture', async () => {
+		await db().batch(deleteLecturePermissionsStatements(db(), 'perm-owner', 'perm-trashed'));
+		const {results} = await db().prepare('SELECT user_id FROM lecture_permissions WHERE lecture_id = ?').bind('perm-trashed').all();
+		expect(results).toEqual([]);
+	});
+});
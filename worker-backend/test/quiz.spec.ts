@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { QuizQuestion, generateQuiz, gradeQuiz, toPublicQuestions } from '../src/quiz';
+import { FakeAiProvider } from './fake-ai';
+
+const lecture = 'Entropy is a measure of disorder.\nIn an isolated system,   entropy never decreases. Enthalpy is the heat content of a system.';
+
+describe('generateQuiz', () => {
+	it('keeps valid questions and cites the passage justifying each answer', async () => {
+		const questions = [
+			{ type: 'multiple_choice', question: 'What does entropy measure?', options: ['Heat', 'Disorder'], answer: 1, explanation: 'By definition.', evidence: 'entropy is a measure of  disorder' },
+			{ type: 'true_false', question: 'Entropy of an isolated system can decrease.', answer: 'false', explanation: 'Second law.', evidence: 'not quoted exactly: isolated system entropy decreases' },
+			{ type: 'multiple_choice', question: 'Broken', options: ['Only one'], answer: 0 },
+			{ type: 'essay', question: 'Not requested' },
+		];
+		const ai = new FakeAiProvider({ replies: [`\`\`\`json\n${JSON.stringify(questions)}\n\`\`\``] });
+		const quiz = await generateQuiz(ai, 'model', lecture, 5, 'hard', ['multiple_choice', 'true_false']);
+
+		expect(ai.prompts[0].system).toContain('Write exactly 5 hard questions');
+		expect(quiz.map((q) => [q.id, q.type, q.answer])).toEqual([
+			['q1', 'multiple_choice', 1],
+			['q2', 'true_false', false],
+		]);
+		expect(quiz[0].citation).toEqual({ startOffset: 0, endOffset: 32, excerpt: 'Entropy is a measure of disorder' });
+		// Evidence that is not a verbatim quote falls back to the best matching passage
+		expect(quiz[1].citation?.excerpt).toContain('isolated system');
+	});
+});
+
+describe('toPublicQuestions', () => {
+	it('strips the answer key', () => {
+		const question: QuizQuestion = { id: 'q1', type: 'short_answer', question: 'Define entropy.', answer: 'Disorder', rubric: 'Mentions disorder', explanation: 'x', citation: null };
+		expect(toPublicQuestions([question])).toEqual([{ id: 'q1', type: 'short_answer', question: 'Define entropy.' }]);
+	});
+});
+
+describe('gradeQuiz', () => {
+	const questions: QuizQuestion[] = [
+		{ id: 'q1', type: 'multiple_choice', question: 'Q1', options: ['a', 'b'], answer: 1, explanation: 'e1', citation: { startOffset: 0, endOffset: 5, excerpt: 'Entro' } },
+		{ id: 'q2', type: 'true_false', question: 'Q2', answer: false, explanation: 'e2', citation: null },
+		{ id: 'q3', type: 'short_answer', question: 'Define entropy.', answer: 'A measure of disorder', rubric: 'Mentions disorder', explanation: 'e3', citation: null },
+		{ id: 'q4', type: 'short_answer', question: 'Define enthalpy.', answer: 'Heat content', rubric: 'Mentions heat', explanation: 'e4', citation: null },
+	];
+
+	it('grades choices deterministically and short answers with the rubric', async () => {
+		const ai = new FakeAiProvider({ replies: ['[{"score": 0.5, "feedback": "Partly right: mention disorder."}]'] });
+		const grade = await gradeQuiz(ai, 'model', questions, { q1: '1', q2: true, q3: 'How spread out energy is', q4: '' });
+
+		expect(grade.results.map((r) => [r.questionId, r.correct, r.score])).toEqual([
+			['q1', true, 1],
+			['q2', false, 0],
+			['q3', true, 0.5],
+			['q4', false, 0],
+		]);
+		expect(grade).toMatchObject({ score: 1.5, maxScore: 4 });
+		expect(grade.results[0].citation?.excerpt).toBe('Entro');
+		expect(grade.results[2].feedback).toBe('Partly right: mention disorder.');
+		// Unanswered short answers are not sent to the model
+		expect(ai.prompts).toHaveLength(1);
+		expect(ai.prompts[0].user).toContain('Rubric: Mentions disorder');
+	});
+});
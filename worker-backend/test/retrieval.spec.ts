@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { buildCitations, chunkText, indexLecture, rankChunks, EMBEDDING_MODEL } from '../src/retrieval';
+import { FakeAiProvider } from './fake-ai';
+
+// Each topic is repeated so the lecture spans several retrieval chunks
+const lecture = [
+	'Photosynthesis converts light energy into chemical energy stored in glucose. Chlorophyll absorbs light in the chloroplast.',
+	"Newton's second law states that force equals mass times acceleration. Acceleration is the rate of change of velocity.",
+	'Bayes theorem relates the conditional probability of a hypothesis given evidence to the likelihood of the evidence.',
+]
+	.map((sentence) => Array(12).fill(sentence).join(' '))
+	.join('\n\n');
+
+// Embeds text by keyword presence
+const vocabulary = ['photosynthesis', 'force', 'probability'];
+const embedKeywords = (text: string) => vocabulary.map((word) => (text.toLowerCase().includes(word) ? 1 : 0));
+
+describe('chunkText', () => {
+	it('keeps offsets that point back into the original text', () => {
+		const chunks = chunkText(lecture, 500, 80);
+		expect(chunks.length).toBeGreaterThan(1);
+		for (const chunk of chunks) {
+			expect(lecture.slice(chunk.start, chunk.end)).toBe(chunk.text);
+			expect(chunk.text.length).toBeLessThanOrEqual(500);
+		}
+		expect(chunks[chunks.length - 1].end).toBe(lecture.length);
+	});
+
+	it('returns a single chunk for short text', () => {
+		expect(chunkText('  short lecture  ', 100)).toEqual([{ index: 0, start: 2, end: 15, text: 'short lecture' }]);
+	});
+});
+
+describe('rankChunks', () => {
+	it('ranks the passage matching the question first using BM25', async () => {
+		const chunks = await indexLecture(lecture);
+		const [best] = rankChunks(chunks, 'What does the second law say about force?', 1);
+		expect(best.text).toContain("Newton's second law");
+	});
+
+	it('falls back to the opening passages when nothing matches', async () => {
+		const chunks = await indexLecture(lecture);
+		const passages = rankChunks(chunks, 'summarize', 2);
+		expect(passages.map((p) => p.index)).toEqual([0, 1]);
+	});
+
+	it('blends in embedding similarity when the AI binding is available', async () => {
+		const ai = new FakeAiProvider({ embed: embedKeywords });
+		const chunks = await indexLecture(lecture, ai);
+		expect(ai.calls[0].model).toBe(EMBEDDING_MODEL);
+		expect(chunks.every((chunk) => chunk.embedding)).toBe(true);
+
+		// No lexical overlap with the lecture, so only the embedding can rank the probability passage first
+		const [best] = rankChunks(chunks, 'chance of an outcome', 1, [0, 0, 1]);
+		expect(best.text).toContain('Bayes theorem');
+	});
+
+	it('degrades to lexical retrieval when embedding fails', async () => {
+		const ai = new FakeAiProvider({ failingModels: [EMBEDDING_MODEL] });
+		const chunks = await indexLecture(lecture, ai);
+		expect(chunks.some((chunk) => chunk.embedding)).toBe(false);
+		expect(rankChunks(chunks, 'chlorophyll', 1)[0].text).toContain('Chlorophyll');
+	});
+});
+
+describe('buildCitations', () => {
+	const passages = [
+		{ index: 3, start: 100, end: 150, text: 'first passage', score: 1 },
+		{ index: 7, start: 400, end: 450, text: 'second passage', score: 0.5 },
+	];
+
+	it('returns only the passages the answer cites', () => {
+		expect(buildCitations(passages, 'As shown in [Passage 2], ...')).toEqual([
+			{ chunkIndex: 7, startOffset: 400, endOffset: 450, excerpt: 'second passage' },
+		]);
+	});
+
+	it('returns every passage when the answer cites none', () => {
+		expect(buildCitations(passages, 'No explicit citation.').map((c) => c.chunkIndex)).toEqual([3, 7]);
+	});
+});
@@ -0,0 +1,65 @@
+import { env } from 'cloudflare:test';
+import { beforeEach, describe, it, expect } from 'vitest';
+import { findMatchOffset, indexLectureForSearch, parseSearchQuery, searchLectures } from '../src/search';
+
+describe('parseSearchQuery', () => {
+	it('quotes words and phrases so FTS5 syntax cannot be injected', () => {
+		expect(parseSearchQuery(`"Bayes' theorem" prior OR -`)).toEqual({
+			match: `"Bayes' theorem" "prior" "OR"`,
+			terms: [`Bayes' theorem`, 'prior', 'OR'],
+		});
+		expect(parseSearchQuery('say "hi')?.terms).toEqual(['say', 'hi']);
+		expect(parseSearchQuery(' "" * ')).toBeNull();
+	});
+});
+
+describe('findMatchOffset', () => {
+	it('finds the earliest whole-word match across punctuation', () => {
+		const text = 'Priors matter. Bayes’ theorem updates a prior.';
+		expect(findMatchOffset(text, ["Bayes' theorem", 'prior'])).toBe(text.indexOf('Bayes'));
+		expect(findMatchOffset(text, ['café'])).toBe(0);
+	});
+});
+
+describe('searchLectures', () => {
+	const db = () => env.lecturelens_db;
+
+	beforeEach(async () => {
+		await db().exec("CREATE VIRTUAL TABLE IF NOT EXISTS lecture_search USING fts5(content, lecture_id UNINDEXED, start_offset UNINDEXED, tokenize = 'unicode61 remove_diacritics 2')");
+		await db().exec('CREATE TABLE IF NOT EXISTS user_lectures (user_id TEXT, lecture_id TEXT, lecture_name TEXT, deleted_at TEXT)');
+		await db().batch([
+			db().prepare('INSERT INTO user_lectures VALUES (?, ?, ?, ?)').bind('search-user', 'search-stats', 'Statistics', null),
+			db().prepare('INSERT INTO user_lectures VALUES (?, ?, ?, ?)').bind('search-user', 'search-trashed', 'Old notes', '2026-01-01'),
+			db().prepare('INSERT INTO user_lectures VALUES (?, ?, ?, ?)').bind('search-other', 'search-private', 'Private', null),
+		]);
+
+		const filler = 'Probability distributions describe outcomes. '.repeat(40);
+		await indexLectureForSearch(db(), 'search-stats', `${filler}Bayes' theorem relates a prior to a posterior. ${filler}Using Bayes again, the theorem applies.`);
+		await indexLectureForSearch(db(), 'search-trashed', "Bayes' theorem in the trash.");
+		await indexLectureForSearch(db(), 'search-private', "Bayes' theorem for someone else.");
+	});
+
+	it('returns owned, non-trashed matches with snippets and offsets', async () => {
+		const { results, hasMore } = await searchLectures(db(), 'search-user', parseSearchQuery('"bayes theorem"')!, 10, 0);
+		expect(hasMore).toBe(false);
+		expect(results).toHaveLength(1);
+		expect(results[0]).toMatchObject({ lectureId: 'search-stats', lectureName: 'Statistics' });
+		expect(results[0].snippet).toContain("<mark>Bayes' theorem</mark>");
+		expect(results[0].startOffset).toBeGreaterThan(1000);
+	});
+
+	it('pages through results', async () => {
+		const query = parseSearchQuery('bayes')!;
+		const first = await searchLectures(db(), 'search-user', query, 1, 0);
+		const second = await searchLectures(db(), 'search-user', query, 1, 1);
+		expect(first.hasMore).toBe(true);
+		expect(second.hasMore).toBe(false);
+		expect(second.results[0].startOffset).not.toBe(first.results[0].startOffset);
+	});
+
+	it('replaces a lecture index when it is re-indexed', async () => {
+		await indexLectureForSearch(db(), 'search-stats', 'Only regression is covered now.');
+		const { results } = await searchLectures(db(), 'search-user', parseSearchQuery('bayes')!, 10, 0);
+		expect(results).toEqual([]);
+	});
+});
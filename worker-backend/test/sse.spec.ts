@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { readAiStream, withIdleTimeout } from '../src/sse';
+
+function streamOf(parts: string[]): ReadableStream<Uint8Array> {
+	const encoder = new TextEncoder();
+	return new ReadableStream({
+		start(controller) {
+			for (const part of parts) controller.enqueue(encoder.encode(part));
+			controller.close();
+		},
+	});
+}
+
+describe('readAiStream', () => {
+	it('yields tokens across split reads and stops at [DONE]', async () => {
+		const stream = streamOf(['data: {"response":"Hel', 'lo"}\n\ndata: {"response":" world"}\n\n', 'data: [DONE]\n\ndata: {"response":"ignored"}\n\n']);
+		const tokens: string[] = [];
+		for await (const token of readAiStream(stream)) tokens.push(token);
+		expect(tokens).toEqual(['Hello', ' world']);
+	});
+});
+
+describe('withIdleTimeout', () => {
+	it('ends a stalled stream with an error event', async () => {
+		const stalled = new ReadableStream<Uint8Array>({ pull: () => new Promise(() => {}) });
+		const text = await new Response(withIdleTimeout(stalled, 10)).text();
+		expect(text).toContain('event: error');
+		expect(text).toContain('Stream timeout');
+	});
+});
@@ -1,11 +1,20 @@
 /* eslint-disable */
-// Generated by Wrangler by running `wrangler types` (hash: b739a9c19cff1463949c4db47674ed86)
+// Generated by Wrangler by running `wrangler types` (hash: f40514772d458081ffe5bdf11bc74971)
 // Runtime types generated with workerd@1.20251217.0 2025-12-21 
 declare namespace Cloudflare {
 	interface GlobalProps {
 		mainModule: typeof import("./src/index");
+		durableNamespaces: "LectureMemory" | "RateLimiter" | "JobRunner" | "MultiLectureChat";
 	}
 	interface Env {
+		GOOGLE_CLIENT_ID: "908607822794-8ve2epafvpspdnkcbfoo891ooiv1ekqd.apps.googleusercontent.com";
+		LECTURE_MEMORY: DurableObjectNamespace<import("./src/index").LectureMemory>;
+		RATE_LIMITER: DurableObjectNamespace<import("./src/index").RateLimiter>;
+		JOB_RUNNER: DurableObjectNamespace<import("./src/index").JobRunner>;
+		MULTI_LECTURE_CHAT: DurableObjectNamespace<import("./src/index").MultiLectureChat>;
+		LECTURE_FILES: R2Bucket;
+		lecturelens_db: D1Database;
+		AI: Ai;
 	}
 }
 interface Env extends Cloudflare.Env {}